@@ -0,0 +1,63 @@
+'use server'
+
+import { cookies, headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import {
+  clearFailedUnlocks,
+  createUnlockToken,
+  getUnlockRetryAfter,
+  recordFailedUnlock,
+  UNLOCK_COOKIE_MAX_AGE,
+  UNLOCK_COOKIE_NAME,
+} from '@/lib/link-unlock'
+import { getLinkByShortCode } from '@/lib/links'
+import { verifyPassword } from '@/lib/passwords'
+import { getClientIp } from '@/lib/request-ip'
+
+export type UnlockFormState = {
+  error?: string
+}
+
+export async function unlockLinkAction(
+  shortCode: string,
+  _prevState: UnlockFormState,
+  formData: FormData
+): Promise<UnlockFormState> {
+  const requestHeaders = await headers()
+  const link = await getLinkByShortCode(shortCode, requestHeaders.get('host'))
+
+  // Nothing to unlock: let the short-link page decide what to show
+  if (!link?.passwordHash) {
+    redirect(`/${shortCode}`)
+  }
+
+  const ip = getClientIp(requestHeaders)
+  const retryAfter = await getUnlockRetryAfter(link.id, ip)
+  if (retryAfter > 0) {
+    const minutes = Math.ceil(retryAfter / 60)
+    return { error: `Too many attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.` }
+  }
+
+  const password = formData.get('password')
+  if (typeof password !== 'string' || !(await verifyPassword(password, link.passwordHash))) {
+    await recordFailedUnlock(link.id, ip)
+    return { error: 'Incorrect password' }
+  }
+
+  await clearFailedUnlocks(link.id, ip)
+
+  // Carried through the form so query forwarding still sees it; re-encoded
+  // so only a query string can end up after the short code
+  const query = new URLSearchParams(String(formData.get('query') ?? '')).toString()
+
+  const cookieStore = await cookies()
+  cookieStore.set(UNLOCK_COOKIE_NAME, createUnlockToken(link), {
+    path: `/${shortCode}`,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: UNLOCK_COOKIE_MAX_AGE,
+  })
+
+  redirect(query ? `/${shortCode}?${query}` : `/${shortCode}`)
+}
@@ -0,0 +1,12 @@
+import { Link2Off } from 'lucide-react'
+import { LinkMessage } from '@/components/short-link/link-message'
+
+export default function ShortLinkNotFound() {
+  return (
+    <LinkMessage
+      icon={Link2Off}
+      title="Link not found"
+      description="This short link doesn't exist. Check the address for typos, or ask whoever shared it for a new one."
+    />
+  )
+}
@@ -0,0 +1,156 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { cookies, headers } from 'next/headers'
+import { notFound, redirect } from 'next/navigation'
+import { after } from 'next/server'
+import { Archive, Lock, ShieldAlert, TimerOff } from 'lucide-react'
+import { LinkMessage } from '@/components/short-link/link-message'
+import { SocialCardRedirect } from '@/components/short-link/social-card-redirect'
+import { UnlockForm } from '@/components/short-link/unlock-form'
+import { getClickContext } from '@/lib/analytics'
+import { logClick } from '@/lib/click-buffer'
+import { resolveHost } from '@/lib/domains'
+import { getLinkStatus } from '@/lib/link-status'
+import { isValidUnlockToken, UNLOCK_COOKIE_NAME } from '@/lib/link-unlock'
+import { getLinkByShortCode, incrementClickCount } from '@/lib/links'
+import { takeProfileSource } from '@/lib/profiles'
+import { forwardQuery, toQueryString } from '@/lib/query-forwarding'
+import { consumeRateLimit } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/request-ip'
+import { getVisitor, pickDestination } from '@/lib/routing-rules'
+import { getSocialCard, hasSocialCard } from '@/lib/social-card'
+import { isBotUserAgent } from '@/lib/user-agent'
+
+function LinkExpired({ reason }: { reason: 'date' | 'clicks' }) {
+  return (
+    <LinkMessage
+      icon={TimerOff}
+      title="This link has expired"
+      description={
+        reason === 'date'
+          ? 'The owner of this short link set it to stop working after a certain date.'
+          : 'This short link has reached the maximum number of visits its owner allowed.'
+      }
+    />
+  )
+}
+
+type ShortCodePageProps = {
+  params: Promise<{ shortCode: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+// Shared by generateMetadata and the page within a request. The Host header
+// picks the domain: go.example.com/abc and /abc on the app can be different links.
+const getLink = cache(async (shortCode: string) => getLinkByShortCode(shortCode, (await headers()).get('host')))
+
+// Card tags for unfurlers. Next waits for these before sending the <head> to
+// known bots, so Slack, Twitter and friends always see them.
+export async function generateMetadata({ params }: ShortCodePageProps): Promise<Metadata> {
+  const { shortCode } = await params
+  const link = await getLink(shortCode)
+  if (!link || !hasSocialCard(link)) return {}
+
+  const { title, description, image } = getSocialCard(link)
+  const images = image ? [image] : undefined
+
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: { type: 'website', title, description: description ?? undefined, images },
+    twitter: { card: image ? 'summary_large_image' : 'summary', title, description: description ?? undefined, images },
+  }
+}
+
+export default async function ShortCodePage({ params, searchParams }: ShortCodePageProps) {
+  const { shortCode } = await params
+  const link = await getLink(shortCode)
+
+  if (!link) {
+    const requestHeaders = await headers()
+    // Counts towards the guessing limit that proxy.ts enforces
+    const ip = getClientIp(requestHeaders)
+    after(() => consumeRateLimit('shortCodeMiss', ip))
+
+    // Custom domains can send unknown codes to their own site instead
+    const domain = await resolveHost(requestHeaders.get('host'))
+    if (domain?.fallbackUrl) redirect(domain.fallbackUrl)
+    notFound()
+  }
+
+  const status = getLinkStatus(link)
+  if (status.state === 'disabled') {
+    // Deliberately doesn't reveal the destination
+    return (
+      <LinkMessage
+        icon={ShieldAlert}
+        title="This link has been disabled"
+        description="It was reported and found to point somewhere that may be unsafe, such as a phishing or malware site. We stopped redirecting to protect you."
+      />
+    )
+  }
+  if (status.state === 'archived') {
+    return (
+      <LinkMessage
+        icon={Archive}
+        title="This link was archived"
+        description="Its owner has stopped using this short link, so it no longer redirects anywhere."
+      />
+    )
+  }
+  if (status.state === 'expired') {
+    return <LinkExpired reason={status.reason} />
+  }
+
+  if (link.passwordHash) {
+    const unlockToken = (await cookies()).get(UNLOCK_COOKIE_NAME)?.value
+
+    if (!isValidUnlockToken(link, unlockToken)) {
+      return (
+        <LinkMessage
+          icon={Lock}
+          title="This link is password protected"
+          description="Enter the password you were given to continue."
+        >
+          <UnlockForm
+            shortCode={link.shortCode}
+            query={link.queryForwarding === 'off' ? undefined : toQueryString(await searchParams)}
+          />
+        </LinkMessage>
+      )
+    }
+  }
+
+  const { fromProfile, query } = takeProfileSource(await searchParams)
+
+  // Request headers aren't available inside after(), so capture them first
+  const requestHeaders = await headers()
+  const context = getClickContext(requestHeaders, fromProfile)
+  // Unfurlers and crawlers must not burn through a one-off link's budget
+  const isHuman = !isBotUserAgent(context.userAgent)
+  const hasBudget = link.maxClicks !== null
+
+  // Spend from a limited budget before redirecting so concurrent visitors can't overshoot it
+  if (isHuman && hasBudget && !(await incrementClickCount(link.id))) {
+    return <LinkExpired reason="clicks" />
+  }
+
+  after(() => logClick(link.id, context, { counted: isHuman && !hasBudget }))
+
+  const destination = pickDestination(
+    link.url,
+    link.routingRules,
+    getVisitor(context, requestHeaders.get('accept-language'))
+  )
+  const destinationUrl = forwardQuery(destination.url, query, link.queryForwarding)
+
+  // Crawlers get an HTML page they can read card tags from; owners can opt
+  // browsers in too, for unfurlers that pretend to be one
+  if ((!isHuman || link.showSocialCard) && hasSocialCard(link)) {
+    return <SocialCardRedirect url={destinationUrl} card={getSocialCard(link)} />
+  }
+
+  // 307 rather than 308: links can be edited, so browsers must not cache the target
+  redirect(destinationUrl)
+}
@@ -0,0 +1,56 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/admin'
+import { disableLink, dismissReports, enableLink } from '@/lib/link-reports'
+
+export type ModerationFormState = {
+  success?: boolean
+  message?: string
+  errors?: { reason?: string[] }
+}
+
+const disableReasonSchema = z
+  .string()
+  .trim()
+  .min(1, 'Say why the link is being disabled')
+  .max(500, 'Use at most 500 characters')
+
+export async function disableLinkAction(
+  linkId: string,
+  _prevState: ModerationFormState,
+  formData: FormData
+): Promise<ModerationFormState> {
+  const moderatorId = await requireAdmin()
+
+  const parsed = disableReasonSchema.safeParse(formData.get('reason'))
+  if (!parsed.success) {
+    return { errors: { reason: z.flattenError(parsed.error).formErrors } }
+  }
+
+  const disabled = await disableLink(linkId, moderatorId, parsed.data)
+  if (!disabled) return { message: 'Link not found' }
+
+  revalidatePath('/admin')
+  return { success: true }
+}
+
+export async function dismissReportsAction(linkId: string): Promise<ModerationFormState> {
+  const moderatorId = await requireAdmin()
+
+  await dismissReports(linkId, moderatorId)
+
+  revalidatePath('/admin')
+  return { success: true }
+}
+
+export async function enableLinkAction(linkId: string): Promise<ModerationFormState> {
+  await requireAdmin()
+
+  const enabled = await enableLink(linkId)
+  if (!enabled) return { message: 'Link not found' }
+
+  revalidatePath('/admin')
+  return { success: true }
+}
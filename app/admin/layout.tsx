@@ -0,0 +1,18 @@
+import { auth } from '@clerk/nextjs/server'
+import { notFound } from 'next/navigation'
+import { isAdmin } from '@/lib/admin'
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const { userId } = await auth()
+
+  // Don't reveal that the admin area exists
+  if (!isAdmin(userId)) {
+    notFound()
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,153 @@
+import { ShieldCheck } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DisableLinkDialog } from '@/components/admin/disable-link-dialog'
+import { ModerationActionButton } from '@/components/admin/moderation-action-button'
+import { dismissReportsAction, enableLinkAction } from '@/app/admin/actions'
+import { getDisabledLinks, getModerationQueue, REPORT_REASONS } from '@/lib/link-reports'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+// Protected by admin/layout.tsx
+export default async function ModerationPage() {
+  const [queue, disabledLinks] = await Promise.all([getModerationQueue(), getDisabledLinks()])
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Moderation</h1>
+        <p className="text-muted-foreground">Review abuse reports from visitors and disable unsafe links.</p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Reported links</CardTitle>
+            <CardDescription>
+              {queue.length === 1 ? '1 link waiting for review' : `${queue.length} links waiting for review`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {queue.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                  <ShieldCheck className="h-6 w-6 text-primary" />
+                </div>
+                <h3 className="mb-2 text-lg font-semibold">Nothing to review</h3>
+                <p className="text-sm text-muted-foreground">New reports will show up here.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Short link</TableHead>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Reports</TableHead>
+                    <TableHead>Last reported</TableHead>
+                    <TableHead className="w-[200px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queue.map(({ link, reports }) => (
+                    <TableRow key={link.id} className="align-top">
+                      <TableCell className="font-mono font-medium">
+                        /{link.shortCode}
+                        {link.disabledAt && (
+                          <Badge variant="destructive" className="ml-2">Disabled</Badge>
+                        )}
+                      </TableCell>
+                      {/* Shown as text, never as a link, so moderators don't open it by accident */}
+                      <TableCell className="max-w-xs break-all font-mono text-xs text-muted-foreground">
+                        {link.url}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="space-y-2 text-sm">
+                          {reports.map((report) => (
+                            <li key={report.id}>
+                              <span className="font-medium">{REPORT_REASONS[report.reason]}</span>
+                              {report.details && (
+                                <p className="max-w-sm whitespace-pre-wrap text-muted-foreground">{report.details}</p>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(reports[0].createdAt)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <ModerationActionButton
+                            action={dismissReportsAction.bind(null, link.id)}
+                            label="Dismiss"
+                            pendingLabel="Dismissing..."
+                          />
+                          {!link.disabledAt && <DisableLinkDialog linkId={link.id} shortCode={link.shortCode} />}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Disabled links</CardTitle>
+            <CardDescription>These show a warning page instead of redirecting.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {disabledLinks.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No links are disabled.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Short link</TableHead>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Disabled</TableHead>
+                    <TableHead className="w-[120px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {disabledLinks.map((link) => (
+                    <TableRow key={link.id}>
+                      <TableCell className="font-mono font-medium">/{link.shortCode}</TableCell>
+                      <TableCell className="max-w-xs break-all font-mono text-xs text-muted-foreground">
+                        {link.url}
+                      </TableCell>
+                      <TableCell className="max-w-sm text-sm">{link.disabledReason}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {link.disabledAt && dateFormat.format(link.disabledAt)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <ModerationActionButton
+                            action={enableLinkAction.bind(null, link.id)}
+                            label="Re-enable"
+                            pendingLabel="Enabling..."
+                          />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
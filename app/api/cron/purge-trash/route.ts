@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiError } from '@/lib/api'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { purgeExpiredTrash } from '@/lib/links'
+
+// Deletes links that have been in the trash longer than TRASH_RETENTION_DAYS.
+// Run daily.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return apiError(401, 'unauthorized', 'Missing or invalid cron secret')
+  }
+
+  const purged = await purgeExpiredTrash()
+  return NextResponse.json({ purged })
+}
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { apiError } from '@/lib/api'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { deliverDueWebhooks } from '@/lib/webhooks'
+
+// Retries failed webhook deliveries once their backoff is over, and sends
+// events queued outside a request. Run every minute; the first retry comes a
+// minute after a failure.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return apiError(401, 'unauthorized', 'Missing or invalid cron secret')
+  }
+
+  const attempted = await deliverDueWebhooks()
+  return NextResponse.json({ attempted })
+}
@@ -0,0 +1,49 @@
+import { after, type NextRequest } from 'next/server'
+import { apiError, rateLimited, validationError } from '@/lib/api'
+import { getLinkByShortCode } from '@/lib/links'
+import { renderQrCode } from '@/lib/qr-code'
+import { consumeRateLimit, getRateLimit } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/request-ip'
+import { getShortUrl } from '@/lib/short-url'
+import { parseQrOptions } from '@/lib/qr-options'
+
+// Public so the image can be embedded with a plain <img src>. It only encodes
+// the short URL, which is already public, never the destination. Links on a
+// custom domain are looked up with ?domain=<hostname>. Unknown codes count
+// against the visitor's miss limit, as on the redirect, so this can't be used
+// to find links either.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortCode: string }> }
+) {
+  const { shortCode } = await params
+  const { searchParams, origin } = request.nextUrl
+  const domain = searchParams.get('domain')
+  const ip = getClientIp(request.headers)
+  const misses = await getRateLimit('shortCodeMiss', ip)
+  if (!misses.allowed) return rateLimited(misses, 'Too many requests for unknown links')
+
+  const link = await getLinkByShortCode(shortCode, domain)
+  if (!link) {
+    after(() => consumeRateLimit('shortCodeMiss', ip))
+    return apiError(404, 'not_found', 'Link not found')
+  }
+
+  const options = parseQrOptions(searchParams)
+  if (!options.success) return validationError(options.error, 'The query parameters are invalid')
+
+  const { body, contentType } = await renderQrCode(
+    getShortUrl(link.shortCode, origin, link.domainId ? domain : null),
+    options.data
+  )
+  const headers = new Headers({
+    'Content-Type': contentType,
+    // Aliases can be renamed, so don't let caches hold on to a code for long
+    'Cache-Control': 'public, max-age=3600',
+  })
+  if (searchParams.has('download')) {
+    headers.set('Content-Disposition', `attachment; filename="${link.shortCode}-qr.${options.data.format}"`)
+  }
+
+  return new Response(body, { headers })
+}
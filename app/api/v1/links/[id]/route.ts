@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import {
+  apiError,
+  readJson,
+  requireEditor,
+  serializeLink,
+  shortCodeConflict,
+  toDomainId,
+  unknownDomain,
+  unsafeDestination,
+  validationError,
+  withApiAuth,
+} from '@/lib/api'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { getDomainHostnames } from '@/lib/domains'
+import { schedulePreviewFetch } from '@/lib/link-previews'
+import { getShortCodeChangeError, linkUpdateApiSchema } from '@/lib/link-schema'
+import { deleteLink, getLinkById, SHORT_CODE_UNIQUE_CONSTRAINT, updateLink } from '@/lib/links'
+import { hashPassword } from '@/lib/passwords'
+import { getTagsForLinks, setLinkTags } from '@/lib/tags'
+import { getDestinationUrlError, getOwnHosts, getRoutingRulesUrlError } from '@/lib/url-safety'
+
+type Params = { id: string }
+
+const linkNotFound = () => apiError(404, 'not_found', 'Link not found')
+
+export const GET = withApiAuth<Params>(async (request, { workspaceId, params }) => {
+  const link = await getLinkById(params.id, workspaceId)
+  if (!link) return linkNotFound()
+
+  const [tagsByLink, hostnames] = await Promise.all([getTagsForLinks([link.id]), getDomainHostnames(workspaceId)])
+  return NextResponse.json({
+    data: serializeLink(link, request.nextUrl.origin, tagsByLink.get(link.id) ?? [], hostnames),
+  })
+})
+
+export const PATCH = withApiAuth<Params>(async (request, { userId, workspaceId, role, params }) => {
+  const forbidden = requireEditor(role)
+  if (forbidden) return forbidden
+
+  const parsed = linkUpdateApiSchema.safeParse(await readJson(request))
+  if (!parsed.success) return validationError(parsed.error)
+
+  const { password, tags, domain, ...values } = parsed.data
+
+  if (values.shortCode !== undefined) {
+    const current = await getLinkById(params.id, workspaceId)
+    if (!current) return linkNotFound()
+    const aliasError = getShortCodeChangeError(values.shortCode, current.shortCode)
+    if (aliasError) {
+      return apiError(400, 'invalid_request', 'The request body is invalid', { shortCode: [aliasError] })
+    }
+  }
+
+  const hostnames = await getDomainHostnames(workspaceId)
+  const domainId = toDomainId(domain, hostnames)
+  if (domainId === false) return unknownDomain()
+
+  const ownHosts = await getOwnHosts(request.headers.get('host'))
+  const urlError = values.url && getDestinationUrlError(values.url, ownHosts)
+  if (urlError) return unsafeDestination(urlError)
+  const rulesError = values.routingRules && getRoutingRulesUrlError(values.routingRules, ownHosts)
+  if (rulesError) return unsafeDestination(rulesError, 'routingRules')
+
+  try {
+    const link = await updateLink(params.id, workspaceId, userId, {
+      ...values,
+      domainId,
+      // undefined keeps the current password, null removes it
+      passwordHash: password ? await hashPassword(password) : password,
+    })
+    if (!link) return linkNotFound()
+
+    // Omitted tags are left unchanged, like every other field
+    if (tags) await setLinkTags(link.id, workspaceId, tags)
+    if (!link.previewFetchedAt) schedulePreviewFetch([link.id])
+    const tagsByLink = await getTagsForLinks([link.id])
+
+    return NextResponse.json({
+      data: serializeLink(link, request.nextUrl.origin, tagsByLink.get(link.id) ?? [], hostnames),
+    })
+  } catch (error) {
+    if (isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) {
+      return shortCodeConflict()
+    }
+    throw error
+  }
+})
+
+export const DELETE = withApiAuth<Params>(async (_request, { userId, workspaceId, role, params }) => {
+  const forbidden = requireEditor(role)
+  if (forbidden) return forbidden
+
+  const deleted = await deleteLink(params.id, workspaceId, userId)
+  if (!deleted) return linkNotFound()
+
+  return new Response(null, { status: 204 })
+})
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { apiError, withApiAuth } from '@/lib/api'
+import { getClickStats, parseStatsOptions } from '@/lib/analytics'
+import { getLinkById } from '@/lib/links'
+
+export const GET = withApiAuth<{ id: string }>(async (request, { workspaceId, params }) => {
+  const link = await getLinkById(params.id, workspaceId)
+  if (!link) return apiError(404, 'not_found', 'Link not found')
+
+  const { searchParams } = request.nextUrl
+  const options = parseStatsOptions({
+    days: searchParams.get('days') ?? undefined,
+    bots: searchParams.get('bots') ?? undefined,
+  })
+  const stats = await getClickStats(workspaceId, { ...options, linkId: link.id })
+
+  return NextResponse.json({ data: { ...options, ...stats } })
+})
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import type { Link } from '@/db/schema'
+import {
+  apiError,
+  rateLimited,
+  readJson,
+  requireEditor,
+  serializeLink,
+  shortCodeConflict,
+  toDomainId,
+  unknownDomain,
+  unsafeDestination,
+  validationError,
+  withApiAuth,
+} from '@/lib/api'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { getDomainHostnames } from '@/lib/domains'
+import { schedulePreviewFetch } from '@/lib/link-previews'
+import { linkCreateApiSchema } from '@/lib/link-schema'
+import { createLink, listLinks, SHORT_CODE_UNIQUE_CONSTRAINT } from '@/lib/links'
+import { decodeCursor, parsePageSize } from '@/lib/pagination'
+import { hashPassword } from '@/lib/passwords'
+import { consumeRateLimit, describeLinkQuota, releaseRateLimit } from '@/lib/rate-limit'
+import { getTagsForLinks, setLinkTags } from '@/lib/tags'
+import { getDestinationUrlError, getOwnHosts, getRoutingRulesUrlError } from '@/lib/url-safety'
+
+export const GET = withApiAuth(async (request, { workspaceId }) => {
+  const { searchParams, origin } = request.nextUrl
+  const cursorParam = searchParams.get('cursor')
+  const cursor = decodeCursor(cursorParam)
+
+  if (cursorParam && !cursor) {
+    return apiError(400, 'invalid_request', 'The cursor is invalid')
+  }
+
+  const page = await listLinks(workspaceId, { limit: parsePageSize(searchParams.get('limit')), cursor })
+  const [tagsByLink, hostnames] = await Promise.all([
+    getTagsForLinks(page.items.map((link) => link.id)),
+    getDomainHostnames(workspaceId),
+  ])
+
+  return NextResponse.json({
+    data: page.items.map((link) => serializeLink(link, origin, tagsByLink.get(link.id) ?? [], hostnames)),
+    nextCursor: page.nextCursor,
+  })
+})
+
+export const POST = withApiAuth(async (request, { userId, workspaceId, role }) => {
+  const forbidden = requireEditor(role)
+  if (forbidden) return forbidden
+
+  const parsed = linkCreateApiSchema.safeParse(await readJson(request))
+  if (!parsed.success) return validationError(parsed.error)
+
+  const { password, tags, domain, ...values } = parsed.data
+
+  const hostnames = await getDomainHostnames(workspaceId)
+  const domainId = toDomainId(domain, hostnames)
+  if (domainId === false) return unknownDomain()
+
+  const ownHosts = await getOwnHosts(request.headers.get('host'))
+  const urlError = getDestinationUrlError(values.url, ownHosts)
+  if (urlError) return unsafeDestination(urlError)
+  const rulesError = getRoutingRulesUrlError(values.routingRules ?? [], ownHosts)
+  if (rulesError) return unsafeDestination(rulesError, 'routingRules')
+
+  // Counted up front so parallel requests can't overrun the quota, and given
+  // back when no link comes of it
+  const quota = await consumeRateLimit('linkCreation', userId)
+  if (!quota.allowed) return rateLimited(quota, describeLinkQuota(quota))
+
+  let link: Link
+  try {
+    link = await createLink({
+      workspaceId,
+      userId,
+      url: values.url,
+      domainId: domainId ?? null,
+      shortCode: values.shortCode,
+      expiresAt: values.expiresAt ?? null,
+      maxClicks: values.maxClicks ?? null,
+      passwordHash: password ? await hashPassword(password) : null,
+      title: values.title ?? null,
+      notes: values.notes ?? null,
+      socialTitle: values.socialTitle ?? null,
+      socialDescription: values.socialDescription ?? null,
+      socialImage: values.socialImage ?? null,
+      showSocialCard: values.showSocialCard ?? false,
+      routingRules: values.routingRules ?? [],
+      queryForwarding: values.queryForwarding ?? 'off',
+    })
+  } catch (error) {
+    await releaseRateLimit('linkCreation', userId)
+    if (isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) {
+      return shortCodeConflict()
+    }
+    throw error
+  }
+
+  if (tags?.length) await setLinkTags(link.id, workspaceId, tags)
+  schedulePreviewFetch([link.id])
+
+  return NextResponse.json({ data: serializeLink(link, request.nextUrl.origin, tags ?? [], hostnames) }, { status: 201 })
+})
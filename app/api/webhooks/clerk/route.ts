@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import type { WebhookEvent } from '@clerk/nextjs/webhooks'
+import { apiError } from '@/lib/api'
+import { verifyClerkWebhook } from '@/lib/clerk-webhooks'
+import { deleteUserData } from '@/lib/user-data'
+
+// Subscribe to user.deleted in the Clerk dashboard with this URL and put the
+// endpoint's signing secret in CLERK_WEBHOOK_SIGNING_SECRET. Other event types
+// are acknowledged and ignored. A failure answers 500 so Clerk retries.
+export async function POST(request: NextRequest) {
+  if (!process.env.CLERK_WEBHOOK_SIGNING_SECRET) {
+    console.error('Clerk webhook received, but CLERK_WEBHOOK_SIGNING_SECRET is not set')
+    return apiError(500, 'internal_error', 'Clerk webhooks are not configured')
+  }
+
+  let event: WebhookEvent
+  try {
+    event = await verifyClerkWebhook(request)
+  } catch {
+    return apiError(400, 'invalid_request', 'The webhook signature is invalid')
+  }
+
+  if (event.type === 'user.deleted' && event.data.id) {
+    await deleteUserData(event.data.id)
+  }
+
+  return NextResponse.json({ received: true })
+}
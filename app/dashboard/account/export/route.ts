@@ -0,0 +1,19 @@
+import { auth } from '@clerk/nextjs/server'
+import { exportUserData } from '@/lib/user-data'
+
+// Route handlers aren't covered by dashboard/layout.tsx, so check auth here
+export async function GET() {
+  const { userId } = await auth()
+  if (!userId) return new Response('Unauthorized', { status: 401 })
+
+  const archive = await exportUserData(userId)
+  const date = new Date().toISOString().slice(0, 10)
+
+  return new Response(JSON.stringify(archive, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="my-data-${date}.json"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
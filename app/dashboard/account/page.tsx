@@ -0,0 +1,59 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export default async function AccountPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Your data</h1>
+        <p className="text-muted-foreground">What we keep about you, across every workspace you belong to.</p>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Download your data</CardTitle>
+            <CardDescription>
+              A JSON archive of your workspace memberships, the links you created with their tags and history,
+              your actions in workspace audit logs, your API tokens and UTM presets, and your personal
+              workspace&apos;s domains, webhooks and profile page. Passwords, token hashes and webhook secrets are
+              left out. Your name and email are kept by our sign-in provider and can be seen under Manage account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <a href="/dashboard/account/export" download>
+                <Download /> Download JSON
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Deleting your account</CardTitle>
+            <CardDescription>
+              Delete your account from Manage account in the user menu. Your personal workspace and any workspace
+              you are the only member of are deleted with all their links. In shared workspaces your links stay with
+              the team and are shown as created by a deleted user; if you were the last owner, the longest-standing
+              member becomes owner. Your API tokens and UTM presets are deleted.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    </div>
+  )
+}
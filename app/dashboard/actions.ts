@@ -0,0 +1,404 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+import { z } from 'zod'
+import type { Link } from '@/db/schema'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { getDomainById } from '@/lib/domains'
+import { overrideLinkPreview, refreshLinkPreview, schedulePreviewFetch } from '@/lib/link-previews'
+import { getLinkRevision } from '@/lib/link-revisions'
+import {
+  getShortCodeChangeError,
+  parseLinkForm,
+  parseLinkPreviewForm,
+  parseSocialCardForm,
+  type LinkFieldErrors,
+  type LinkPreviewFieldErrors,
+  type SocialCardFieldErrors,
+} from '@/lib/link-schema'
+import {
+  archiveLink,
+  createLink,
+  deleteLink,
+  getLinkById,
+  purgeLink,
+  recoverLink,
+  restoreLinkRevision,
+  SHORT_CODE_UNIQUE_CONSTRAINT,
+  unarchiveLink,
+  updateLink,
+} from '@/lib/links'
+import { hashPassword } from '@/lib/passwords'
+import { consumeRateLimit, describeLinkQuota, releaseRateLimit } from '@/lib/rate-limit'
+import { formatRoutingRuleIssues, routingRulesSchema } from '@/lib/routing-rules'
+import { setLinkTags } from '@/lib/tags'
+import { getDestinationUrlError, getOwnHosts, getRoutingRulesUrlError } from '@/lib/url-safety'
+import { MAX_UTM_PRESETS, utmPresetSchema, type UtmPresetInput } from '@/lib/utm'
+import { countUtmPresets, createUtmPreset, deleteUtmPreset, UTM_PRESET_NAME_CONSTRAINT } from '@/lib/utm-presets'
+import { hasRole } from '@/lib/workspace-roles'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+export type LinkFormState = {
+  success?: boolean
+  message?: string
+  errors?: LinkFieldErrors
+}
+
+const SHORT_CODE_TAKEN: LinkFormState = {
+  errors: { shortCode: ['That alias is already taken. Try another one.'] },
+}
+
+// Shared by every form state below
+const READ_ONLY = {
+  message: 'You have view-only access to this workspace',
+}
+
+async function checkDestination(url: string): Promise<LinkFormState | undefined> {
+  const error = getDestinationUrlError(url, await getOwnHosts((await headers()).get('host')))
+  return error ? { errors: { url: [error] } } : undefined
+}
+
+// Links can only be put on the workspace's verified domains
+async function checkDomain(domainId: string | undefined, workspaceId: string): Promise<LinkFormState | undefined> {
+  if (!domainId) return undefined
+  const domain = await getDomainById(domainId, workspaceId)
+  return domain?.verifiedAt ? undefined : { errors: { domainId: ['Pick a verified domain'] } }
+}
+
+export async function createLinkAction(
+  _prevState: LinkFormState,
+  formData: FormData
+): Promise<LinkFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const parsed = parseLinkForm(formData)
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const unsafe = await checkDestination(parsed.data.url)
+  if (unsafe) return unsafe
+  const unknownDomain = await checkDomain(parsed.data.domainId, workspace.id)
+  if (unknownDomain) return unknownDomain
+
+  // Counted up front so parallel requests can't overrun the quota, and given
+  // back when no link comes of it
+  const quota = await consumeRateLimit('linkCreation', userId)
+  if (!quota.allowed) return { message: describeLinkQuota(quota) }
+
+  let link: Link
+  try {
+    link = await createLink({
+      workspaceId: workspace.id,
+      userId,
+      url: parsed.data.url,
+      domainId: parsed.data.domainId ?? null,
+      shortCode: parsed.data.shortCode,
+      expiresAt: parsed.data.expiresAt ?? null,
+      maxClicks: parsed.data.maxClicks ?? null,
+      passwordHash: parsed.data.password ? await hashPassword(parsed.data.password) : null,
+      title: parsed.data.title ?? null,
+      notes: parsed.data.notes ?? null,
+      queryForwarding: parsed.data.queryForwarding,
+    })
+  } catch (error) {
+    await releaseRateLimit('linkCreation', userId)
+    if (isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) return SHORT_CODE_TAKEN
+    throw error
+  }
+
+  if (parsed.data.tags.length > 0) await setLinkTags(link.id, workspace.id, parsed.data.tags)
+  schedulePreviewFetch([link.id])
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+// undefined leaves the stored password untouched
+async function getPasswordUpdate(data: { password?: string; removePassword: boolean }) {
+  if (data.removePassword) return null
+  if (data.password) return hashPassword(data.password)
+  return undefined
+}
+
+export async function updateLinkAction(
+  id: string,
+  _prevState: LinkFormState,
+  formData: FormData
+): Promise<LinkFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const parsed = parseLinkForm(formData, { editing: true })
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+  if (!parsed.data.shortCode) {
+    return { errors: { shortCode: ['Enter an alias'] } }
+  }
+
+  const current = await getLinkById(id, workspace.id)
+  if (!current) return { message: 'Link not found' }
+  const aliasError = getShortCodeChangeError(parsed.data.shortCode, current.shortCode)
+  if (aliasError) return { errors: { shortCode: [aliasError] } }
+
+  const unsafe = await checkDestination(parsed.data.url)
+  if (unsafe) return unsafe
+  const unknownDomain = await checkDomain(parsed.data.domainId, workspace.id)
+  if (unknownDomain) return unknownDomain
+
+  try {
+    const link = await updateLink(id, workspace.id, userId, {
+      url: parsed.data.url,
+      domainId: parsed.data.domainId ?? null,
+      shortCode: parsed.data.shortCode,
+      expiresAt: parsed.data.expiresAt ?? null,
+      maxClicks: parsed.data.maxClicks ?? null,
+      passwordHash: await getPasswordUpdate(parsed.data),
+      title: parsed.data.title ?? null,
+      notes: parsed.data.notes ?? null,
+      queryForwarding: parsed.data.queryForwarding,
+    })
+    if (!link) return { message: 'Link not found' }
+    await setLinkTags(link.id, workspace.id, parsed.data.tags)
+    if (!link.previewFetchedAt) schedulePreviewFetch([link.id])
+  } catch (error) {
+    if (isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) return SHORT_CODE_TAKEN
+    throw error
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+// Archive, trash and their undos all take just the link and report whether it
+// was in the state the action starts from
+async function changeLinkStateAction(
+  change: (id: string, workspaceId: string, userId: string) => Promise<boolean>,
+  id: string
+): Promise<LinkFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const changed = await change(id, workspace.id, userId)
+  if (!changed) return { message: 'Link not found' }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+export async function archiveLinkAction(id: string) {
+  return changeLinkStateAction(archiveLink, id)
+}
+
+export async function unarchiveLinkAction(id: string) {
+  return changeLinkStateAction(unarchiveLink, id)
+}
+
+// Moves the link to the trash
+export async function deleteLinkAction(id: string) {
+  return changeLinkStateAction(deleteLink, id)
+}
+
+export async function recoverLinkAction(id: string) {
+  return changeLinkStateAction(recoverLink, id)
+}
+
+// Deletes a link in the trash for good
+export async function purgeLinkAction(id: string) {
+  return changeLinkStateAction(purgeLink, id)
+}
+
+// Puts back every tracked setting as it was after the revision. Checked like
+// an edit, since the domain or the URL rules may have changed since.
+export async function restoreLinkRevisionAction(linkId: string, revisionId: string): Promise<LinkFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const link = await getLinkById(linkId, workspace.id)
+  const revision = link && (await getLinkRevision(revisionId, link.id))
+  if (!revision) return { message: 'Revision not found' }
+
+  const { url, routingRules, domainId } = revision.snapshot
+  const ownHosts = await getOwnHosts((await headers()).get('host'))
+  const unsafe = getDestinationUrlError(url, ownHosts) ?? getRoutingRulesUrlError(routingRules, ownHosts)
+  if (unsafe) return { message: `That version cannot be restored. ${unsafe}.` }
+  if (await checkDomain(domainId ?? undefined, workspace.id)) {
+    return { message: 'That version uses a domain that is no longer verified' }
+  }
+
+  try {
+    const restored = await restoreLinkRevision(revision, workspace.id, userId)
+    if (!restored) return { message: 'Link not found' }
+    if (!restored.previewFetchedAt) schedulePreviewFetch([restored.id])
+  } catch (error) {
+    if (isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) {
+      return { message: `Another link now uses /${revision.snapshot.shortCode}` }
+    }
+    throw error
+  }
+
+  revalidatePath(`/dashboard/links/${linkId}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+export type LinkPreviewFormState = {
+  success?: boolean
+  message?: string
+  errors?: LinkPreviewFieldErrors
+}
+
+// Fetches the destination again right away, replacing any hand-edited values
+export async function refreshLinkPreviewAction(id: string): Promise<LinkFormState> {
+  const { workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const link = await getLinkById(id, workspace.id)
+  if (!link) return { message: 'Link not found' }
+
+  await refreshLinkPreview(link)
+
+  revalidatePath(`/dashboard/links/${id}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+export async function updateLinkPreviewAction(
+  id: string,
+  _prevState: LinkPreviewFormState,
+  formData: FormData
+): Promise<LinkPreviewFormState> {
+  const { workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const parsed = parseLinkPreviewForm(formData)
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const updated = await overrideLinkPreview(id, workspace.id, {
+    title: parsed.data.title ?? null,
+    description: parsed.data.description ?? null,
+    image: parsed.data.image ?? null,
+    favicon: parsed.data.favicon ?? null,
+  })
+  if (!updated) return { message: 'Link not found' }
+
+  revalidatePath(`/dashboard/links/${id}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+export type SocialCardFormState = {
+  success?: boolean
+  message?: string
+  errors?: SocialCardFieldErrors
+}
+
+export async function updateSocialCardAction(
+  id: string,
+  _prevState: SocialCardFormState,
+  formData: FormData
+): Promise<SocialCardFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  const parsed = parseSocialCardForm(formData)
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const link = await updateLink(id, workspace.id, userId, {
+    socialTitle: parsed.data.socialTitle ?? null,
+    socialDescription: parsed.data.socialDescription ?? null,
+    socialImage: parsed.data.socialImage ?? null,
+    showSocialCard: parsed.data.showSocialCard,
+  })
+  if (!link) return { message: 'Link not found' }
+
+  revalidatePath(`/dashboard/links/${id}`)
+  return { success: true }
+}
+
+export type RoutingRulesFormState = {
+  success?: boolean
+  message?: string
+  errors?: string[]
+}
+
+// The editor submits the whole ordered list as JSON in the `rules` field
+export async function updateRoutingRulesAction(
+  id: string,
+  _prevState: RoutingRulesFormState,
+  formData: FormData
+): Promise<RoutingRulesFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return READ_ONLY
+
+  let input: unknown
+  try {
+    input = JSON.parse(String(formData.get('rules') ?? '[]'))
+  } catch {
+    return { message: 'The rules could not be read. Reload the page and try again.' }
+  }
+
+  const parsed = routingRulesSchema.safeParse(input)
+  if (!parsed.success) {
+    return { errors: formatRoutingRuleIssues(parsed.error) }
+  }
+
+  const unsafe = getRoutingRulesUrlError(parsed.data, await getOwnHosts((await headers()).get('host')))
+  if (unsafe) return { errors: [unsafe] }
+
+  const link = await updateLink(id, workspace.id, userId, { routingRules: parsed.data })
+  if (!link) return { message: 'Link not found' }
+
+  revalidatePath(`/dashboard/links/${id}`)
+  return { success: true }
+}
+
+export type UtmPresetState = {
+  success?: boolean
+  message?: string
+  errors?: Partial<Record<keyof UtmPresetInput, string[]>>
+}
+
+// Called from the UTM builder inside the link form, so it takes the values
+// directly rather than a form of its own
+export async function createUtmPresetAction(input: UtmPresetInput): Promise<UtmPresetState> {
+  const { userId } = await getWorkspaceContext()
+
+  const parsed = utmPresetSchema.safeParse(input)
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  if ((await countUtmPresets(userId)) >= MAX_UTM_PRESETS) {
+    return { message: `You can save up to ${MAX_UTM_PRESETS} presets. Delete one to add another.` }
+  }
+
+  try {
+    await createUtmPreset(userId, parsed.data)
+  } catch (error) {
+    if (isUniqueViolation(error, UTM_PRESET_NAME_CONSTRAINT)) {
+      return { errors: { name: ['You already have a preset with that name'] } }
+    }
+    throw error
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+export async function deleteUtmPresetAction(id: string): Promise<UtmPresetState> {
+  const { userId } = await getWorkspaceContext()
+
+  const deleted = await deleteUtmPreset(id, userId)
+  if (!deleted) return { message: 'Preset not found' }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
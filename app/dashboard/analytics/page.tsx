@@ -0,0 +1,38 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ClickStatsView } from '@/components/analytics/click-stats-view'
+import { getClickStats, parseStatsOptions } from '@/lib/analytics'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+export default async function AnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string; bots?: string }>
+}) {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+
+  const options = parseStatsOptions(await searchParams)
+  const stats = await getClickStats(active.id, options)
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+        <p className="text-muted-foreground">Clicks across all of your links.</p>
+      </div>
+      <ClickStatsView stats={stats} options={options} basePath="/dashboard/analytics" />
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { createApiToken, revokeApiToken } from '@/lib/api-tokens'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+export type ApiTokenFormState = {
+  // Plaintext token, returned once right after creation
+  token?: string
+  message?: string
+  errors?: { name?: string[] }
+}
+
+const tokenNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Give the token a name')
+  .max(100, 'Use at most 100 characters')
+
+export async function createApiTokenAction(
+  _prevState: ApiTokenFormState,
+  formData: FormData
+): Promise<ApiTokenFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+
+  const parsed = tokenNameSchema.safeParse(formData.get('name'))
+  if (!parsed.success) {
+    return { errors: { name: z.flattenError(parsed.error).formErrors } }
+  }
+
+  const { token, record } = await createApiToken(userId, workspace.id, parsed.data)
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId,
+    action: 'api_token.created',
+    targetId: record.id,
+    details: { name: record.name },
+  })
+
+  revalidatePath('/dashboard/api-tokens')
+  return { token }
+}
+
+export async function revokeApiTokenAction(id: string): Promise<ApiTokenFormState> {
+  const { userId } = await getWorkspaceContext()
+
+  const revoked = await revokeApiToken(id, userId)
+  if (!revoked) return { message: 'Token not found' }
+  // Logged in the token's workspace, which need not be the active one
+  await recordAuditEvent({
+    workspaceId: revoked.workspaceId,
+    userId,
+    action: 'api_token.revoked',
+    targetId: revoked.id,
+    details: { name: revoked.name },
+  })
+
+  revalidatePath('/dashboard/api-tokens')
+  return {}
+}
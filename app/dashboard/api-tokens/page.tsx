@@ -0,0 +1,101 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, KeyRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CreateApiTokenDialog } from '@/components/dashboard/create-api-token-dialog'
+import { RevokeApiTokenButton } from '@/components/dashboard/revoke-api-token-button'
+import { getApiTokens } from '@/lib/api-tokens'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default async function ApiTokensPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const tokens = await getApiTokens(userId, active.id)
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API tokens</h1>
+          <p className="text-muted-foreground">
+            Use these with the REST API at <code className="font-mono">/api/v1</code>. See the{' '}
+            <Link href="/api/v1/openapi.json" className="underline underline-offset-4">
+              OpenAPI description
+            </Link>
+            .
+          </p>
+        </div>
+        <CreateApiTokenDialog />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your tokens</CardTitle>
+          <CardDescription>
+            Tokens act on {active.name} with your role there. Send a token as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tokens.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <KeyRound className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">No tokens yet</h3>
+              <p className="text-sm text-muted-foreground">Create a token to use the API from scripts and CI.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead className="w-[100px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => (
+                  <TableRow key={token.id}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    <TableCell className="font-mono text-muted-foreground">{token.tokenPrefix}…</TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {dateFormat.format(token.createdAt)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {token.lastUsedAt ? dateFormat.format(token.lastUsedAt) : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <RevokeApiTokenButton id={token.id} name={token.name} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
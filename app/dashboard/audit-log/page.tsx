@@ -0,0 +1,119 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, ChevronRight, ScrollText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { AuditAction } from '@/db/schema'
+import { describeAuditEvent, getAuditEvents } from '@/lib/audit-log'
+import { getDisplayNames } from '@/lib/clerk-users'
+import { decodeCursor, DEFAULT_PAGE_SIZE } from '@/lib/pagination'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+// The link page 404s for links in the trash or deleted for good
+const LINK_GONE_ACTIONS = new Set<AuditAction>(['link.deleted', 'link.purged'])
+
+export default async function AuditLogPage({ searchParams }: { searchParams: Promise<{ cursor?: string }> }) {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const cursor = decodeCursor((await searchParams).cursor)
+  const { items: events, nextCursor } = await getAuditEvents(active.id, { limit: DEFAULT_PAGE_SIZE, cursor })
+  // Member events name the member too
+  const names = await getDisplayNames(
+    events.flatMap((event) =>
+      event.action.startsWith('member.') && event.targetId ? [event.userId, event.targetId] : [event.userId]
+    )
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Audit log</h1>
+        <p className="text-muted-foreground">
+          Who created, changed or deleted links in {active.name}, and who changed its settings.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+          <CardDescription>Newest first. Each link&apos;s page has its full history with restore.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 && !cursor ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <ScrollText className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">Nothing recorded yet</h3>
+              <p className="text-sm text-muted-foreground">Changes to links and settings will show up here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>What</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {dateFormat.format(event.createdAt)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{names.get(event.userId)}</TableCell>
+                    <TableCell className="max-w-xl break-all">
+                      {event.action.startsWith('link.') && !LINK_GONE_ACTIONS.has(event.action) && event.targetId ? (
+                        <Link href={`/dashboard/links/${event.targetId}`} className="hover:underline">
+                          {describeAuditEvent(event, names)}
+                        </Link>
+                      ) : (
+                        describeAuditEvent(event, names)
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {(cursor || nextCursor) && (
+            <div className="mt-4 flex justify-end gap-2">
+              {cursor && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/dashboard/audit-log">First page</Link>
+                </Button>
+              )}
+              {nextCursor && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/dashboard/audit-log?cursor=${nextCursor}`}>
+                    Next page <ChevronRight />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
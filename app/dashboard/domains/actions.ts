@@ -0,0 +1,173 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { checkDomainVerification } from '@/lib/domain-verification'
+import {
+  countDomainLinks,
+  createDomain,
+  deleteDomain,
+  domainHostnameSchema,
+  getDomainByHost,
+  getDomainById,
+  recordVerificationCheck,
+  updateDomainFallback,
+  VERIFIED_HOSTNAME_CONSTRAINT,
+  WORKSPACE_HOSTNAME_CONSTRAINT,
+} from '@/lib/domains'
+import { getAppHosts, getDestinationUrlError, getOwnHosts } from '@/lib/url-safety'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+export type DomainFormState = {
+  success?: boolean
+  message?: string
+  errors?: { hostname?: string[]; fallbackUrl?: string[] }
+}
+
+const OWNERS_ONLY = { message: 'Only workspace owners can manage domains' }
+
+const fallbackUrlSchema = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() ? value.trim() : null),
+  z.url({ protocol: /^https?$/, message: 'Enter a valid http(s) URL' }).nullable()
+)
+
+// The active workspace, if the current user owns it
+async function getManagedWorkspace() {
+  const { userId, workspace } = await getWorkspaceContext()
+  return workspace.role === 'owner' ? { ...workspace, userId } : null
+}
+
+export async function addDomainAction(_prevState: DomainFormState, formData: FormData): Promise<DomainFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const parsed = domainHostnameSchema.safeParse(formData.get('hostname'))
+  if (!parsed.success) {
+    return { errors: { hostname: z.flattenError(parsed.error).formErrors } }
+  }
+
+  const hostname = parsed.data
+  if (getAppHosts((await headers()).get('host')).includes(hostname)) {
+    return { errors: { hostname: ['That is the address of this app itself'] } }
+  }
+  const claimed = await getDomainByHost(hostname)
+  if (claimed && claimed.workspaceId !== workspace.id) {
+    return { errors: { hostname: ['That domain is already in use by another workspace'] } }
+  }
+
+  try {
+    const domain = await createDomain(workspace.id, hostname)
+    await recordAuditEvent({
+      workspaceId: workspace.id,
+      userId: workspace.userId,
+      action: 'domain.added',
+      targetId: domain.id,
+      details: { hostname },
+    })
+  } catch (error) {
+    if (isUniqueViolation(error, WORKSPACE_HOSTNAME_CONSTRAINT)) {
+      return { errors: { hostname: ['That domain is already added to this workspace'] } }
+    }
+    throw error
+  }
+
+  revalidatePath('/dashboard/domains')
+  return { success: true }
+}
+
+export async function verifyDomainAction(id: string): Promise<DomainFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const domain = await getDomainById(id, workspace.id)
+  if (!domain) return { message: 'Domain not found' }
+
+  const result = await checkDomainVerification(domain.hostname, domain.verificationToken)
+
+  try {
+    await recordVerificationCheck(domain.id, workspace.id, result.verified)
+  } catch (error) {
+    if (isUniqueViolation(error, VERIFIED_HOSTNAME_CONSTRAINT)) {
+      return { message: 'Another workspace has already verified this domain' }
+    }
+    throw error
+  }
+  if (result.verified && !domain.verifiedAt) {
+    await recordAuditEvent({
+      workspaceId: workspace.id,
+      userId: workspace.userId,
+      action: 'domain.verified',
+      targetId: domain.id,
+      details: { hostname: domain.hostname },
+    })
+  }
+
+  revalidatePath('/dashboard/domains')
+  return result.verified ? { success: true } : { message: result.reason }
+}
+
+export async function updateDomainFallbackAction(
+  id: string,
+  _prevState: DomainFormState,
+  formData: FormData
+): Promise<DomainFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const domain = await getDomainById(id, workspace.id)
+  if (!domain) return { message: 'Domain not found' }
+
+  const parsed = fallbackUrlSchema.safeParse(formData.get('fallbackUrl'))
+  if (!parsed.success) {
+    return { errors: { fallbackUrl: z.flattenError(parsed.error).formErrors } }
+  }
+
+  // Sending the domain's unknown codes back to the domain would loop
+  const ownHosts = [...(await getOwnHosts((await headers()).get('host'))), domain.hostname]
+  const unsafe = parsed.data && getDestinationUrlError(parsed.data, ownHosts)
+  if (unsafe) return { errors: { fallbackUrl: [unsafe] } }
+
+  await updateDomainFallback(domain.id, workspace.id, parsed.data)
+  if (parsed.data !== domain.fallbackUrl) {
+    await recordAuditEvent({
+      workspaceId: workspace.id,
+      userId: workspace.userId,
+      action: 'domain.fallback_changed',
+      targetId: domain.id,
+      details: { hostname: domain.hostname, fallbackUrl: parsed.data },
+    })
+  }
+
+  revalidatePath('/dashboard/domains')
+  return { success: true }
+}
+
+export async function deleteDomainAction(id: string): Promise<DomainFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const domain = await getDomainById(id, workspace.id)
+  if (!domain) return { message: 'Domain not found' }
+
+  const linkCount = await countDomainLinks(domain.id)
+  if (linkCount > 0) {
+    return {
+      message: `${linkCount === 1 ? '1 link uses' : `${linkCount} links use`} this domain, counting the trash. Move or permanently delete ${linkCount === 1 ? 'it' : 'them'} first.`,
+    }
+  }
+
+  await deleteDomain(domain.id, workspace.id)
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    action: 'domain.deleted',
+    targetId: domain.id,
+    details: { hostname: domain.hostname },
+  })
+
+  revalidatePath('/dashboard/domains')
+  return { success: true }
+}
@@ -0,0 +1,123 @@
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, Globe } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AddDomainForm } from '@/components/dashboard/add-domain-form'
+import { DeleteDomainButton } from '@/components/dashboard/delete-domain-button'
+import { DomainFallbackForm } from '@/components/dashboard/domain-fallback-form'
+import { VerifyDomainButton } from '@/components/dashboard/verify-domain-button'
+import { getVerificationRecord } from '@/lib/domain-verification'
+import { getWorkspaceDomains } from '@/lib/domains'
+import { normalizeHost } from '@/lib/url-safety'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+function DnsRecord({ type, name, value }: { type: string; name: string; value: string }) {
+  return (
+    <div className="grid gap-1 rounded-md border bg-muted/30 p-3 text-sm sm:grid-cols-[60px_1fr_1fr] sm:gap-3">
+      <span className="font-medium">{type}</span>
+      <code className="break-all font-mono">{name}</code>
+      <code className="break-all font-mono">{value}</code>
+    </div>
+  )
+}
+
+export default async function DomainsPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const isOwner = active.role === 'owner'
+  const domains = await getWorkspaceDomains(active.id)
+  const appHost = normalizeHost((await headers()).get('host') ?? '')
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Custom domains</h1>
+        <p className="text-muted-foreground">
+          Serve {active.name}&apos;s links from your own domain, such as go.example.com/launch.
+          {!isOwner && ' Only workspace owners can add or change domains.'}
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card>
+            <CardContent className="pt-6">
+              <AddDomainForm />
+            </CardContent>
+          </Card>
+        )}
+
+        {domains.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <Globe className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">No domains yet</h3>
+              <p className="text-sm text-muted-foreground">
+                Links use {appHost || 'this app\'s address'} until a domain is added and verified.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          domains.map((domain) => {
+            const record = getVerificationRecord(domain.hostname, domain.verificationToken)
+
+            return (
+              <Card key={domain.id}>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 font-mono">
+                      {domain.hostname}
+                      {domain.verifiedAt ? <Badge>Verified</Badge> : <Badge variant="secondary">Pending</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {domain.verifiedAt
+                        ? `Verified ${dateFormat.format(domain.verifiedAt)}`
+                        : domain.lastCheckedAt
+                          ? `Not verified yet. Last checked ${dateFormat.format(domain.lastCheckedAt)}.`
+                          : 'Add the DNS records below, then verify.'}
+                    </CardDescription>
+                  </div>
+                  {isOwner && <DeleteDomainButton id={domain.id} hostname={domain.hostname} />}
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Point the domain at this app, and prove you own it with a TXT record. DNS changes can take a
+                      while to show up.
+                    </p>
+                    <DnsRecord type="CNAME" name={domain.hostname} value={appHost} />
+                    <DnsRecord type="TXT" name={record.name} value={record.value} />
+                    {isOwner && <VerifyDomainButton id={domain.id} verified={!!domain.verifiedAt} />}
+                  </div>
+                  {isOwner ? (
+                    <DomainFallbackForm id={domain.id} hostname={domain.hostname} fallbackUrl={domain.fallbackUrl} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Fallback URL: {domain.fallbackUrl ?? 'none, unknown codes show a "Link not found" page'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { auth } from '@clerk/nextjs/server'
+import type { NextRequest } from 'next/server'
+import { getDomainHostnames } from '@/lib/domains'
+import { exportLinks } from '@/lib/link-export'
+import { getLinksByWorkspace } from '@/lib/links'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+// Route handlers aren't covered by dashboard/layout.tsx, so check auth here
+export async function GET(request: NextRequest) {
+  const { userId } = await auth()
+  if (!userId) return new Response('Unauthorized', { status: 401 })
+
+  const { searchParams, origin } = request.nextUrl
+  const format = searchParams.get('format') === 'json' ? 'json' : 'csv'
+  const { active } = await getActiveWorkspace(userId)
+  const [workspaceLinks, hostnames] = await Promise.all([getLinksByWorkspace(active.id), getDomainHostnames(active.id)])
+  const body = exportLinks(workspaceLinks, {
+    format,
+    includeClicks: searchParams.get('clicks') === '1',
+    origin,
+    hostnames,
+  })
+  const date = new Date().toISOString().slice(0, 10)
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="links-${date}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
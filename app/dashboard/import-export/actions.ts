@@ -0,0 +1,61 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+import {
+  getImportFormat,
+  importLinks,
+  parseImportFile,
+  validateImportRows,
+  type ImportResult,
+  type ImportRow,
+  type ValidatedImportRow,
+} from '@/lib/link-import'
+import { getOwnHosts } from '@/lib/url-safety'
+import { hasRole } from '@/lib/workspace-roles'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+const READ_ONLY_MESSAGE = 'You have view-only access to this workspace'
+
+export type ImportPreviewState = {
+  rows?: ValidatedImportRow[]
+  error?: string
+}
+
+// Server actions accept up to 1MB by default, well above MAX_IMPORT_ROWS of links
+async function readImportFile(formData: FormData): Promise<ImportRow[] | string> {
+  const file = formData.get('file')
+  if (!(file instanceof File) || file.size === 0) return 'Choose a CSV or JSON file'
+
+  const format = getImportFormat(file.name)
+  if (!format) return 'Only .csv and .json files are supported'
+
+  return parseImportFile(await file.text(), format)
+}
+
+export async function previewImportAction(
+  _prevState: ImportPreviewState,
+  formData: FormData
+): Promise<ImportPreviewState> {
+  const { workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return { error: READ_ONLY_MESSAGE }
+
+  const rows = await readImportFile(formData)
+  if (typeof rows === 'string') return { error: rows }
+
+  const ownHosts = await getOwnHosts((await headers()).get('host'))
+  return { rows: await validateImportRows(rows, ownHosts) }
+}
+
+export async function importLinksAction(formData: FormData): Promise<ImportResult> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (!hasRole(workspace.role, 'editor')) return { ok: false, error: READ_ONLY_MESSAGE }
+
+  const rows = await readImportFile(formData)
+  if (typeof rows === 'string') return { ok: false, error: rows }
+
+  const ownHosts = await getOwnHosts((await headers()).get('host'))
+  const result = await importLinks(workspace.id, userId, rows, ownHosts)
+  if (result.ok) revalidatePath('/dashboard')
+  return result
+}
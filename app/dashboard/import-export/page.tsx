@@ -0,0 +1,75 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { ImportLinksForm } from '@/components/dashboard/import-links-form'
+import { MAX_IMPORT_ROWS } from '@/lib/link-import'
+import { hasRole } from '@/lib/workspace-roles'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+export default async function ImportExportPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Import &amp; export</h1>
+        <p className="text-muted-foreground">Move links in and out in bulk.</p>
+      </div>
+
+      <div className="space-y-6">
+        {hasRole(active.role, 'editor') && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import links</CardTitle>
+              <CardDescription>
+                Upload a CSV with a <code className="font-mono">url</code> column and an optional{' '}
+                <code className="font-mono">alias</code> column, or a JSON array of{' '}
+                <code className="font-mono">{'{ "url", "alias" }'}</code> objects. Up to {MAX_IMPORT_ROWS} links at a time.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ImportLinksForm />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Export links</CardTitle>
+            <CardDescription>Download every link in {active.name}. JSON exports can be imported again.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action="/dashboard/export" method="get" className="flex flex-col gap-4 sm:flex-row sm:items-center">
+              <div className="flex items-center gap-2">
+                <Checkbox id="clicks" name="clicks" value="1" />
+                <Label htmlFor="clicks" className="font-normal">Include click counts</Label>
+              </div>
+              <div className="flex gap-2 sm:ml-auto">
+                <Button type="submit" name="format" value="csv" variant="outline">
+                  <Download /> Export CSV
+                </Button>
+                <Button type="submit" name="format" value="json" variant="outline">
+                  <Download /> Export JSON
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
 import { auth } from '@clerk/nextjs/server'
 import { redirect } from 'next/navigation'
+import { WorkspaceSwitcher } from '@/components/dashboard/workspace-switcher'
+import { getActiveWorkspace } from '@/lib/workspaces'
 
 export default async function DashboardLayout({
   children,
@@ -7,10 +9,22 @@ export default async function DashboardLayout({
   children: React.ReactNode
 }) {
   const { userId } = await auth()
-  
+
   if (!userId) {
     redirect('/')
   }
 
-  return <>{children}</>
+  // Pages re-check membership through getActiveWorkspace, which is cached per request
+  const { active, memberships } = await getActiveWorkspace(userId)
+
+  return (
+    <>
+      <div className="border-b border-border">
+        <div className="container mx-auto px-4 py-2">
+          <WorkspaceSwitcher workspaces={memberships} activeId={active.id} />
+        </div>
+      </div>
+      {children}
+    </>
+  )
 }
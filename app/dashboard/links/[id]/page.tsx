@@ -0,0 +1,108 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ClickStatsView } from '@/components/analytics/click-stats-view'
+import { LinkHistory } from '@/components/dashboard/link-history'
+import { LinkPreviewCard } from '@/components/dashboard/link-preview-card'
+import { RoutingRulesEditor } from '@/components/dashboard/routing-rules-editor'
+import { ProfileLinkToggle } from '@/components/dashboard/profile-link-toggle'
+import { SocialCardSettings } from '@/components/dashboard/social-card-settings'
+import { getClickStats, parseStatsOptions } from '@/lib/analytics'
+import { getDisplayNames } from '@/lib/clerk-users'
+import { getWorkspaceDomains } from '@/lib/domains'
+import { getLinkRevisions } from '@/lib/link-revisions'
+import { getLinkById } from '@/lib/links'
+import { getProfile, isProfileLink } from '@/lib/profiles'
+import { hasRole } from '@/lib/workspace-roles'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+export default async function LinkDetailsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ days?: string; bots?: string }>
+}) {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+
+  const { id } = await params
+  const link = await getLinkById(id, active.id)
+
+  if (!link) {
+    notFound()
+  }
+
+  const canEdit = hasRole(active.role, 'editor')
+  const options = parseStatsOptions(await searchParams)
+  const [stats, domains, revisions, profile, onProfile] = await Promise.all([
+    getClickStats(active.id, { ...options, linkId: link.id }),
+    getWorkspaceDomains(active.id),
+    getLinkRevisions(link.id),
+    getProfile(active.id),
+    isProfileLink(active.id, link.id),
+  ])
+  const hostnames = new Map(domains.map((domain) => [domain.id, domain.hostname]))
+  const domain = link.domainId && hostnames.get(link.domainId)
+  const names = await getDisplayNames(revisions.map((revision) => revision.userId))
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8 min-w-0">
+        <h1 className="font-mono text-3xl font-bold tracking-tight">
+          {domain && <span className="text-muted-foreground">{domain}</span>}/{link.shortCode}
+        </h1>
+        <p className="truncate text-muted-foreground" title={link.url}>{link.url}</p>
+      </div>
+      <LinkPreviewCard link={link} canEdit={canEdit} />
+      <SocialCardSettings link={link} canEdit={canEdit} />
+      {profile && active.role === 'owner' && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Profile page</CardTitle>
+            <CardDescription>
+              {onProfile ? 'Listed' : 'Not listed'} on{' '}
+              <Link href={`/u/${profile.handle}`} className="font-mono hover:underline">
+                /u/{profile.handle}
+              </Link>
+              . Reorder its links on the{' '}
+              <Link href="/dashboard/profile" className="hover:underline">
+                profile page settings
+              </Link>
+              .
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProfileLinkToggle linkId={link.id} listed={onProfile} />
+          </CardContent>
+        </Card>
+      )}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Routing rules</CardTitle>
+          <CardDescription>
+            Send visitors to different destinations by device, location, language or time, or split traffic
+            between pages. Rules are checked from the top and the first match wins.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RoutingRulesEditor linkId={link.id} fallbackUrl={link.url} rules={link.routingRules} canEdit={canEdit} />
+        </CardContent>
+      </Card>
+      <LinkHistory linkId={link.id} revisions={revisions} names={names} hostnames={hostnames} canEdit={canEdit} />
+      <ClickStatsView stats={stats} options={options} basePath={`/dashboard/links/${link.id}`} />
+    </div>
+  )
+}
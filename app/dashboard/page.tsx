@@ -1,7 +1,367 @@
-export default function DashboardPage() {
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import {
+  Archive,
+  ArrowUpDown,
+  BarChart3,
+  ChevronRight,
+  Globe,
+  KeyRound,
+  Link2,
+  Lock,
+  Pencil,
+  Plus,
+  ScrollText,
+  SearchX,
+  ShieldAlert,
+  Trash2,
+  UserCog,
+  UserRound,
+  Webhook,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArchiveLinkButton } from '@/components/dashboard/archive-link-button'
+import { CopyLinkButton } from '@/components/dashboard/copy-link-button'
+import { DeleteLinkButton } from '@/components/dashboard/delete-link-button'
+import { LinkFilters } from '@/components/dashboard/link-filters'
+import { LinkFormDialog } from '@/components/dashboard/link-form-dialog'
+import { LinkStatusBadge } from '@/components/dashboard/link-status-badge'
+import { QrCodeDialog } from '@/components/dashboard/qr-code-dialog'
+import { RecoverLinkButton } from '@/components/dashboard/recover-link-button'
+import { isAdmin } from '@/lib/admin'
+import { getVerifiedDomains } from '@/lib/domains'
+import { countLinks, isFilteredSearch, linkSearchHref, parseLinkSearch, searchLinks } from '@/lib/link-search'
+import { getTrashExpiry, TRASH_RETENTION_DAYS } from '@/lib/link-status'
+import { purgeExpiredTrash } from '@/lib/links'
+import { getRateLimit } from '@/lib/rate-limit'
+import { getWorkspaceTags } from '@/lib/tags'
+import { getShortUrl } from '@/lib/short-url'
+import { getUtmPresets } from '@/lib/utm-presets'
+import { hasRole } from '@/lib/workspace-roles'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+const EMPTY_VIEWS = {
+  archived: {
+    icon: Archive,
+    title: 'No archived links',
+    description: 'Archive links you no longer use to stop them redirecting without losing their analytics.',
+  },
+  trash: {
+    icon: Trash2,
+    title: 'The trash is empty',
+    description: `Deleted links stay here for ${TRASH_RETENTION_DAYS} days, with their short codes reserved until then.`,
+  },
+}
+
+type DashboardPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const canEdit = hasRole(active.role, 'editor')
+  const search = parseLinkSearch(await searchParams)
+  const inTrash = search.view === 'trash'
+  // Besides the scheduled purge, so the trash never lists links past their date
+  if (inTrash) await purgeExpiredTrash()
+
+  const [{ items: userLinks, nextCursor }, total, workspaceTags, utmPresets, domains, linkQuota] = await Promise.all([
+    searchLinks(active.id, search),
+    countLinks(active.id, search),
+    getWorkspaceTags(active.id),
+    getUtmPresets(userId),
+    getVerifiedDomains(active.id),
+    getRateLimit('linkCreation', userId),
+  ])
+  const hostnames = new Map(domains.map((domain) => [domain.id, domain.hostname]))
+  const emptyView = search.view === 'active' ? null : EMPTY_VIEWS[search.view]
+
   return (
-    <div>
-      <h1>Dashboard</h1>
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-muted-foreground">
+            {canEdit
+              ? `Create, edit and manage links in ${active.name}.`
+              : `You have view-only access to ${active.name}.`}
+          </p>
+          {canEdit && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              {linkQuota.remaining} of {linkQuota.limit} new links left in your daily quota
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isAdmin(userId) && (
+            <Button variant="outline" asChild>
+              <Link href="/admin">
+                <ShieldAlert /> Moderation
+              </Link>
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/analytics">
+              <BarChart3 /> Analytics
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/import-export">
+              <ArrowUpDown /> Import &amp; export
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/api-tokens">
+              <KeyRound /> API tokens
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/domains">
+              <Globe /> Domains
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/profile">
+              <UserRound /> Profile page
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/webhooks">
+              <Webhook /> Webhooks
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/audit-log">
+              <ScrollText /> Audit log
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/account">
+              <UserCog /> Your data
+            </Link>
+          </Button>
+          {canEdit && (
+            <LinkFormDialog
+              domains={domains}
+              utmPresets={utmPresets}
+              trigger={
+                <Button>
+                  <Plus /> New link
+                </Button>
+              }
+            />
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{active.personal ? 'Your links' : 'Workspace links'}</CardTitle>
+          <CardDescription>
+            {isFilteredSearch(search)
+              ? `${total} matching ${total === 1 ? 'link' : 'links'}`
+              : total === 1
+                ? '1 link'
+                : `${total} links`}
+            {inTrash && `. Links in the trash are deleted for good ${TRASH_RETENTION_DAYS} days after they were moved here.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LinkFilters search={search} tags={workspaceTags} />
+          {userLinks.length === 0 && isFilteredSearch(search) ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <SearchX className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">No matching links</h3>
+              <p className="text-sm text-muted-foreground">Try a different search or clear the filters.</p>
+            </div>
+          ) : userLinks.length === 0 && !search.cursor && emptyView ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <emptyView.icon className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">{emptyView.title}</h3>
+              <p className="text-sm text-muted-foreground">{emptyView.description}</p>
+            </div>
+          ) : userLinks.length === 0 && !search.cursor ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                <Link2 className="h-6 w-6 text-primary" />
+              </div>
+              <h3 className="mb-2 text-lg font-semibold">No links yet</h3>
+              <p className="text-sm text-muted-foreground">
+                {canEdit
+                  ? 'Create your first short link to get started.'
+                  : 'Editors of this workspace have not created any links yet.'}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Short link</TableHead>
+                  <TableHead>Original URL</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Clicks</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-[180px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {userLinks.map((link) => {
+                  const domain = link.domainId && hostnames.get(link.domainId)
+
+                  return (
+                    <TableRow key={link.id}>
+                      <TableCell className="font-mono font-medium">
+                        {inTrash ? (
+                          <span className="text-muted-foreground">
+                            {domain}/{link.shortCode}
+                          </span>
+                        ) : (
+                          <Link
+                            href={domain ? getShortUrl(link.shortCode, '', domain) : `/${link.shortCode}`}
+                            target="_blank"
+                            className="hover:underline"
+                          >
+                            {domain && <span className="text-muted-foreground">{domain}</span>}/{link.shortCode}
+                          </Link>
+                        )}
+                        {link.passwordHash && (
+                          <Lock className="ml-1.5 inline h-3.5 w-3.5 text-muted-foreground" aria-label="Password protected" />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        {(link.title ?? link.previewTitle) && (
+                          <div className="truncate font-medium">{link.title ?? link.previewTitle}</div>
+                        )}
+                        <div className="flex items-center gap-1.5 text-muted-foreground" title={link.url}>
+                          {link.previewFavicon && (
+                            <img src={link.previewFavicon} alt="" referrerPolicy="no-referrer" className="h-4 w-4 shrink-0" />
+                          )}
+                          <span className="truncate">{link.url}</span>
+                        </div>
+                        {link.tags.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {link.tags.map((tag) => (
+                              <Link key={tag} href={linkSearchHref(search, { tag: [tag] })}>
+                                <Badge variant="secondary">{tag}</Badge>
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {link.deletedAt ? (
+                          <span className="whitespace-nowrap text-xs text-muted-foreground">
+                            Deleted for good on {dateFormat.format(getTrashExpiry(link.deletedAt))}
+                          </span>
+                        ) : (
+                          <LinkStatusBadge link={link} />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {inTrash ? (
+                          link.clickCount
+                        ) : (
+                          <Link href={`/dashboard/links/${link.id}`} className="hover:underline">
+                            {link.clickCount}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(link.createdAt)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(link.updatedAt)}
+                      </TableCell>
+                      <TableCell>
+                        {inTrash ? (
+                          canEdit && (
+                            <div className="flex items-start justify-end">
+                              <RecoverLinkButton id={link.id} shortCode={link.shortCode} />
+                              <DeleteLinkButton id={link.id} shortCode={link.shortCode} permanent />
+                            </div>
+                          )
+                        ) : (
+                          <div className="flex justify-end">
+                            <CopyLinkButton shortCode={link.shortCode} domain={domain} />
+                            <QrCodeDialog shortCode={link.shortCode} domain={domain} />
+                            {canEdit && (
+                              <>
+                                <LinkFormDialog
+                                  link={{
+                                    id: link.id,
+                                    url: link.url,
+                                    domainId: link.domainId,
+                                    shortCode: link.shortCode,
+                                    expiresAt: link.expiresAt,
+                                    maxClicks: link.maxClicks,
+                                    clickCount: link.clickCount,
+                                    hasPassword: !!link.passwordHash,
+                                    title: link.title,
+                                    notes: link.notes,
+                                    tags: link.tags,
+                                    queryForwarding: link.queryForwarding,
+                                  }}
+                                  domains={domains}
+                                  utmPresets={utmPresets}
+                                  trigger={
+                                    <Button variant="ghost" size="icon" aria-label={`Edit /${link.shortCode}`}>
+                                      <Pencil className="h-4 w-4" />
+                                    </Button>
+                                  }
+                                />
+                                <ArchiveLinkButton id={link.id} shortCode={link.shortCode} archived={!!link.archivedAt} />
+                                <DeleteLinkButton id={link.id} shortCode={link.shortCode} />
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {(search.cursor || nextCursor) && (
+            <div className="mt-4 flex justify-end gap-2">
+              {search.cursor && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={linkSearchHref(search)}>First page</Link>
+                </Button>
+              )}
+              {nextCursor && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={linkSearchHref(search, { cursor: nextCursor })}>
+                    Next page <ChevronRight />
+                  </Link>
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -0,0 +1,160 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { getLinkById } from '@/lib/links'
+import {
+  addProfileLink,
+  countProfileLinks,
+  deleteProfile,
+  getProfile,
+  MAX_PROFILE_LINKS,
+  moveProfileLink,
+  PROFILE_HANDLE_CONSTRAINT,
+  profileFormSchema,
+  removeProfileLink,
+  saveProfile,
+  type ProfileFieldErrors,
+} from '@/lib/profiles'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+export type ProfileFormState = {
+  success?: boolean
+  message?: string
+  errors?: ProfileFieldErrors
+}
+
+const OWNERS_ONLY = { message: 'Only workspace owners can manage the profile page' }
+const NO_PROFILE = { message: 'Set up the profile page first' }
+
+// The active workspace, if the current user owns it
+async function getManagedWorkspace() {
+  const { userId, workspace } = await getWorkspaceContext()
+  return workspace.role === 'owner' ? { ...workspace, userId } : null
+}
+
+function revalidateProfile(handles: Array<string | undefined>) {
+  revalidatePath('/dashboard/profile')
+  for (const handle of handles) {
+    if (handle) revalidatePath(`/u/${handle}`)
+  }
+}
+
+export async function saveProfileAction(_prevState: ProfileFormState, formData: FormData): Promise<ProfileFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const parsed = profileFormSchema.safeParse({
+    handle: formData.get('handle'),
+    title: formData.get('title'),
+    bio: formData.get('bio') ?? '',
+  })
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const existing = await getProfile(workspace.id)
+  try {
+    await saveProfile(workspace.id, parsed.data)
+  } catch (error) {
+    if (isUniqueViolation(error, PROFILE_HANDLE_CONSTRAINT)) {
+      return { errors: { handle: ['That handle is already taken'] } }
+    }
+    throw error
+  }
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    action: 'profile.saved',
+    details: { handle: parsed.data.handle, previousHandle: existing?.handle ?? null },
+  })
+
+  revalidateProfile([existing?.handle, parsed.data.handle])
+  return { success: true }
+}
+
+export async function deleteProfileAction(): Promise<ProfileFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const profile = await getProfile(workspace.id)
+  if (!profile) return NO_PROFILE
+
+  await deleteProfile(workspace.id)
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    action: 'profile.deleted',
+    details: { handle: profile.handle },
+  })
+
+  revalidateProfile([profile.handle])
+  return { success: true }
+}
+
+export async function addProfileLinkAction(linkId: string): Promise<ProfileFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const [profile, link] = await Promise.all([getProfile(workspace.id), getLinkById(linkId, workspace.id)])
+  if (!profile) return NO_PROFILE
+  if (!link) return { message: 'Link not found' }
+
+  if ((await countProfileLinks(workspace.id)) >= MAX_PROFILE_LINKS) {
+    return { message: `A profile page can list up to ${MAX_PROFILE_LINKS} links. Remove one first.` }
+  }
+
+  if (await addProfileLink(workspace.id, link.id)) {
+    await recordAuditEvent({
+      workspaceId: workspace.id,
+      userId: workspace.userId,
+      action: 'profile.link_added',
+      targetId: link.id,
+      details: { shortCode: link.shortCode },
+    })
+  }
+
+  revalidateProfile([profile.handle])
+  revalidatePath(`/dashboard/links/${link.id}`)
+  return { success: true }
+}
+
+export async function removeProfileLinkAction(linkId: string): Promise<ProfileFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const [profile, link] = await Promise.all([getProfile(workspace.id), getLinkById(linkId, workspace.id)])
+  if (!profile) return NO_PROFILE
+  if (!link) return { message: 'Link not found' }
+
+  if (await removeProfileLink(workspace.id, link.id)) {
+    await recordAuditEvent({
+      workspaceId: workspace.id,
+      userId: workspace.userId,
+      action: 'profile.link_removed',
+      targetId: link.id,
+      details: { shortCode: link.shortCode },
+    })
+  }
+
+  revalidateProfile([profile.handle])
+  revalidatePath(`/dashboard/links/${link.id}`)
+  return { success: true }
+}
+
+export async function moveProfileLinkAction(linkId: string, direction: 'up' | 'down'): Promise<ProfileFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const profile = await getProfile(workspace.id)
+  if (!profile) return NO_PROFILE
+
+  if (!(await moveProfileLink(workspace.id, linkId, direction))) {
+    return { message: 'That link cannot move any further' }
+  }
+
+  revalidateProfile([profile.handle])
+  return { success: true }
+}
@@ -0,0 +1,157 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, ExternalLink, Link2, UserRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DeleteProfileButton } from '@/components/dashboard/delete-profile-button'
+import { LinkStatusBadge } from '@/components/dashboard/link-status-badge'
+import { ProfileForm } from '@/components/dashboard/profile-form'
+import { ProfileLinkActions } from '@/components/dashboard/profile-link-actions'
+import { PROFILE_REFERRER } from '@/lib/analytics'
+import { getDomainHostnames } from '@/lib/domains'
+import { getProfile, getProfileLinkLabel, getProfileLinks, MAX_PROFILE_LINKS } from '@/lib/profiles'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+export default async function ProfilePage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const isOwner = active.role === 'owner'
+  const [profile, profileLinks, hostnames] = await Promise.all([
+    getProfile(active.id),
+    getProfileLinks(active.id),
+    getDomainHostnames(active.id),
+  ])
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Profile page</h1>
+          <p className="text-muted-foreground">
+            A public link-in-bio page listing {active.name}&apos;s links in the order you choose.
+            {!isOwner && ' Only workspace owners can change it.'}
+          </p>
+        </div>
+        {profile && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild>
+              <Link href={`/u/${profile.handle}`} target="_blank">
+                <ExternalLink /> View page
+              </Link>
+            </Button>
+            {isOwner && <DeleteProfileButton handle={profile.handle} />}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Settings</CardTitle>
+              <CardDescription>
+                The handle is the page&apos;s address. Changing it breaks links to the old one.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProfileForm profile={profile} defaultTitle={active.name} />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Links</CardTitle>
+            <CardDescription>
+              Add links from their details page, up to {MAX_PROFILE_LINKS}. Archived, expired and disabled links
+              stay in the list but are hidden from visitors. Clicks from the page show up in analytics with the
+              referrer <span className="font-mono">{PROFILE_REFERRER}</span>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!profile || profileLinks.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                  <UserRound className="h-6 w-6 text-primary" />
+                </div>
+                <h3 className="mb-2 text-lg font-semibold">{profile ? 'No links on the page yet' : 'No page yet'}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {profile
+                    ? 'Open a link from the dashboard and choose "Add to profile page".'
+                    : isOwner
+                      ? 'Pick a handle above to create the page.'
+                      : 'An owner of this workspace can create one.'}
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Short link</TableHead>
+                    <TableHead>Status</TableHead>
+                    {isOwner && <TableHead className="w-[140px] text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profileLinks.map((link, index) => {
+                    const domain = link.domainId && hostnames.get(link.domainId)
+                    return (
+                      <TableRow key={link.id}>
+                        <TableCell className="max-w-xs">
+                          <div className="flex items-center gap-2">
+                            {link.previewFavicon ? (
+                              <img src={link.previewFavicon} alt="" referrerPolicy="no-referrer" className="h-4 w-4 shrink-0" />
+                            ) : (
+                              <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            )}
+                            <span className="truncate">{getProfileLinkLabel(link)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono">
+                          <Link href={`/dashboard/links/${link.id}`} className="hover:underline">
+                            {domain && <span className="text-muted-foreground">{domain}</span>}/{link.shortCode}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <LinkStatusBadge link={link} />
+                        </TableCell>
+                        {isOwner && (
+                          <TableCell>
+                            <ProfileLinkActions
+                              linkId={link.id}
+                              shortCode={link.shortCode}
+                              first={index === 0}
+                              last={index === profileLinks.length - 1}
+                            />
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
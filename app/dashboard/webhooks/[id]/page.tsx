@@ -0,0 +1,203 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, ChevronRight, Send } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DeleteWebhookButton } from '@/components/dashboard/delete-webhook-button'
+import { RedeliverWebhookButton } from '@/components/dashboard/redeliver-webhook-button'
+import { WebhookSecret } from '@/components/dashboard/webhook-secret'
+import type { WebhookDelivery } from '@/db/schema'
+import { decodeCursor, DEFAULT_PAGE_SIZE } from '@/lib/pagination'
+import { WEBHOOK_HEADERS } from '@/lib/webhook-signature'
+import { getWebhookDeliveries, getWebhookEndpoint } from '@/lib/webhooks'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+function DeliveryStatusBadge({ delivery }: { delivery: WebhookDelivery }) {
+  switch (delivery.status) {
+    case 'succeeded':
+      return <Badge variant="secondary">Delivered</Badge>
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>
+    case 'pending':
+      return <Badge variant="outline">{delivery.attempts === 0 ? 'Sending' : 'Retrying'}</Badge>
+  }
+}
+
+function DeliveryResponse({ delivery }: { delivery: WebhookDelivery }) {
+  if (delivery.attempts === 0) return <span className="text-muted-foreground">Not sent yet</span>
+  if (delivery.error) return <span className="text-destructive">{delivery.error}</span>
+
+  return (
+    <span className={delivery.status === 'succeeded' ? undefined : 'text-destructive'}>
+      HTTP {delivery.responseStatus}
+    </span>
+  )
+}
+
+export default async function WebhookDetailsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ cursor?: string }>
+}) {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+
+  const { id } = await params
+  const endpoint = await getWebhookEndpoint(id, active.id)
+
+  if (!endpoint) {
+    notFound()
+  }
+
+  const isOwner = active.role === 'owner'
+  const cursor = decodeCursor((await searchParams).cursor)
+  const { items: deliveries, nextCursor } = await getWebhookDeliveries(endpoint.id, {
+    limit: DEFAULT_PAGE_SIZE,
+    cursor,
+  })
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard/webhooks">
+          <ArrowLeft /> Back to webhooks
+        </Link>
+      </Button>
+      <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="min-w-0">
+          <h1 className="break-all font-mono text-2xl font-bold tracking-tight">{endpoint.url}</h1>
+          <div className="mt-2 flex flex-wrap gap-1">
+            {endpoint.events.map((type) => (
+              <Badge key={type} variant="secondary" className="font-mono">
+                {type}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        {isOwner && <DeleteWebhookButton id={endpoint.id} url={endpoint.url} />}
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Signing secret</CardTitle>
+              <CardDescription>
+                Compute an HMAC-SHA256 with this secret over{' '}
+                <code className="font-mono">&lt;{WEBHOOK_HEADERS.timestamp}&gt;.&lt;raw body&gt;</code> and compare it
+                with the hex digest after <code className="font-mono">v1=</code> in{' '}
+                <code className="font-mono">{WEBHOOK_HEADERS.signature}</code>. Reject timestamps more than five
+                minutes old, and use <code className="font-mono">{WEBHOOK_HEADERS.id}</code> to skip events you have
+                already handled.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WebhookSecret secret={endpoint.secret} />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription>
+              Newest first. Anything other than a 2xx response is retried, up to ten attempts in all.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {deliveries.length === 0 && !cursor ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                  <Send className="h-6 w-6 text-primary" />
+                </div>
+                <h3 className="mb-2 text-lg font-semibold">Nothing sent yet</h3>
+                <p className="text-sm text-muted-foreground">Deliveries show up here once a subscribed event happens.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Created</TableHead>
+                    {isOwner && <TableHead className="w-[140px] text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id} className="align-top">
+                      <TableCell className="max-w-md">
+                        <details>
+                          <summary className="cursor-pointer font-mono">{delivery.eventType}</summary>
+                          <pre className="mt-2 max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </details>
+                      </TableCell>
+                      <TableCell>
+                        <DeliveryStatusBadge delivery={delivery} />
+                        {delivery.status === 'pending' && delivery.attempts > 0 && delivery.nextAttemptAt && (
+                          <div className="mt-1 whitespace-nowrap text-xs text-muted-foreground">
+                            Next try {dateFormat.format(delivery.nextAttemptAt)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs break-words text-sm">
+                        <DeliveryResponse delivery={delivery} />
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{delivery.attempts}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(delivery.createdAt)}
+                      </TableCell>
+                      {isOwner && (
+                        <TableCell>
+                          <RedeliverWebhookButton endpointId={endpoint.id} deliveryId={delivery.id} />
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {(cursor || nextCursor) && (
+              <div className="mt-4 flex justify-end gap-2">
+                {cursor && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/dashboard/webhooks/${endpoint.id}`}>First page</Link>
+                  </Button>
+                )}
+                {nextCursor && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/dashboard/webhooks/${endpoint.id}?cursor=${nextCursor}`}>
+                      Next page <ChevronRight />
+                    </Link>
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
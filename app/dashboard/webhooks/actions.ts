@@ -0,0 +1,100 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhook-events'
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDelivery,
+  getWebhookEndpoint,
+  getWebhookEndpoints,
+  MAX_ENDPOINTS_PER_WORKSPACE,
+  redeliverWebhook,
+  webhookUrlSchema,
+} from '@/lib/webhooks'
+import { getWorkspaceContext } from '@/lib/workspaces'
+
+export type WebhookFormState = {
+  success?: boolean
+  message?: string
+  errors?: { url?: string[]; events?: string[] }
+}
+
+const OWNERS_ONLY = { message: 'Only workspace owners can manage webhooks' }
+
+const webhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Pick at least one event'),
+})
+
+// The active workspace, if the current user owns it
+async function getManagedWorkspace() {
+  const { userId, workspace } = await getWorkspaceContext()
+  return workspace.role === 'owner' ? { ...workspace, userId } : null
+}
+
+export async function createWebhookAction(_prevState: WebhookFormState, formData: FormData): Promise<WebhookFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const parsed = webhookSchema.safeParse({ url: formData.get('url'), events: formData.getAll('events') })
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const existing = await getWebhookEndpoints(workspace.id)
+  if (existing.length >= MAX_ENDPOINTS_PER_WORKSPACE) {
+    return { message: `A workspace can have at most ${MAX_ENDPOINTS_PER_WORKSPACE} webhooks` }
+  }
+
+  const endpoint = await createWebhookEndpoint(workspace.id, parsed.data)
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    action: 'webhook.created',
+    targetId: endpoint.id,
+    details: { url: endpoint.url, events: endpoint.events },
+  })
+
+  revalidatePath('/dashboard/webhooks')
+  return { success: true }
+}
+
+export async function deleteWebhookAction(id: string): Promise<WebhookFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const deleted = await deleteWebhookEndpoint(id, workspace.id)
+  if (!deleted) return { message: 'Webhook not found' }
+  await recordAuditEvent({
+    workspaceId: workspace.id,
+    userId: workspace.userId,
+    action: 'webhook.deleted',
+    targetId: deleted.id,
+    details: { url: deleted.url },
+  })
+
+  revalidatePath('/dashboard/webhooks')
+  return { success: true }
+}
+
+// Sends the delivery again now and reports how the endpoint answered
+export async function redeliverWebhookAction(endpointId: string, deliveryId: string): Promise<WebhookFormState> {
+  const workspace = await getManagedWorkspace()
+  if (!workspace) return OWNERS_ONLY
+
+  const endpoint = await getWebhookEndpoint(endpointId, workspace.id)
+  const delivery = endpoint && (await getWebhookDelivery(deliveryId, endpoint.id))
+  if (!endpoint || !delivery) return { message: 'Delivery not found' }
+
+  const result = await redeliverWebhook(delivery, endpoint)
+  if (!result) return { message: 'This delivery is being sent right now. Try again in a few minutes.' }
+
+  revalidatePath(`/dashboard/webhooks/${endpoint.id}`)
+  if (result.status === 'succeeded') return { success: true }
+  return {
+    message: result.error ?? `The endpoint answered with HTTP ${result.responseStatus}`,
+  }
+}
@@ -0,0 +1,122 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft, Webhook } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AddWebhookForm } from '@/components/dashboard/add-webhook-form'
+import { DeleteWebhookButton } from '@/components/dashboard/delete-webhook-button'
+import { WEBHOOK_HEADERS } from '@/lib/webhook-signature'
+import { getWebhookEndpoints } from '@/lib/webhooks'
+import { getActiveWorkspace } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+export default async function WebhooksPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const isOwner = active.role === 'owner'
+  const endpoints = await getWebhookEndpoints(active.id)
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+        <p className="text-muted-foreground">
+          Send {active.name}&apos;s link events to your own tools as signed JSON POSTs.
+          {!isOwner && ' Only workspace owners can add or change webhooks.'}
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card>
+            <CardContent className="pt-6">
+              <AddWebhookForm />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Endpoints</CardTitle>
+            <CardDescription>
+              Each delivery is signed with the endpoint&apos;s secret in the{' '}
+              <code className="font-mono">{WEBHOOK_HEADERS.signature}</code> header. Failed deliveries are retried
+              with exponential backoff for about eight hours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {endpoints.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+                  <Webhook className="h-6 w-6 text-primary" />
+                </div>
+                <h3 className="mb-2 text-lg font-semibold">No webhooks yet</h3>
+                <p className="text-sm text-muted-foreground">
+                  Add an endpoint to hear about new, changed, deleted and clicked links.
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Events</TableHead>
+                    <TableHead>Created</TableHead>
+                    {isOwner && <TableHead className="w-[100px] text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {endpoints.map((endpoint) => (
+                    <TableRow key={endpoint.id}>
+                      <TableCell className="max-w-md break-all font-mono">
+                        <Link href={`/dashboard/webhooks/${endpoint.id}`} className="hover:underline">
+                          {endpoint.url}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {endpoint.events.map((type) => (
+                            <Badge key={type} variant="secondary" className="font-mono">
+                              {type}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {dateFormat.format(endpoint.createdAt)}
+                      </TableCell>
+                      {isOwner && (
+                        <TableCell className="text-right">
+                          <DeleteWebhookButton id={endpoint.id} url={endpoint.url} />
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
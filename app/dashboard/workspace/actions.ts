@@ -0,0 +1,202 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { z } from 'zod'
+import type { WorkspaceRole } from '@/db/schema'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { findUserIdByEmail } from '@/lib/clerk-users'
+import { WORKSPACE_ROLES } from '@/lib/workspace-roles'
+import {
+  ACTIVE_WORKSPACE_COOKIE,
+  addWorkspaceMember,
+  createWorkspace,
+  deleteWorkspace,
+  getWorkspaceContext,
+  getWorkspaceRole,
+  removeWorkspaceMember,
+  renameWorkspace,
+  updateWorkspaceMemberRole,
+} from '@/lib/workspaces'
+
+export type WorkspaceFormState = {
+  success?: boolean
+  message?: string
+  errors?: { name?: string[]; email?: string[]; role?: string[] }
+}
+
+const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Give the workspace a name')
+  .max(100, 'Use at most 100 characters')
+
+const memberSchema = z.object({
+  email: z.email('Enter a valid email address'),
+  role: z.enum(WORKSPACE_ROLES, 'Pick a role'),
+})
+
+async function setActiveWorkspace(workspaceId: string) {
+  const cookieStore = await cookies()
+  cookieStore.set(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+    path: '/',
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 365,
+  })
+}
+
+// The active workspace, if the current user owns it
+async function getManagedWorkspace() {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (workspace.role !== 'owner') return null
+  return { userId, workspace }
+}
+
+export async function switchWorkspaceAction(workspaceId: string) {
+  const { userId } = await getWorkspaceContext()
+
+  const role = await getWorkspaceRole(workspaceId, userId)
+  if (!role) return { message: 'Workspace not found' }
+
+  await setActiveWorkspace(workspaceId)
+  revalidatePath('/dashboard', 'layout')
+  return { success: true }
+}
+
+export async function createWorkspaceAction(
+  _prevState: WorkspaceFormState,
+  formData: FormData
+): Promise<WorkspaceFormState> {
+  const { userId } = await getWorkspaceContext()
+
+  const parsed = workspaceNameSchema.safeParse(formData.get('name'))
+  if (!parsed.success) {
+    return { errors: { name: z.flattenError(parsed.error).formErrors } }
+  }
+
+  const id = await createWorkspace(userId, parsed.data)
+  await setActiveWorkspace(id)
+
+  revalidatePath('/dashboard', 'layout')
+  return { success: true }
+}
+
+export async function renameWorkspaceAction(
+  _prevState: WorkspaceFormState,
+  formData: FormData
+): Promise<WorkspaceFormState> {
+  const managed = await getManagedWorkspace()
+  if (!managed) return { message: 'Only owners can rename this workspace' }
+
+  const parsed = workspaceNameSchema.safeParse(formData.get('name'))
+  if (!parsed.success) {
+    return { errors: { name: z.flattenError(parsed.error).formErrors } }
+  }
+
+  await renameWorkspace(managed.workspace.id, parsed.data)
+  if (parsed.data !== managed.workspace.name) {
+    await recordAuditEvent({
+      workspaceId: managed.workspace.id,
+      userId: managed.userId,
+      action: 'workspace.renamed',
+      details: { from: managed.workspace.name, to: parsed.data },
+    })
+  }
+
+  revalidatePath('/dashboard', 'layout')
+  return { success: true }
+}
+
+export async function addMemberAction(
+  _prevState: WorkspaceFormState,
+  formData: FormData
+): Promise<WorkspaceFormState> {
+  const managed = await getManagedWorkspace()
+  if (!managed) return { message: 'Only owners can add members' }
+  if (managed.workspace.personal) return { message: 'Personal workspaces cannot be shared' }
+
+  const parsed = memberSchema.safeParse({
+    email: formData.get('email'),
+    role: formData.get('role'),
+  })
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  const memberId = await findUserIdByEmail(parsed.data.email)
+  if (!memberId) {
+    return { errors: { email: ['No account uses that email. Ask them to sign up first.'] } }
+  }
+
+  const added = await addWorkspaceMember(managed.workspace.id, memberId, parsed.data.role)
+  if (!added) return { errors: { email: ['That person is already a member'] } }
+  await recordAuditEvent({
+    workspaceId: managed.workspace.id,
+    userId: managed.userId,
+    action: 'member.added',
+    targetId: memberId,
+    details: { role: parsed.data.role },
+  })
+
+  revalidatePath('/dashboard/workspace')
+  return { success: true }
+}
+
+export async function updateMemberRoleAction(
+  memberId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceFormState> {
+  const managed = await getManagedWorkspace()
+  if (!managed) return { message: 'Only owners can change roles' }
+  if (!WORKSPACE_ROLES.includes(role)) return { message: 'Unknown role' }
+
+  const updated = await updateWorkspaceMemberRole(managed.workspace.id, memberId, role)
+  if (!updated) return { message: 'A workspace needs at least one owner' }
+  await recordAuditEvent({
+    workspaceId: managed.workspace.id,
+    userId: managed.userId,
+    action: 'member.role_changed',
+    targetId: memberId,
+    details: { role },
+  })
+
+  revalidatePath('/dashboard', 'layout')
+  return { success: true }
+}
+
+// Owners can remove anyone; everyone else can only remove themselves (leave)
+export async function removeMemberAction(memberId: string): Promise<WorkspaceFormState> {
+  const { userId, workspace } = await getWorkspaceContext()
+  if (workspace.personal) return { message: 'Personal workspaces cannot be left' }
+  if (memberId !== userId && workspace.role !== 'owner') {
+    return { message: 'Only owners can remove members' }
+  }
+
+  const removed = await removeWorkspaceMember(workspace.id, memberId)
+  if (!removed) return { message: 'A workspace needs at least one owner' }
+  await recordAuditEvent({ workspaceId: workspace.id, userId, action: 'member.removed', targetId: memberId })
+
+  if (memberId === userId) {
+    const cookieStore = await cookies()
+    cookieStore.delete(ACTIVE_WORKSPACE_COOKIE)
+    redirect('/dashboard')
+  }
+
+  revalidatePath('/dashboard/workspace')
+  return { success: true }
+}
+
+export async function deleteWorkspaceAction(): Promise<WorkspaceFormState> {
+  const managed = await getManagedWorkspace()
+  if (!managed) return { message: 'Only owners can delete this workspace' }
+  if (managed.workspace.personal) return { message: 'Personal workspaces cannot be deleted' }
+
+  await deleteWorkspace(managed.workspace.id)
+  const cookieStore = await cookies()
+  cookieStore.delete(ACTIVE_WORKSPACE_COOKIE)
+
+  redirect('/dashboard')
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link'
+import { auth } from '@clerk/nextjs/server'
+import { ArrowLeft } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AddMemberForm } from '@/components/dashboard/add-member-form'
+import { DeleteWorkspaceButton } from '@/components/dashboard/delete-workspace-button'
+import { MemberRoleMenu } from '@/components/dashboard/member-role-menu'
+import { RemoveMemberButton } from '@/components/dashboard/remove-member-button'
+import { RenameWorkspaceForm } from '@/components/dashboard/rename-workspace-form'
+import { getUserProfiles } from '@/lib/clerk-users'
+import { getActiveWorkspace, getWorkspaceMembers } from '@/lib/workspaces'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' })
+
+export default async function WorkspaceSettingsPage() {
+  const { userId } = await auth()
+
+  // Protected by dashboard/layout.tsx
+  if (!userId) return null
+
+  const { active } = await getActiveWorkspace(userId)
+  const isOwner = active.role === 'owner'
+  const members = await getWorkspaceMembers(active.id)
+  const profiles = await getUserProfiles(members.map((member) => member.userId))
+
+  return (
+    <div className="container mx-auto px-4 py-8 md:py-12">
+      <Button variant="ghost" size="sm" className="mb-4" asChild>
+        <Link href="/dashboard">
+          <ArrowLeft /> Back to links
+        </Link>
+      </Button>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">{active.name}</h1>
+        <p className="text-muted-foreground">
+          {active.personal
+            ? 'Your personal workspace. Create a new workspace from the switcher to share links with a team.'
+            : 'Owners manage members, editors manage links, viewers can see links and analytics.'}
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Settings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RenameWorkspaceForm name={active.name} />
+            </CardContent>
+          </Card>
+        )}
+
+        {!active.personal && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Members</CardTitle>
+              <CardDescription>
+                {members.length === 1 ? '1 member' : `${members.length} members`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {isOwner && <AddMemberForm />}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead className="w-[100px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => {
+                    const profile = profiles.get(member.userId)
+                    const name = profile?.name ?? profile?.email ?? member.userId
+                    const self = member.userId === userId
+
+                    return (
+                      <TableRow key={member.userId}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            {name} {self && <Badge variant="secondary">You</Badge>}
+                          </div>
+                          {profile?.name && profile.email && (
+                            <div className="text-sm text-muted-foreground">{profile.email}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {isOwner ? (
+                            <MemberRoleMenu userId={member.userId} role={member.role} />
+                          ) : (
+                            <span className="capitalize">{member.role}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {dateFormat.format(member.createdAt)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(isOwner || self) && (
+                            <RemoveMemberButton userId={member.userId} name={name} self={self} />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {isOwner && !active.personal && (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle>Delete workspace</CardTitle>
+              <CardDescription>Removes the workspace with all of its links, clicks and API tokens.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DeleteWorkspaceButton name={active.name} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,20 @@
 import { auth } from '@clerk/nextjs/server'
-import { redirect } from 'next/navigation'
+import { headers } from 'next/headers'
+import { notFound, redirect } from 'next/navigation'
 import { SignUpButton } from '@clerk/nextjs'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Link2, BarChart3, Shield, Zap } from 'lucide-react'
+import { resolveHost } from '@/lib/domains'
 
 export default async function Home() {
+  // A custom domain's bare address goes to its fallback, never to this page
+  const domain = await resolveHost((await headers()).get('host'))
+  if (domain) {
+    if (domain.fallbackUrl) redirect(domain.fallbackUrl)
+    notFound()
+  }
+
   const { userId } = await auth()
   
   // If user is logged in, redirect to dashboard
@@ -0,0 +1,76 @@
+'use server'
+
+import { after } from 'next/server'
+import { headers } from 'next/headers'
+import { z } from 'zod'
+import type { ReportReason } from '@/db/schema'
+import { createLinkReport, isReportRateLimited, REPORT_REASONS } from '@/lib/link-reports'
+import { getLinkByShortCode } from '@/lib/links'
+import { consumeRateLimit, getRateLimit } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/request-ip'
+import { getShortCodeFromPath } from '@/lib/short-code'
+
+export type ReportFormState = {
+  success?: boolean
+  message?: string
+  errors?: { link?: string[]; reason?: string[]; details?: string[] }
+}
+
+const reportSchema = z.object({
+  link: z.string().trim().min(1, 'Enter the short link you want to report'),
+  reason: z.enum(Object.keys(REPORT_REASONS) as [ReportReason, ...ReportReason[]], 'Pick a reason'),
+  details: z.string().trim().max(2000, 'Use at most 2000 characters').optional(),
+})
+
+// Accepts a full short URL ("https://host/abc"), a path ("/abc") or a bare code.
+// Only a full URL can name a custom domain; the others mean the app's own host.
+function parseShortLink(input: string) {
+  try {
+    const url = new URL(input)
+    return { shortCode: getShortCodeFromPath(url.pathname), host: url.host }
+  } catch {
+    return { shortCode: getShortCodeFromPath(input.startsWith('/') ? input : `/${input}`), host: null }
+  }
+}
+
+export async function reportLinkAction(
+  _prevState: ReportFormState,
+  formData: FormData
+): Promise<ReportFormState> {
+  const parsed = reportSchema.safeParse({
+    link: formData.get('link'),
+    reason: formData.get('reason'),
+    details: formData.get('details') ?? undefined,
+  })
+  if (!parsed.success) {
+    return { errors: z.flattenError(parsed.error).fieldErrors }
+  }
+
+  // Unknown codes count against the visitor's miss limit, as on the redirect,
+  // so the form can't be used to find links either
+  const ip = getClientIp(await headers())
+  const misses = await getRateLimit('shortCodeMiss', ip)
+  if (!misses.allowed) {
+    return { message: 'Too many of your recent requests were for links that don\'t exist. Try again later.' }
+  }
+
+  const { shortCode, host } = parseShortLink(parsed.data.link)
+  const link = shortCode ? await getLinkByShortCode(shortCode, host) : null
+  if (!link) {
+    after(() => consumeRateLimit('shortCodeMiss', ip))
+    return { errors: { link: ['No short link matches that address'] } }
+  }
+
+  if (await isReportRateLimited(ip)) {
+    return { message: 'You have sent several reports recently. Try again in an hour.' }
+  }
+
+  await createLinkReport({
+    linkId: link.id,
+    reason: parsed.data.reason,
+    details: parsed.data.details || null,
+    reporterIp: ip,
+  })
+
+  return { success: true }
+}
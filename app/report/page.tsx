@@ -0,0 +1,36 @@
+import type { Metadata } from 'next'
+import { Flag } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ReportLinkForm } from '@/components/short-link/report-link-form'
+import { REPORT_REASONS } from '@/lib/link-reports'
+
+export const metadata: Metadata = {
+  title: 'Report a link',
+}
+
+export default async function ReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ link?: string }>
+}) {
+  const { link } = await searchParams
+
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center bg-background px-4 py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="items-center text-center">
+          <div className="mb-2 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+            <Flag className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Report a link</CardTitle>
+          <CardDescription>
+            Tell us about short links that lead to phishing, malware or scams. You don&apos;t need an account.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReportLinkForm defaultLink={link} reasons={REPORT_REASONS} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
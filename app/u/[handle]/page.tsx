@@ -0,0 +1,77 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { Link2, UserRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getDomainHostnames } from '@/lib/domains'
+import { getProfileByHandle, getProfileLinkLabel, getVisibleProfileLinks, withProfileSource } from '@/lib/profiles'
+import { getShortUrl } from '@/lib/short-url'
+
+type ProfilePageProps = {
+  params: Promise<{ handle: string }>
+}
+
+// Shared by generateMetadata and the page within a request
+const getProfile = cache(getProfileByHandle)
+
+export async function generateMetadata({ params }: ProfilePageProps): Promise<Metadata> {
+  const profile = await getProfile((await params).handle)
+  if (!profile) return {}
+
+  return {
+    title: profile.title,
+    description: profile.bio ?? undefined,
+    openGraph: { type: 'profile', title: profile.title, description: profile.bio ?? undefined },
+  }
+}
+
+export default async function PublicProfilePage({ params }: ProfilePageProps) {
+  const profile = await getProfile((await params).handle)
+
+  if (!profile) {
+    notFound()
+  }
+
+  const [profileLinks, hostnames] = await Promise.all([
+    getVisibleProfileLinks(profile.workspaceId),
+    getDomainHostnames(profile.workspaceId),
+  ])
+
+  return (
+    <div className="flex min-h-[60vh] justify-center bg-background px-4 py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="items-center text-center">
+          <div className="mb-2 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+            <UserRound className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">{profile.title}</CardTitle>
+          {profile.bio && <CardDescription className="whitespace-pre-line">{profile.bio}</CardDescription>}
+        </CardHeader>
+        <CardContent className="grid gap-3">
+          {profileLinks.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground">Nothing here yet.</p>
+          )}
+          {profileLinks.map((link) => {
+            const domain = link.domainId && hostnames.get(link.domainId)
+            const href = withProfileSource(domain ? getShortUrl(link.shortCode, '', domain) : `/${link.shortCode}`)
+
+            return (
+              <Button key={link.id} variant="outline" size="lg" className="h-auto w-full justify-start py-3" asChild>
+                <a href={href}>
+                  {link.previewFavicon ? (
+                    // Third-party icon: plain <img> with no referrer, as in the dashboard
+                    <img src={link.previewFavicon} alt="" referrerPolicy="no-referrer" className="h-5 w-5 shrink-0" />
+                  ) : (
+                    <Link2 className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="truncate">{getProfileLinkLabel(link)}</span>
+                </a>
+              </Button>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useActionState, useState } from 'react'
+import { Ban } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { FieldError } from '@/components/dashboard/field-error'
+import { disableLinkAction, type ModerationFormState } from '@/app/admin/actions'
+
+export function DisableLinkDialog({ linkId, shortCode }: { linkId: string; shortCode: string }) {
+  const [open, setOpen] = useState(false)
+  const [state, formAction, pending] = useActionState(
+    async (prevState: ModerationFormState, formData: FormData) => {
+      const result = await disableLinkAction(linkId, prevState, formData)
+      if (result.success) setOpen(false)
+      return result
+    },
+    {}
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" size="sm">
+          <Ban /> Disable
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <form action={formAction} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Disable /{shortCode}?</DialogTitle>
+            <DialogDescription>
+              Visitors will see a warning page instead of being redirected, and the open reports are closed.
+              You can re-enable the link later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor={`reason-${linkId}`}>Reason (shown to the link&apos;s workspace)</Label>
+            <Textarea
+              id={`reason-${linkId}`}
+              name="reason"
+              rows={3}
+              maxLength={500}
+              placeholder="Phishing page imitating a bank login"
+              aria-invalid={!!state.errors?.reason}
+              required
+            />
+            <FieldError errors={state.errors?.reason} />
+          </div>
+          {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+          <DialogFooter>
+            <Button type="submit" variant="destructive" disabled={pending}>
+              {pending ? 'Disabling...' : 'Disable link'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Button } from '@/components/ui/button'
+import type { ModerationFormState } from '@/app/admin/actions'
+
+// For one-click moderation actions; pass a server action bound to the link
+export function ModerationActionButton({
+  action,
+  label,
+  pendingLabel,
+}: {
+  action: () => Promise<ModerationFormState>
+  label: string
+  pendingLabel: string
+}) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleClick() {
+    startTransition(async () => {
+      const result = await action()
+      setError(result.message)
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleClick} disabled={pending}>
+        {pending ? pendingLabel : label}
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import type { ClickStats } from '@/lib/analytics'
+
+const labelFormat = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+export function ClickChart({ daily }: { daily: ClickStats['daily'] }) {
+  const max = Math.max(1, ...daily.map((day) => day.count))
+
+  return (
+    <div>
+      <div className="flex h-48 items-end gap-px" role="img" aria-label="Clicks per day">
+        {daily.map((day) => (
+          <div
+            key={day.date}
+            className="group relative flex h-full flex-1 items-end"
+            title={`${labelFormat.format(new Date(day.date))}: ${day.count} clicks`}
+          >
+            <div
+              className="w-full rounded-t-sm bg-primary/80 transition-colors group-hover:bg-primary"
+              style={{ height: `${(day.count / max) * 100}%`, minHeight: day.count ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+        <span>{labelFormat.format(new Date(daily[0].date))}</span>
+        <span>{labelFormat.format(new Date(daily[daily.length - 1].date))}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ClickChart } from '@/components/analytics/click-chart'
+import { TopValuesCard } from '@/components/analytics/top-values-card'
+import { STATS_RANGES, type ClickStats, type StatsOptions } from '@/lib/analytics'
+
+type ClickStatsViewProps = {
+  stats: ClickStats
+  options: StatsOptions
+  // Page the range and bot filters link back to
+  basePath: string
+}
+
+function filterHref(basePath: string, options: StatsOptions) {
+  const params = new URLSearchParams({ days: String(options.days) })
+  if (options.includeBots) params.set('bots', '1')
+  return `${basePath}?${params}`
+}
+
+export function ClickStatsView({ stats, options, basePath }: ClickStatsViewProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {STATS_RANGES.map((days) => (
+          <Button key={days} size="sm" variant={options.days === days ? 'secondary' : 'ghost'} asChild>
+            <Link href={filterHref(basePath, { ...options, days })}>Last {days} days</Link>
+          </Button>
+        ))}
+        <Button size="sm" variant="ghost" className="ml-auto" asChild>
+          <Link href={filterHref(basePath, { ...options, includeBots: !options.includeBots })}>
+            {options.includeBots ? 'Exclude bots' : 'Include bots'}
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardDescription>
+            Clicks in the last {options.days} days{options.includeBots ? ', including bots' : ''}
+          </CardDescription>
+          <CardTitle className="text-3xl tabular-nums">{stats.total.toLocaleString('en-US')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ClickChart daily={stats.daily} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <TopValuesCard title="Top referrers" values={stats.referrers} />
+        <TopValuesCard title="Top countries" values={stats.countries} />
+        <TopValuesCard title="Top browsers" values={stats.browsers} />
+      </div>
+    </div>
+  )
+}
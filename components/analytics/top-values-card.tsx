@@ -0,0 +1,34 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RankedValue } from '@/lib/analytics'
+
+export function TopValuesCard({ title, values }: { title: string; values: RankedValue[] }) {
+  const max = Math.max(1, ...values.map((item) => item.count))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {values.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No data yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {values.map((item) => (
+              <li key={item.value} className="relative overflow-hidden rounded-md px-2 py-1 text-sm">
+                <div
+                  className="absolute inset-y-0 left-0 bg-primary/10"
+                  style={{ width: `${(item.count / max) * 100}%` }}
+                />
+                <div className="relative flex justify-between gap-4">
+                  <span className="truncate">{item.value}</span>
+                  <span className="font-medium tabular-nums">{item.count}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
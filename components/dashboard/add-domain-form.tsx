@@ -0,0 +1,42 @@
+'use client'
+
+import { useActionState, useRef } from 'react'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { addDomainAction, type DomainFormState } from '@/app/dashboard/domains/actions'
+
+export function AddDomainForm() {
+  const formRef = useRef<HTMLFormElement>(null)
+  const [state, formAction, pending] = useActionState(
+    async (prevState: DomainFormState, formData: FormData) => {
+      const result = await addDomainAction(prevState, formData)
+      if (result.success) formRef.current?.reset()
+      return result
+    },
+    {}
+  )
+
+  return (
+    <form ref={formRef} action={formAction} className="grid gap-2">
+      <Label htmlFor="domain-hostname">Add a domain</Label>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          id="domain-hostname"
+          name="hostname"
+          placeholder="go.example.com"
+          maxLength={253}
+          aria-invalid={!!state.errors?.hostname}
+          required
+        />
+        <Button type="submit" disabled={pending}>
+          <Plus /> {pending ? 'Adding...' : 'Add'}
+        </Button>
+      </div>
+      <FieldError errors={state.errors?.hostname} />
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+    </form>
+  )
+}
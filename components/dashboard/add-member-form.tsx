@@ -0,0 +1,57 @@
+'use client'
+
+import { useActionState, useRef } from 'react'
+import { UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FieldError } from '@/components/dashboard/field-error'
+import { addMemberAction, type WorkspaceFormState } from '@/app/dashboard/workspace/actions'
+import { WORKSPACE_ROLES } from '@/lib/workspace-roles'
+
+export function AddMemberForm() {
+  const formRef = useRef<HTMLFormElement>(null)
+  const [state, formAction, pending] = useActionState(
+    async (prevState: WorkspaceFormState, formData: FormData) => {
+      const result = await addMemberAction(prevState, formData)
+      if (result.success) formRef.current?.reset()
+      return result
+    },
+    {}
+  )
+
+  return (
+    <form ref={formRef} action={formAction} className="grid gap-2">
+      <Label htmlFor="member-email">Add a member by email</Label>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          id="member-email"
+          name="email"
+          type="email"
+          placeholder="teammate@example.com"
+          aria-invalid={!!state.errors?.email}
+          required
+        />
+        <Select name="role" defaultValue="editor">
+          <SelectTrigger aria-label="Role" className="capitalize sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WORKSPACE_ROLES.map((role) => (
+              <SelectItem key={role} value={role} className="capitalize">
+                {role}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={pending}>
+          <UserPlus /> {pending ? 'Adding...' : 'Add'}
+        </Button>
+      </div>
+      <FieldError errors={state.errors?.email ?? state.errors?.role} />
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+      {state.success && <p className="text-sm text-muted-foreground">Member added.</p>}
+    </form>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useActionState, useRef } from 'react'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { createWebhookAction, type WebhookFormState } from '@/app/dashboard/webhooks/actions'
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@/lib/webhook-events'
+
+export function AddWebhookForm() {
+  const formRef = useRef<HTMLFormElement>(null)
+  const [state, formAction, pending] = useActionState(
+    async (prevState: WebhookFormState, formData: FormData) => {
+      const result = await createWebhookAction(prevState, formData)
+      if (result.success) formRef.current?.reset()
+      return result
+    },
+    {}
+  )
+
+  return (
+    <form ref={formRef} action={formAction} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="webhook-url">Endpoint URL</Label>
+        <Input
+          id="webhook-url"
+          name="url"
+          type="url"
+          placeholder="https://example.com/webhooks/links"
+          aria-invalid={!!state.errors?.url}
+          required
+        />
+        <FieldError errors={state.errors?.url} />
+      </div>
+      <fieldset className="grid gap-2">
+        <legend className="mb-2 text-sm font-medium">Events</legend>
+        {WEBHOOK_EVENT_TYPES.map((type) => (
+          <div key={type} className="flex items-center gap-2">
+            <Checkbox id={`webhook-event-${type}`} name="events" value={type} defaultChecked={type !== 'link.clicked'} />
+            <Label htmlFor={`webhook-event-${type}`} className="font-normal">
+              <code className="font-mono">{type}</code>
+              <span className="text-muted-foreground">{WEBHOOK_EVENT_LABELS[type]}</span>
+            </Label>
+          </div>
+        ))}
+        <FieldError errors={state.errors?.events} />
+      </fieldset>
+      <div>
+        <Button type="submit" disabled={pending}>
+          <Plus /> {pending ? 'Adding...' : 'Add webhook'}
+        </Button>
+      </div>
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Archive, ArchiveRestore } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { archiveLinkAction, unarchiveLinkAction } from '@/app/dashboard/actions'
+
+// Archiving is undone just as easily, so there is no confirmation
+export function ArchiveLinkButton({ id, shortCode, archived }: { id: string; shortCode: string; archived: boolean }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleClick() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await (archived ? unarchiveLinkAction : archiveLinkAction)(id)
+      if (!result.success) setError(result.message ?? 'Something went wrong')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleClick}
+        disabled={pending}
+        aria-label={archived ? `Unarchive /${shortCode}` : `Archive /${shortCode}`}
+        title={archived ? 'Unarchive' : 'Archive'}
+      >
+        {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
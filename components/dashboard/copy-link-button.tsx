@@ -0,0 +1,23 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getShortUrl } from '@/lib/short-url'
+
+// domain: the link's custom domain hostname, if it has one
+export function CopyLinkButton({ shortCode, domain }: { shortCode: string; domain?: string | null }) {
+  const [copied, setCopied] = useState(false)
+
+  async function handleCopy() {
+    await navigator.clipboard.writeText(getShortUrl(shortCode, window.location.origin, domain))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <Button variant="ghost" size="icon" onClick={handleCopy} aria-label={`Copy /${shortCode}`}>
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+    </Button>
+  )
+}
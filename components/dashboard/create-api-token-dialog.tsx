@@ -0,0 +1,114 @@
+'use client'
+
+import { useActionState, useState } from 'react'
+import { Check, Copy, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { createApiTokenAction } from '@/app/dashboard/api-tokens/actions'
+
+export function CreateApiTokenDialog() {
+  const [open, setOpen] = useState(false)
+  const [copied, setCopied] = useState(false)
+  // Remounting the form on close drops the token so it is never shown twice
+  const [formKey, setFormKey] = useState(0)
+
+  function handleOpenChange(nextOpen: boolean) {
+    setOpen(nextOpen)
+    if (!nextOpen) {
+      setFormKey((key) => key + 1)
+      setCopied(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus /> New token
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <TokenForm
+          key={formKey}
+          copied={copied}
+          onCopy={() => setCopied(true)}
+          onDone={() => handleOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function TokenForm({
+  copied,
+  onCopy,
+  onDone,
+}: {
+  copied: boolean
+  onCopy: () => void
+  onDone: () => void
+}) {
+  const [state, formAction, pending] = useActionState(createApiTokenAction, {})
+
+  if (state.token) {
+    const token = state.token
+
+    return (
+      <div className="grid gap-4">
+        <DialogHeader>
+          <DialogTitle>Copy your token</DialogTitle>
+          <DialogDescription>
+            This is the only time the token is shown. Store it somewhere safe, like your CI secrets.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input value={token} readOnly className="font-mono" onFocus={(event) => event.target.select()} />
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Copy token"
+            onClick={async () => {
+              await navigator.clipboard.writeText(token)
+              onCopy()
+            }}
+          >
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={onDone}>Done</Button>
+        </DialogFooter>
+      </div>
+    )
+  }
+
+  return (
+    <form action={formAction} className="grid gap-4">
+      <DialogHeader>
+        <DialogTitle>Create API token</DialogTitle>
+        <DialogDescription>Tokens can do anything your role allows in this workspace through the API.</DialogDescription>
+      </DialogHeader>
+      <div className="grid gap-2">
+        <Label htmlFor="name">Name</Label>
+        <Input id="name" name="name" placeholder="GitHub Actions" maxLength={100} aria-invalid={!!state.errors?.name} required />
+        <FieldError errors={state.errors?.name} />
+      </div>
+      <DialogFooter>
+        <Button type="submit" disabled={pending}>
+          {pending ? 'Creating...' : 'Create token'}
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { createWorkspaceAction, type WorkspaceFormState } from '@/app/dashboard/workspace/actions'
+
+export function CreateWorkspaceDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const [state, formAction, pending] = useActionState(
+    async (prevState: WorkspaceFormState, formData: FormData) => {
+      const result = await createWorkspaceAction(prevState, formData)
+      if (result.success) onOpenChange(false)
+      return result
+    },
+    {}
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form action={formAction} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Create workspace</DialogTitle>
+            <DialogDescription>
+              Workspaces own links. Invite teammates as owners, editors or viewers once it exists.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              name="name"
+              placeholder="Marketing"
+              maxLength={100}
+              aria-invalid={!!state.errors?.name}
+              required
+            />
+            <FieldError errors={state.errors?.name} />
+          </div>
+          {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+          <DialogFooter>
+            <Button type="submit" disabled={pending}>
+              {pending ? 'Creating...' : 'Create workspace'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
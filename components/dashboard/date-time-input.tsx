@@ -0,0 +1,38 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+// `datetime-local` values have no time zone, so convert in the browser and submit ISO 8601
+export function toLocalInputValue(date: Date) {
+  const offsetMs = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+type DateTimeInputProps = {
+  id: string
+  name: string
+  defaultValue?: Date | null
+  'aria-invalid'?: boolean
+}
+
+export function DateTimeInput({ id, name, defaultValue, ...props }: DateTimeInputProps) {
+  const [value, setValue] = useState(() => (defaultValue ? toLocalInputValue(defaultValue) : ''))
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id={id}
+        type="datetime-local"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        {...props}
+      />
+      <input type="hidden" name={name} value={value ? new Date(value).toISOString() : ''} />
+      <Button type="button" variant="ghost" onClick={() => setValue('')} disabled={!value}>
+        Clear
+      </Button>
+    </div>
+  )
+}
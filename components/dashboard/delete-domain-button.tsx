@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { deleteDomainAction } from '@/app/dashboard/domains/actions'
+
+export function DeleteDomainButton({ id, hostname }: { id: string; hostname: string }) {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleDelete(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await deleteDomainAction(id)
+      if (result.message) {
+        setError(result.message)
+      } else {
+        setOpen(false)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {hostname}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            It stops serving this workspace&apos;s fallback URL. Domains that still have links cannot be deleted.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleDelete}
+            disabled={pending}
+          >
+            {pending ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
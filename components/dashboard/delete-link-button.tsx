@@ -0,0 +1,79 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Trash2 } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { deleteLinkAction, purgeLinkAction } from '@/app/dashboard/actions'
+import { TRASH_RETENTION_DAYS } from '@/lib/link-status'
+
+type DeleteLinkButtonProps = {
+  id: string
+  shortCode: string
+  // Deletes a link that is already in the trash for good
+  permanent?: boolean
+}
+
+export function DeleteLinkButton({ id, shortCode, permanent = false }: DeleteLinkButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleDelete(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await (permanent ? purgeLinkAction : deleteLinkAction)(id)
+      if (result.success) {
+        setOpen(false)
+      } else {
+        setError(result.message)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={permanent ? `Delete /${shortCode} forever` : `Move /${shortCode} to the trash`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{permanent ? `Delete /${shortCode} forever?` : `Move /${shortCode} to the trash?`}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {permanent
+              ? 'This action cannot be undone. The link and its analytics are deleted, and the short code can be used again.'
+              : `Anyone using this short link will see a not found page. You can restore it from the trash for ${TRASH_RETENTION_DAYS} days, and its short code stays reserved until then.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleDelete}
+            disabled={pending}
+          >
+            {pending ? 'Deleting...' : permanent ? 'Delete forever' : 'Move to trash'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
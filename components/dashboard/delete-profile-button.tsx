@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { deleteProfileAction } from '@/app/dashboard/profile/actions'
+
+export function DeleteProfileButton({ handle }: { handle: string }) {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleDelete(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await deleteProfileAction()
+      if (result.success) {
+        setOpen(false)
+      } else {
+        setError(result.message)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline">Delete page</Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete the profile page?</AlertDialogTitle>
+          <AlertDialogDescription>
+            /u/{handle} stops working and the handle becomes free for anyone to take. The links themselves are
+            not affected.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleDelete}
+            disabled={pending}
+          >
+            {pending ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
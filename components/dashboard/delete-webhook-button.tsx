@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { deleteWebhookAction } from '@/app/dashboard/webhooks/actions'
+
+export function DeleteWebhookButton({ id, url }: { id: string; url: string }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleDelete(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await deleteWebhookAction(id)
+      if (result.message) {
+        setError(result.message)
+      } else {
+        setOpen(false)
+        router.push('/dashboard/webhooks')
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {url} stops receiving events at once, and its delivery log is deleted with it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleDelete}
+            disabled={pending}
+          >
+            {pending ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
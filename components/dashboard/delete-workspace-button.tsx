@@ -0,0 +1,62 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Trash2 } from 'lucide-react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { deleteWorkspaceAction } from '@/app/dashboard/workspace/actions'
+
+export function DeleteWorkspaceButton({ name }: { name: string }) {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleDelete(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes (it redirects on success)
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await deleteWorkspaceAction()
+      setError(result.message)
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="destructive">
+          <Trash2 /> Delete workspace
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete &ldquo;{name}&rdquo;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Every link in the workspace stops redirecting, and its analytics and API tokens are
+            deleted. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleDelete}
+            disabled={pending}
+          >
+            {pending ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
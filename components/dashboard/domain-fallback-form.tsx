@@ -0,0 +1,42 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { updateDomainFallbackAction } from '@/app/dashboard/domains/actions'
+
+type DomainFallbackFormProps = {
+  id: string
+  hostname: string
+  fallbackUrl: string | null
+}
+
+export function DomainFallbackForm({ id, hostname, fallbackUrl }: DomainFallbackFormProps) {
+  const [state, formAction, pending] = useActionState(updateDomainFallbackAction.bind(null, id), {})
+
+  return (
+    <form action={formAction} className="grid gap-2">
+      <Label htmlFor={`fallback-${id}`}>Fallback URL</Label>
+      <div className="flex gap-2">
+        <Input
+          id={`fallback-${id}`}
+          name="fallbackUrl"
+          type="url"
+          placeholder="https://example.com"
+          defaultValue={fallbackUrl ?? undefined}
+          aria-invalid={!!state.errors?.fallbackUrl}
+        />
+        <Button type="submit" variant="outline" disabled={pending}>
+          {pending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Where {hostname} and unknown codes on it redirect. Leave empty to show a &ldquo;Link not found&rdquo; page.
+      </p>
+      <FieldError errors={state.errors?.fallbackUrl} />
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useActionState, useState } from 'react'
+import { Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { FieldError } from '@/components/dashboard/field-error'
+import { updateLinkPreviewAction, type LinkPreviewFormState } from '@/app/dashboard/actions'
+
+type EditPreviewDialogProps = {
+  id: string
+  preview: { title: string | null; description: string | null; image: string | null; favicon: string | null }
+}
+
+export function EditPreviewDialog({ id, preview }: EditPreviewDialogProps) {
+  const [open, setOpen] = useState(false)
+
+  const [state, formAction, pending] = useActionState(
+    async (prevState: LinkPreviewFormState, formData: FormData) => {
+      const result = await updateLinkPreviewAction(id, prevState, formData)
+      if (result.success) setOpen(false)
+      return result
+    },
+    {}
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil /> Edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <form action={formAction} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Edit preview</DialogTitle>
+            <DialogDescription>
+              Edited values are kept until you refresh the preview from the destination page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <Label htmlFor="preview-title">Title</Label>
+            <Input
+              id="preview-title"
+              name="title"
+              defaultValue={preview.title ?? undefined}
+              maxLength={200}
+              aria-invalid={!!state.errors?.title}
+            />
+            <FieldError errors={state.errors?.title} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="preview-description">Description</Label>
+            <Textarea
+              id="preview-description"
+              name="description"
+              rows={3}
+              defaultValue={preview.description ?? undefined}
+              maxLength={500}
+              aria-invalid={!!state.errors?.description}
+            />
+            <FieldError errors={state.errors?.description} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="preview-image">Image URL</Label>
+            <Input
+              id="preview-image"
+              name="image"
+              type="url"
+              placeholder="https://example.com/og-image.png"
+              defaultValue={preview.image ?? undefined}
+              aria-invalid={!!state.errors?.image}
+            />
+            <FieldError errors={state.errors?.image} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="preview-favicon">Favicon URL</Label>
+            <Input
+              id="preview-favicon"
+              name="favicon"
+              type="url"
+              placeholder="https://example.com/favicon.ico"
+              defaultValue={preview.favicon ?? undefined}
+              aria-invalid={!!state.errors?.favicon}
+            />
+            <FieldError errors={state.errors?.favicon} />
+          </div>
+
+          {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={pending}>
+              {pending ? 'Saving...' : 'Save preview'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,5 @@
+export function FieldError({ errors }: { errors?: string[] }) {
+  if (!errors?.length) return null
+
+  return <p className="text-sm text-destructive">{errors[0]}</p>
+}
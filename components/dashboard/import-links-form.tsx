@@ -0,0 +1,121 @@
+'use client'
+
+import { useActionState, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { importLinksAction, previewImportAction } from '@/app/dashboard/import-export/actions'
+import type { ImportResult } from '@/lib/link-import'
+
+export function ImportLinksForm() {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, previewAction, previewPending] = useActionState(previewImportAction, {})
+  const [result, setResult] = useState<ImportResult>()
+  const [importPending, startImport] = useTransition()
+
+  // The import action re-reads and re-validates the file, so the preview can't go stale
+  const rows = (result && !result.ok && result.rows) || preview.rows
+  const validCount = rows?.filter((row) => row.errors.length === 0).length ?? 0
+
+  function handleImport() {
+    if (!file) return
+
+    const formData = new FormData()
+    formData.set('file', file)
+    startImport(async () => setResult(await importLinksAction(formData)))
+  }
+
+  if (result?.ok) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Imported {result.imported} {result.imported === 1 ? 'link' : 'links'}.
+        </p>
+        <Button asChild>
+          <Link href="/dashboard">View your links</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <form action={previewAction} className="flex flex-col gap-4 sm:flex-row sm:items-end">
+        <div className="grid flex-1 gap-2">
+          <Label htmlFor="file">CSV or JSON file</Label>
+          <Input
+            id="file"
+            name="file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null)
+              setResult(undefined)
+            }}
+            required
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={!file || previewPending}>
+          {previewPending ? 'Checking...' : 'Preview'}
+        </Button>
+      </form>
+
+      {preview.error && <p className="text-sm text-destructive">{preview.error}</p>}
+      {result && !result.ok && <p className="text-sm text-destructive">{result.error}</p>}
+
+      {rows && (
+        <div className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm text-muted-foreground">
+              {validCount} of {rows.length} rows are ready to import
+              {validCount < rows.length && '; rows with errors will be skipped'}.
+            </p>
+            <Button onClick={handleImport} disabled={validCount === 0 || importPending}>
+              {importPending ? 'Importing...' : `Import ${validCount} ${validCount === 1 ? 'link' : 'links'}`}
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[70px]">Row</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead>Alias</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell className="text-muted-foreground tabular-nums">{row.line}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={row.url}>
+                    {row.url || <span className="text-muted-foreground">(empty)</span>}
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    {row.alias ?? <span className="font-sans text-muted-foreground">Generated</span>}
+                  </TableCell>
+                  <TableCell>
+                    {row.errors.length === 0 ? (
+                      <Badge variant="secondary">Ready</Badge>
+                    ) : (
+                      <span className="text-sm text-destructive">{row.errors.join('. ')}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import Link from 'next/link'
+import { Search, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import {
+  isFilteredSearch,
+  LINK_VIEWS,
+  linkSearchHref,
+  type LinkSearch,
+  type LinkSort,
+  type LinkStatusFilter,
+  type LinkView,
+} from '@/lib/link-search'
+
+const VIEW_LABELS = {
+  active: 'Active',
+  archived: 'Archived',
+  trash: 'Trash',
+} satisfies Record<LinkView, string>
+
+const STATUS_LABELS = {
+  active: 'Active',
+  expired: 'Expired',
+  disabled: 'Disabled',
+  protected: 'Password protected',
+} satisfies Record<LinkStatusFilter, string>
+
+const SORT_LABELS = {
+  created: 'Created',
+  updated: 'Updated',
+  clicks: 'Clicks',
+} satisfies Record<LinkSort, string>
+
+type LinkFiltersProps = {
+  search: LinkSearch
+  tags: { name: string; links: number }[]
+}
+
+// A plain GET form, so every filter combination is a shareable URL
+export function LinkFilters({ search, tags }: LinkFiltersProps) {
+  return (
+    <div className="mb-6 space-y-3">
+      <nav className="flex gap-1" aria-label="Link views">
+        {LINK_VIEWS.map((view) => (
+          <Button key={view} variant={search.view === view ? 'secondary' : 'ghost'} size="sm" asChild>
+            <Link href={linkSearchHref(search, { view })} aria-current={search.view === view ? 'page' : undefined}>
+              {VIEW_LABELS[view]}
+            </Link>
+          </Button>
+        ))}
+      </nav>
+      <form action="/dashboard" className="flex flex-col gap-2 sm:flex-row sm:flex-wrap">
+        <div className="relative flex-1 sm:min-w-64">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            name="q"
+            defaultValue={search.q}
+            placeholder="Search URLs, short codes, titles and tags"
+            aria-label="Search links"
+            className="pl-9"
+          />
+        </div>
+        {search.view !== 'active' && <input type="hidden" name="view" value={search.view} />}
+        {search.tag.map((name) => (
+          <input key={name} type="hidden" name="tag" value={name} />
+        ))}
+        {/* "any" isn't a status, so it parses as no filter */}
+        <Select name="status" defaultValue={search.status ?? 'any'}>
+          <SelectTrigger aria-label="Status" className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any status</SelectItem>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select name="sort" defaultValue={search.sort}>
+          <SelectTrigger aria-label="Sort by" className="sm:w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select name="dir" defaultValue={search.dir}>
+          <SelectTrigger aria-label="Sort direction" className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="desc">Descending</SelectItem>
+            <SelectItem value="asc">Ascending</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit" variant="secondary">
+          Apply
+        </Button>
+        {isFilteredSearch(search) && (
+          <Button variant="ghost" asChild>
+            <Link href={linkSearchHref(search, { q: '', tag: [], status: undefined })}>
+              <X /> Clear
+            </Link>
+          </Button>
+        )}
+      </form>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map(({ name, links }) => {
+            const selected = search.tag.includes(name)
+            return (
+              <Link
+                key={name}
+                href={linkSearchHref(search, {
+                  tag: selected ? search.tag.filter((tag) => tag !== name) : [...search.tag, name],
+                })}
+                aria-pressed={selected}
+              >
+                <Badge variant={selected ? 'default' : 'outline'} className={cn(!selected && 'hover:bg-accent')}>
+                  {name}
+                  <span className={cn('ml-1.5 tabular-nums', !selected && 'text-muted-foreground')}>{links}</span>
+                </Badge>
+              </Link>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+'use client'
+
+import { useActionState, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { DateTimeInput } from '@/components/dashboard/date-time-input'
+import { FieldError } from '@/components/dashboard/field-error'
+import { UtmBuilder } from '@/components/dashboard/utm-builder'
+import { QUERY_FORWARDING_LABELS, QUERY_FORWARDING_MODES } from '@/lib/query-forwarding'
+import { ALIAS_MIN_LENGTH, SHORT_CODE_MAX_LENGTH } from '@/lib/short-code'
+import type { QueryForwarding } from '@/db/schema'
+import {
+  createLinkAction,
+  updateLinkAction,
+  type LinkFormState,
+} from '@/app/dashboard/actions'
+
+// Select items can't have an empty value; the hidden input sends '' for it
+const DEFAULT_DOMAIN = 'default'
+
+type LinkFormDialogProps = {
+  // When given, the dialog edits this link instead of creating a new one
+  link?: {
+    id: string
+    url: string
+    domainId: string | null
+    shortCode: string
+    expiresAt: Date | null
+    maxClicks: number | null
+    clickCount: number
+    hasPassword: boolean
+    title: string | null
+    notes: string | null
+    tags: string[]
+    queryForwarding: QueryForwarding
+  }
+  // The workspace's verified custom domains
+  domains: { id: string; hostname: string }[]
+  utmPresets: React.ComponentProps<typeof UtmBuilder>['presets']
+  trigger: React.ReactNode
+}
+
+export function LinkFormDialog({ link, domains, utmPresets, trigger }: LinkFormDialogProps) {
+  const [open, setOpen] = useState(false)
+  // Controlled so the UTM builder can edit its query string
+  const [url, setUrl] = useState(link?.url ?? '')
+  const [domainId, setDomainId] = useState(link?.domainId ?? DEFAULT_DOMAIN)
+
+  function handleOpenChange(nextOpen: boolean) {
+    if (nextOpen) {
+      setUrl(link?.url ?? '')
+      setDomainId(link?.domainId ?? DEFAULT_DOMAIN)
+    }
+    setOpen(nextOpen)
+  }
+  const action = link ? updateLinkAction.bind(null, link.id) : createLinkAction
+
+  const [state, formAction, pending] = useActionState(
+    async (prevState: LinkFormState, formData: FormData) => {
+      const result = await action(prevState, formData)
+      if (result.success) setOpen(false)
+      return result
+    },
+    {}
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[480px]">
+        <form action={formAction} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{link ? 'Edit link' : 'Create short link'}</DialogTitle>
+            <DialogDescription>
+              {link
+                ? 'Change where this short link points or pick a new alias.'
+                : 'Paste a long URL. Leave the alias empty to generate a short code.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2">
+            <Label htmlFor="url">Destination URL</Label>
+            <Input
+              id="url"
+              name="url"
+              type="url"
+              placeholder="https://example.com/very-long-url"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              aria-invalid={!!state.errors?.url}
+              required
+            />
+            <FieldError errors={state.errors?.url} />
+          </div>
+
+          <UtmBuilder url={url} onChange={setUrl} presets={utmPresets} />
+
+          <div className="grid gap-2">
+            <Label htmlFor="queryForwarding">Forward query parameters</Label>
+            <Select name="queryForwarding" defaultValue={link?.queryForwarding ?? 'off'}>
+              <SelectTrigger id="queryForwarding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUERY_FORWARDING_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {QUERY_FORWARDING_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Passes parameters from the short URL, such as ?ref=partner, on to the destination.
+            </p>
+            <FieldError errors={state.errors?.queryForwarding} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="title">Title (optional)</Label>
+            <Input
+              id="title"
+              name="title"
+              placeholder="Spring launch landing page"
+              defaultValue={link?.title ?? undefined}
+              maxLength={200}
+              aria-invalid={!!state.errors?.title}
+            />
+            <FieldError errors={state.errors?.title} />
+          </div>
+
+          {domains.length > 0 && (
+            <div className="grid gap-2">
+              <Label htmlFor="domainId">Domain</Label>
+              <Select value={domainId} onValueChange={setDomainId}>
+                <SelectTrigger id="domainId" aria-invalid={!!state.errors?.domainId}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_DOMAIN}>Default domain</SelectItem>
+                  {domains.map((domain) => (
+                    <SelectItem key={domain.id} value={domain.id}>
+                      {domain.hostname}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input type="hidden" name="domainId" value={domainId === DEFAULT_DOMAIN ? '' : domainId} />
+              <FieldError errors={state.errors?.domainId} />
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="shortCode">{link ? 'Alias' : 'Custom alias (optional)'}</Label>
+            <Input
+              id="shortCode"
+              name="shortCode"
+              placeholder="my-link"
+              defaultValue={link?.shortCode}
+              minLength={ALIAS_MIN_LENGTH}
+              maxLength={SHORT_CODE_MAX_LENGTH}
+              aria-invalid={!!state.errors?.shortCode}
+              required={!!link}
+            />
+            <p className="text-xs text-muted-foreground">
+              {ALIAS_MIN_LENGTH}-{SHORT_CODE_MAX_LENGTH} letters, numbers, hyphens or underscores.
+            </p>
+            <FieldError errors={state.errors?.shortCode} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="tags">Tags (optional)</Label>
+            <Input
+              id="tags"
+              name="tags"
+              placeholder="campaign, q3"
+              defaultValue={link?.tags.join(', ')}
+              aria-invalid={!!state.errors?.tags}
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+            <FieldError errors={state.errors?.tags} />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid content-start gap-2">
+              <Label htmlFor="expiresAt">Expires (optional)</Label>
+              <DateTimeInput
+                id="expiresAt"
+                name="expiresAt"
+                defaultValue={link?.expiresAt}
+                aria-invalid={!!state.errors?.expiresAt}
+              />
+              <FieldError errors={state.errors?.expiresAt} />
+            </div>
+            <div className="grid content-start gap-2">
+              <Label htmlFor="maxClicks">Click limit (optional)</Label>
+              <Input
+                id="maxClicks"
+                name="maxClicks"
+                type="number"
+                min={1}
+                step={1}
+                placeholder="Unlimited"
+                defaultValue={link?.maxClicks ?? undefined}
+                aria-invalid={!!state.errors?.maxClicks}
+              />
+              {link && (
+                <p className="text-xs text-muted-foreground">
+                  {link.clickCount} {link.clickCount === 1 ? 'click' : 'clicks'} used so far
+                </p>
+              )}
+              <FieldError errors={state.errors?.maxClicks} />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="password">
+              {link?.hasPassword ? 'New password' : 'Password (optional)'}
+            </Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={link?.hasPassword ? 'Leave empty to keep the current password' : 'Anyone with the link can open it'}
+              aria-invalid={!!state.errors?.password}
+            />
+            {link?.hasPassword && (
+              <div className="flex items-center gap-2">
+                <Checkbox id="removePassword" name="removePassword" />
+                <Label htmlFor="removePassword" className="font-normal text-muted-foreground">
+                  Remove password protection
+                </Label>
+              </div>
+            )}
+            <FieldError errors={state.errors?.password} />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="notes">Notes (optional)</Label>
+            <Textarea
+              id="notes"
+              name="notes"
+              rows={3}
+              maxLength={2000}
+              placeholder="Only visible to your workspace"
+              defaultValue={link?.notes ?? undefined}
+              aria-invalid={!!state.errors?.notes}
+            />
+            <FieldError errors={state.errors?.notes} />
+          </div>
+
+          {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={pending}>
+              {pending ? 'Saving...' : link ? 'Save changes' : 'Create link'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { RestoreRevisionButton } from '@/components/dashboard/restore-revision-button'
+import type { LinkRevision, LinkRevisionAction } from '@/db/schema'
+import { describeChanges } from '@/lib/link-revisions'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+const ACTION_LABELS = {
+  created: 'Created',
+  updated: 'Edited',
+  restored: 'Restored an earlier version',
+} satisfies Record<LinkRevisionAction, string>
+
+type LinkHistoryProps = {
+  linkId: string
+  revisions: LinkRevision[] // Newest first
+  names: Map<string, string> // Clerk user ID -> display name
+  hostnames: Map<string, string> // Domain ID -> hostname
+  canEdit: boolean
+}
+
+export function LinkHistory({ linkId, revisions, names, hostnames, canEdit }: LinkHistoryProps) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>
+          Every change to this link&apos;s settings, newest first. Restoring a version puts all of its settings back
+          except tags.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <ol className="divide-y">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="flex items-start justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm">
+                    <span className="font-medium">{ACTION_LABELS[revision.action]}</span> by{' '}
+                    {names.get(revision.userId)}
+                    <span className="text-muted-foreground"> · {dateFormat.format(revision.createdAt)}</span>
+                    {index === 0 && <span className="text-muted-foreground"> · current</span>}
+                  </p>
+                  {revision.action !== 'created' && (
+                    <ul className="space-y-0.5 break-all text-sm text-muted-foreground">
+                      {describeChanges(revision.changes, hostnames).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                {canEdit && index > 0 && <RestoreRevisionButton linkId={linkId} revisionId={revision.id} />}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+import { Globe } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { EditPreviewDialog } from '@/components/dashboard/edit-preview-dialog'
+import { RefreshPreviewButton } from '@/components/dashboard/refresh-preview-button'
+import type { Link } from '@/db/schema'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+type LinkPreviewCardProps = {
+  link: Pick<
+    Link,
+    | 'id'
+    | 'url'
+    | 'previewTitle'
+    | 'previewDescription'
+    | 'previewImage'
+    | 'previewFavicon'
+    | 'previewError'
+    | 'previewFetchedAt'
+    | 'previewOverridden'
+  >
+  canEdit: boolean
+}
+
+function previewStatus(link: LinkPreviewCardProps['link']) {
+  if (link.previewOverridden) return 'Edited by hand.'
+  if (!link.previewFetchedAt) return 'Not fetched yet. This usually takes a few seconds after saving.'
+  if (link.previewError) return `Last fetch failed: ${link.previewError}.`
+  return `Fetched ${dateFormat.format(link.previewFetchedAt)}.`
+}
+
+export function LinkPreviewCard({ link, canEdit }: LinkPreviewCardProps) {
+  const hostname = new URL(link.url).hostname
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            Preview
+            {link.previewOverridden && <Badge variant="secondary">Edited</Badge>}
+          </CardTitle>
+          <CardDescription>{previewStatus(link)}</CardDescription>
+        </div>
+        {canEdit && (
+          <div className="flex items-start gap-2">
+            <EditPreviewDialog
+              id={link.id}
+              preview={{
+                title: link.previewTitle,
+                description: link.previewDescription,
+                image: link.previewImage,
+                favicon: link.previewFavicon,
+              }}
+            />
+            <RefreshPreviewButton id={link.id} />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {/* Third-party images: plain <img> with no referrer, since next/image would need every host allowlisted */}
+        <div className="flex flex-col gap-4 overflow-hidden rounded-lg border sm:flex-row">
+          {link.previewImage && (
+            <img
+              src={link.previewImage}
+              alt=""
+              referrerPolicy="no-referrer"
+              loading="lazy"
+              className="aspect-[1.91/1] w-full bg-muted object-cover sm:w-64"
+            />
+          )}
+          <div className="min-w-0 space-y-1 p-4">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {link.previewFavicon ? (
+                <img src={link.previewFavicon} alt="" referrerPolicy="no-referrer" className="h-4 w-4" />
+              ) : (
+                <Globe className="h-4 w-4" />
+              )}
+              <span className="truncate">{hostname}</span>
+            </div>
+            <p className="font-semibold">{link.previewTitle ?? hostname}</p>
+            {link.previewDescription && (
+              <p className="line-clamp-3 text-sm text-muted-foreground">{link.previewDescription}</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+import { Badge } from '@/components/ui/badge'
+import type { Link } from '@/db/schema'
+import { getLinkStatus } from '@/lib/link-status'
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+export function LinkStatusBadge({
+  link,
+}: {
+  link: Pick<Link, 'expiresAt' | 'maxClicks' | 'clickCount' | 'disabledAt' | 'disabledReason' | 'archivedAt'>
+}) {
+  const status = getLinkStatus(link)
+  const limits = [
+    link.expiresAt && `${status.state === 'expired' && status.reason === 'date' ? 'Expired' : 'Expires'} ${dateFormat.format(link.expiresAt)}`,
+    link.maxClicks !== null && `${link.clickCount}/${link.maxClicks} clicks`,
+  ].filter(Boolean)
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      {status.state === 'disabled' ? (
+        <Badge variant="destructive" title={link.disabledReason ?? undefined}>
+          Disabled
+        </Badge>
+      ) : status.state === 'archived' ? (
+        <Badge variant="outline">Archived</Badge>
+      ) : status.state === 'expired' ? (
+        <Badge variant="destructive">{status.reason === 'date' ? 'Expired' : 'Limit reached'}</Badge>
+      ) : (
+        <Badge variant="secondary">Active</Badge>
+      )}
+      {limits.length > 0 && (
+        <span className="whitespace-nowrap text-xs text-muted-foreground">{limits.join(' · ')}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { WorkspaceRole } from '@/db/schema'
+import { updateMemberRoleAction } from '@/app/dashboard/workspace/actions'
+import { WORKSPACE_ROLES } from '@/lib/workspace-roles'
+
+export function MemberRoleMenu({ userId, role }: { userId: string; role: WorkspaceRole }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleChange(value: string) {
+    const nextRole = WORKSPACE_ROLES.find((candidate) => candidate === value)
+    if (!nextRole || nextRole === role) return
+    startTransition(async () => {
+      const result = await updateMemberRoleAction(userId, nextRole)
+      setError(result.message)
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="capitalize" disabled={pending}>
+            {role} <ChevronDown className="text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuRadioGroup value={role} onValueChange={handleChange}>
+            {WORKSPACE_ROLES.map((candidate) => (
+              <DropdownMenuRadioItem key={candidate} value={candidate} className="capitalize">
+                {candidate}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { FieldError } from '@/components/dashboard/field-error'
+import { saveProfileAction } from '@/app/dashboard/profile/actions'
+import type { Profile } from '@/db/schema'
+
+export function ProfileForm({ profile, defaultTitle }: { profile: Profile | null; defaultTitle: string }) {
+  const [state, formAction, pending] = useActionState(saveProfileAction, {})
+
+  return (
+    <form action={formAction} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="profile-handle">Handle</Label>
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-sm text-muted-foreground">/u/</span>
+          <Input
+            id="profile-handle"
+            name="handle"
+            placeholder="acme"
+            defaultValue={profile?.handle}
+            maxLength={30}
+            aria-invalid={!!state.errors?.handle}
+            required
+          />
+        </div>
+        <FieldError errors={state.errors?.handle} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="profile-title">Title</Label>
+        <Input
+          id="profile-title"
+          name="title"
+          defaultValue={profile?.title ?? defaultTitle}
+          maxLength={100}
+          aria-invalid={!!state.errors?.title}
+          required
+        />
+        <FieldError errors={state.errors?.title} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="profile-bio">Bio</Label>
+        <Textarea
+          id="profile-bio"
+          name="bio"
+          rows={3}
+          placeholder="A line or two about who you are"
+          defaultValue={profile?.bio ?? undefined}
+          maxLength={300}
+          aria-invalid={!!state.errors?.bio}
+        />
+        <FieldError errors={state.errors?.bio} />
+      </div>
+
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+      {state.success && <p className="text-sm text-muted-foreground">Saved.</p>}
+      <div>
+        <Button type="submit" disabled={pending}>
+          {pending ? 'Saving...' : profile ? 'Save' : 'Create page'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { moveProfileLinkAction, removeProfileLinkAction } from '@/app/dashboard/profile/actions'
+
+type ProfileLinkActionsProps = {
+  linkId: string
+  shortCode: string
+  first: boolean
+  last: boolean
+}
+
+// Reordering and removal are one click to undo, so there is no confirmation
+export function ProfileLinkActions({ linkId, shortCode, first, last }: ProfileLinkActionsProps) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function run(action: () => Promise<{ success?: boolean; message?: string }>) {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await action()
+      if (!result.success) setError(result.message ?? 'Something went wrong')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => run(() => moveProfileLinkAction(linkId, 'up'))}
+          disabled={pending || first}
+          aria-label={`Move /${shortCode} up`}
+          title="Move up"
+        >
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => run(() => moveProfileLinkAction(linkId, 'down'))}
+          disabled={pending || last}
+          aria-label={`Move /${shortCode} down`}
+          title="Move down"
+        >
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => run(() => removeProfileLinkAction(linkId))}
+          disabled={pending}
+          aria-label={`Remove /${shortCode} from the profile page`}
+          title="Remove from the page"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { ListMinus, ListPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { addProfileLinkAction, removeProfileLinkAction } from '@/app/dashboard/profile/actions'
+
+export function ProfileLinkToggle({ linkId, listed }: { linkId: string; listed: boolean }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleClick() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await (listed ? removeProfileLinkAction : addProfileLinkAction)(linkId)
+      if (!result.success) setError(result.message ?? 'Something went wrong')
+    })
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div>
+        <Button variant="outline" onClick={handleClick} disabled={pending}>
+          {listed ? <ListMinus /> : <ListPlus />}
+          {listed ? 'Remove from profile page' : 'Add to profile page'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
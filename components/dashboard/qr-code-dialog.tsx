@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, QrCode } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  QR_ERROR_LEVELS,
+  QR_FORMATS,
+  QR_SIZES,
+  QR_THEMES,
+  qrOptionsSchema,
+  type QrTheme,
+} from '@/lib/qr-options'
+
+function OptionGroup<T extends string | number>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string
+  options: readonly T[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-1">
+        {options.map((option) => (
+          <Button
+            key={option}
+            type="button"
+            size="sm"
+            variant={option === value ? 'default' : 'outline'}
+            className="capitalize"
+            onClick={() => onChange(option)}
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// domain: the link's custom domain hostname, if it has one
+export function QrCodeDialog({ shortCode, domain }: { shortCode: string; domain?: string | null }) {
+  const [size, setSize] = useState<(typeof QR_SIZES)[number]>(512)
+  const [level, setLevel] = useState<(typeof QR_ERROR_LEVELS)[number]>('M')
+  const [theme, setTheme] = useState<QrTheme>('light')
+  const [customColors, setCustomColors] = useState(false)
+  const [foreground, setForeground] = useState<string>(QR_THEMES.light.foreground)
+  const [background, setBackground] = useState<string>(QR_THEMES.light.background)
+
+  const params: Record<string, string> = { size: String(size), level, theme }
+  if (customColors) {
+    params.fg = foreground
+    params.bg = background
+  }
+  // Same validation as the route, so unscannable colors are caught before requesting
+  const validation = qrOptionsSchema.safeParse(params)
+  const colorError = validation.success ? undefined : validation.error.issues[0]?.message
+
+  function getQrUrl(extra: Record<string, string>) {
+    return `/api/qr/${shortCode}?${new URLSearchParams({ ...params, ...(domain && { domain }), ...extra })}`
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={`QR code for /${shortCode}`}>
+          <QrCode className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>QR code for /{shortCode}</DialogTitle>
+          <DialogDescription>
+            Scanning it opens the short link, so it keeps working if you change the destination.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-[200px_1fr]">
+          <div className="flex aspect-square items-center justify-center rounded-md border bg-muted/30 p-2">
+            {colorError ? (
+              <p className="text-center text-sm text-destructive">{colorError}</p>
+            ) : (
+              <img src={getQrUrl({ format: 'svg' })} alt={`QR code for /${shortCode}`} className="h-full w-full" />
+            )}
+          </div>
+
+          <div className="grid gap-4">
+            <OptionGroup label="Size (px)" options={QR_SIZES} value={size} onChange={setSize} />
+            <OptionGroup label="Error correction" options={QR_ERROR_LEVELS} value={level} onChange={setLevel} />
+            <OptionGroup
+              label="Colors"
+              options={Object.keys(QR_THEMES) as QrTheme[]}
+              value={theme}
+              onChange={(nextTheme) => {
+                setTheme(nextTheme)
+                setForeground(QR_THEMES[nextTheme].foreground)
+                setBackground(QR_THEMES[nextTheme].background)
+              }}
+            />
+            <div className="grid gap-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`qr-custom-${shortCode}`}
+                  checked={customColors}
+                  onCheckedChange={(checked) => setCustomColors(checked === true)}
+                />
+                <Label htmlFor={`qr-custom-${shortCode}`} className="font-normal">Custom colors</Label>
+              </div>
+              {customColors && (
+                <div className="flex gap-4">
+                  <Label className="flex items-center gap-2 font-normal">
+                    <Input
+                      type="color"
+                      value={foreground}
+                      onChange={(event) => setForeground(event.target.value)}
+                      className="h-8 w-10 cursor-pointer p-1"
+                    />
+                    Foreground
+                  </Label>
+                  <Label className="flex items-center gap-2 font-normal">
+                    <Input
+                      type="color"
+                      value={background}
+                      onChange={(event) => setBackground(event.target.value)}
+                      className="h-8 w-10 cursor-pointer p-1"
+                    />
+                    Background
+                  </Label>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {QR_FORMATS.map((format) =>
+            colorError ? (
+              <Button key={format} variant="outline" disabled>
+                <Download /> {format.toUpperCase()}
+              </Button>
+            ) : (
+              <Button key={format} variant="outline" asChild>
+                <a href={getQrUrl({ format, download: '1' })} download>
+                  <Download /> {format.toUpperCase()}
+                </a>
+              </Button>
+            )
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
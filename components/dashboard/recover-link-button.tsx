@@ -0,0 +1,35 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { recoverLinkAction } from '@/app/dashboard/actions'
+
+export function RecoverLinkButton({ id, shortCode }: { id: string; shortCode: string }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleRecover() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await recoverLinkAction(id)
+      if (!result.success) setError(result.message ?? 'Could not restore the link')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleRecover}
+        disabled={pending}
+        aria-label={`Restore /${shortCode}`}
+        title="Restore"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { redeliverWebhookAction } from '@/app/dashboard/webhooks/actions'
+
+export function RedeliverWebhookButton({ endpointId, deliveryId }: { endpointId: string; deliveryId: string }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleRedeliver() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await redeliverWebhookAction(endpointId, deliveryId)
+      if (!result.success) setError(result.message ?? 'Could not redeliver this event')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleRedeliver} disabled={pending}>
+        <Send /> {pending ? 'Sending...' : 'Redeliver'}
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
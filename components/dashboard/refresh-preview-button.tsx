@@ -0,0 +1,28 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { refreshLinkPreviewAction } from '@/app/dashboard/actions'
+
+export function RefreshPreviewButton({ id }: { id: string }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleRefresh() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await refreshLinkPreviewAction(id)
+      if (!result.success) setError(result.message ?? 'Could not refresh the preview')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleRefresh} disabled={pending}>
+        <RefreshCw className={pending ? 'animate-spin' : undefined} /> {pending ? 'Refreshing...' : 'Refresh'}
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { removeMemberAction } from '@/app/dashboard/workspace/actions'
+
+// Doubles as "Leave workspace" when the member is the current user
+export function RemoveMemberButton({
+  userId,
+  name,
+  self,
+}: {
+  userId: string
+  name: string
+  self: boolean
+}) {
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleRemove(event: React.MouseEvent) {
+    // Keep the dialog open until the server action finishes
+    event.preventDefault()
+    startTransition(async () => {
+      const result = await removeMemberAction(userId)
+      if (result.success) {
+        setOpen(false)
+      } else {
+        setError(result.message)
+      }
+    })
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          {self ? 'Leave' : 'Remove'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{self ? 'Leave this workspace?' : `Remove ${name}?`}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {self
+              ? 'You will lose access to its links until an owner adds you again.'
+              : 'They will lose access to the workspace. Links they created stay in the workspace.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            onClick={handleRemove}
+            disabled={pending}
+          >
+            {pending ? 'Removing...' : self ? 'Leave' : 'Remove'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FieldError } from '@/components/dashboard/field-error'
+import { renameWorkspaceAction } from '@/app/dashboard/workspace/actions'
+
+export function RenameWorkspaceForm({ name }: { name: string }) {
+  const [state, formAction, pending] = useActionState(renameWorkspaceAction, {})
+
+  return (
+    <form action={formAction} className="grid gap-2">
+      <Label htmlFor="rename-workspace">Name</Label>
+      <div className="flex gap-2">
+        <Input
+          id="rename-workspace"
+          name="name"
+          defaultValue={name}
+          maxLength={100}
+          aria-invalid={!!state.errors?.name}
+          required
+        />
+        <Button type="submit" variant="outline" disabled={pending}>
+          {pending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+      <FieldError errors={state.errors?.name} />
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { restoreLinkRevisionAction } from '@/app/dashboard/actions'
+
+export function RestoreRevisionButton({ linkId, revisionId }: { linkId: string; revisionId: string }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleRestore() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await restoreLinkRevisionAction(linkId, revisionId)
+      if (!result.success) setError(result.message ?? 'Could not restore this version')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button variant="outline" size="sm" onClick={handleRestore} disabled={pending}>
+        <RotateCcw /> {pending ? 'Restoring...' : 'Restore'}
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,376 @@
+'use client'
+
+import { useActionState, useMemo, useState } from 'react'
+import { nanoid } from 'nanoid'
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toLocalInputValue } from '@/components/dashboard/date-time-input'
+import { RoutingSimulator } from '@/components/dashboard/routing-simulator'
+import {
+  formatRoutingRuleIssues,
+  MAX_DESTINATION_WEIGHT,
+  MAX_ROUTING_RULES,
+  MAX_RULE_DESTINATIONS,
+  OPERATING_SYSTEM_LABELS,
+  ROUTING_DEVICES,
+  routingRulesSchema,
+  type RoutingRule,
+} from '@/lib/routing-rules'
+import { OPERATING_SYSTEMS, type OperatingSystem } from '@/lib/user-agent'
+import { updateRoutingRulesAction, type RoutingRulesFormState } from '@/app/dashboard/actions'
+
+type RoutingDevice = (typeof ROUTING_DEVICES)[number]
+
+// Form-friendly copy of a rule: lists as comma-separated text, times as
+// datetime-local values, weights as typed
+type DraftDestination = { key: string; url: string; weight: string }
+
+type DraftRule = {
+  key: string
+  name: string
+  os: OperatingSystem[]
+  device: RoutingDevice[]
+  country: string
+  language: string
+  startsAt: string
+  endsAt: string
+  destinations: DraftDestination[]
+}
+
+function newDestination(url = ''): DraftDestination {
+  return { key: nanoid(), url, weight: '1' }
+}
+
+function newRule(): DraftRule {
+  return {
+    key: nanoid(),
+    name: '',
+    os: [],
+    device: [],
+    country: '',
+    language: '',
+    startsAt: '',
+    endsAt: '',
+    destinations: [newDestination()],
+  }
+}
+
+function toDraft(rule: RoutingRule): DraftRule {
+  const { conditions } = rule
+  return {
+    key: nanoid(),
+    name: rule.name ?? '',
+    os: conditions.os ?? [],
+    device: conditions.device ?? [],
+    country: conditions.country?.join(', ') ?? '',
+    language: conditions.language?.join(', ') ?? '',
+    startsAt: conditions.startsAt ? toLocalInputValue(new Date(conditions.startsAt)) : '',
+    endsAt: conditions.endsAt ? toLocalInputValue(new Date(conditions.endsAt)) : '',
+    destinations: rule.destinations.map(({ url, weight }) => ({ key: nanoid(), url, weight: String(weight) })),
+  }
+}
+
+function splitList(value: string) {
+  const items = value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
+
+// Invalid values pass through as typed so validation can name them
+function toIsoString(value: string) {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toISOString()
+}
+
+function toRuleInput(draft: DraftRule) {
+  return {
+    name: draft.name.trim() || undefined,
+    conditions: {
+      os: draft.os.length > 0 ? draft.os : undefined,
+      device: draft.device.length > 0 ? draft.device : undefined,
+      country: splitList(draft.country),
+      language: splitList(draft.language),
+      startsAt: toIsoString(draft.startsAt),
+      endsAt: toIsoString(draft.endsAt),
+    },
+    destinations: draft.destinations.map(({ url, weight }) => ({ url, weight: Number(weight) })),
+  }
+}
+
+function toggle<T>(values: T[], value: T, checked: boolean) {
+  return checked ? [...values, value] : values.filter((item) => item !== value)
+}
+
+type RoutingRulesEditorProps = {
+  linkId: string
+  fallbackUrl: string
+  rules: RoutingRule[]
+  canEdit: boolean
+}
+
+export function RoutingRulesEditor({ linkId, fallbackUrl, rules, canEdit }: RoutingRulesEditorProps) {
+  const [drafts, setDrafts] = useState(() => rules.map(toDraft))
+  const [state, formAction, pending] = useActionState(
+    (prevState: RoutingRulesFormState, formData: FormData) => updateRoutingRulesAction(linkId, prevState, formData),
+    {}
+  )
+
+  const inputs = useMemo(() => drafts.map(toRuleInput), [drafts])
+  const parsed = useMemo(() => routingRulesSchema.safeParse(inputs), [inputs])
+
+  function updateRule(key: string, changes: Partial<DraftRule>) {
+    setDrafts((current) => current.map((rule) => (rule.key === key ? { ...rule, ...changes } : rule)))
+  }
+
+  function updateDestination(rule: DraftRule, key: string, changes: Partial<DraftDestination>) {
+    updateRule(rule.key, {
+      destinations: rule.destinations.map((destination) =>
+        destination.key === key ? { ...destination, ...changes } : destination
+      ),
+    })
+  }
+
+  function moveRule(index: number, offset: number) {
+    setDrafts((current) => {
+      const next = [...current]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + offset, 0, rule)
+      return next
+    })
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+      <form action={formAction} className="space-y-4">
+        <input type="hidden" name="rules" value={JSON.stringify(inputs)} />
+        <fieldset disabled={!canEdit || pending} className="space-y-4">
+          {drafts.length === 0 && (
+            <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+              No rules yet. Every visitor goes to the link&apos;s URL.
+            </p>
+          )}
+
+          {drafts.map((rule, index) => {
+            const totalWeight = rule.destinations.reduce((sum, { weight }) => sum + (Number(weight) || 0), 0)
+
+            return (
+              <div key={rule.key} className="space-y-4 rounded-lg border p-4">
+                <div className="flex items-center gap-2">
+                  <span className="shrink-0 text-sm font-semibold">Rule {index + 1}</span>
+                  <Input
+                    value={rule.name}
+                    onChange={(event) => updateRule(rule.key, { name: event.target.value })}
+                    placeholder="Name (optional)"
+                    aria-label={`Rule ${index + 1} name`}
+                    maxLength={60}
+                    className="h-8"
+                  />
+                  {canEdit && (
+                    <div className="flex shrink-0">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move rule ${index + 1} up`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === drafts.length - 1}
+                        aria-label={`Move rule ${index + 1} down`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDrafts((current) => current.filter(({ key }) => key !== rule.key))}
+                        aria-label={`Delete rule ${index + 1}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="grid gap-2">
+                    <Label>Operating system</Label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {OPERATING_SYSTEMS.map((os) => (
+                        <label key={os} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={rule.os.includes(os)}
+                            onCheckedChange={(checked) => updateRule(rule.key, { os: toggle(rule.os, os, checked === true) })}
+                          />
+                          {OPERATING_SYSTEM_LABELS[os]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Device</Label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {ROUTING_DEVICES.map((device) => (
+                        <label key={device} className="flex items-center gap-1.5 text-sm capitalize">
+                          <Checkbox
+                            checked={rule.device.includes(device)}
+                            onCheckedChange={(checked) =>
+                              updateRule(rule.key, { device: toggle(rule.device, device, checked === true) })
+                            }
+                          />
+                          {device}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor={`${rule.key}-country`}>Countries</Label>
+                    <Input
+                      id={`${rule.key}-country`}
+                      value={rule.country}
+                      onChange={(event) => updateRule(rule.key, { country: event.target.value })}
+                      placeholder="US, CA"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor={`${rule.key}-language`}>Languages</Label>
+                    <Input
+                      id={`${rule.key}-language`}
+                      value={rule.language}
+                      onChange={(event) => updateRule(rule.key, { language: event.target.value })}
+                      placeholder="en, de"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor={`${rule.key}-starts`}>From</Label>
+                    <Input
+                      id={`${rule.key}-starts`}
+                      type="datetime-local"
+                      value={rule.startsAt}
+                      onChange={(event) => updateRule(rule.key, { startsAt: event.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor={`${rule.key}-ends`}>Until</Label>
+                    <Input
+                      id={`${rule.key}-ends`}
+                      type="datetime-local"
+                      value={rule.endsAt}
+                      onChange={(event) => updateRule(rule.key, { endsAt: event.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Empty conditions match everyone. Times are in your local time zone.
+                </p>
+
+                <div className="grid gap-2">
+                  <Label>Destinations</Label>
+                  {rule.destinations.map((destination, destinationIndex) => (
+                    <div key={destination.key} className="flex items-center gap-2">
+                      <Input
+                        type="url"
+                        value={destination.url}
+                        onChange={(event) => updateDestination(rule, destination.key, { url: event.target.value })}
+                        placeholder="https://example.com/landing-page"
+                        aria-label={`Rule ${index + 1} destination ${destinationIndex + 1}`}
+                      />
+                      {rule.destinations.length > 1 && (
+                        <>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_DESTINATION_WEIGHT}
+                            value={destination.weight}
+                            onChange={(event) => updateDestination(rule, destination.key, { weight: event.target.value })}
+                            aria-label={`Rule ${index + 1} destination ${destinationIndex + 1} weight`}
+                            className="w-20"
+                          />
+                          <span className="w-12 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                            {totalWeight > 0 ? Math.round(((Number(destination.weight) || 0) / totalWeight) * 100) : 0}%
+                          </span>
+                          {canEdit && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() =>
+                                updateRule(rule.key, {
+                                  destinations: rule.destinations.filter(({ key }) => key !== destination.key),
+                                })
+                              }
+                              aria-label={`Remove destination ${destinationIndex + 1}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {canEdit && rule.destinations.length < MAX_RULE_DESTINATIONS && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="justify-self-start"
+                      onClick={() => updateRule(rule.key, { destinations: [...rule.destinations, newDestination()] })}
+                    >
+                      <Plus /> Add destination for an A/B split
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </fieldset>
+
+        {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+        {state.errors && (
+          <ul className="list-inside list-disc text-sm text-destructive">
+            {state.errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDrafts((current) => [...current, newRule()])}
+              disabled={pending || drafts.length >= MAX_ROUTING_RULES}
+            >
+              <Plus /> Add rule
+            </Button>
+            <Button type="submit" disabled={pending}>
+              {pending ? 'Saving...' : 'Save rules'}
+            </Button>
+            {state.success && !pending && <p className="text-sm text-muted-foreground">Saved.</p>}
+          </div>
+        )}
+      </form>
+
+      <RoutingSimulator
+        fallbackUrl={fallbackUrl}
+        rules={parsed.success ? parsed.data : null}
+        issues={parsed.success ? [] : formatRoutingRuleIssues(parsed.error)}
+      />
+    </div>
+  )
+}
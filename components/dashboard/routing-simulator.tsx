@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import { FlaskConical } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  findMatchingRule,
+  getDestinationShares,
+  OPERATING_SYSTEM_LABELS,
+  type RoutingRule,
+  type Visitor,
+} from '@/lib/routing-rules'
+import { OPERATING_SYSTEMS, type OperatingSystem } from '@/lib/user-agent'
+import type { DeviceClass } from '@/db/schema'
+
+const DEVICES: DeviceClass[] = ['desktop', 'mobile', 'tablet', 'unknown']
+
+type RoutingSimulatorProps = {
+  fallbackUrl: string
+  // The editor's current rules, saved or not; null while they don't validate
+  rules: RoutingRule[] | null
+  issues: string[]
+}
+
+// Evaluates the rules with the same code as the redirect, for a made-up visitor
+export function RoutingSimulator({ fallbackUrl, rules, issues }: RoutingSimulatorProps) {
+  const [os, setOs] = useState<OperatingSystem>('ios')
+  const [device, setDevice] = useState<DeviceClass>('mobile')
+  const [country, setCountry] = useState('US')
+  const [language, setLanguage] = useState('en')
+  // Empty means now
+  const [time, setTime] = useState('')
+
+  const visitor: Visitor = {
+    os,
+    device,
+    country: country.trim().toUpperCase() || null,
+    language: language.trim().toLowerCase() || null,
+    now: time ? new Date(time) : new Date(),
+  }
+  const ruleIndex = rules && findMatchingRule(rules, visitor)
+
+  return (
+    <div className="h-fit space-y-4 rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center gap-2 font-semibold">
+        <FlaskConical className="h-4 w-4" /> Test the rules
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="grid gap-1.5">
+          <Label htmlFor="simulate-os">OS</Label>
+          <Select value={os} onValueChange={(value) => setOs(value as OperatingSystem)}>
+            <SelectTrigger id="simulate-os">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPERATING_SYSTEMS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {OPERATING_SYSTEM_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="simulate-device">Device</Label>
+          <Select value={device} onValueChange={(value) => setDevice(value as DeviceClass)}>
+            <SelectTrigger id="simulate-device" className="capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEVICES.map((value) => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="simulate-country">Country</Label>
+          <Input id="simulate-country" value={country} onChange={(event) => setCountry(event.target.value)} maxLength={2} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="simulate-language">Language</Label>
+          <Input id="simulate-language" value={language} onChange={(event) => setLanguage(event.target.value)} maxLength={3} />
+        </div>
+        <div className="col-span-2 grid gap-1.5">
+          <Label htmlFor="simulate-time">Time (empty for now)</Label>
+          <Input id="simulate-time" type="datetime-local" value={time} onChange={(event) => setTime(event.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t pt-4 text-sm">
+        {!rules ? (
+          <>
+            <p className="font-medium text-destructive">Fix these to test the rules:</p>
+            <ul className="list-inside list-disc text-muted-foreground">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </>
+        ) : ruleIndex === null ? (
+          <>
+            <p className="font-medium">No rule matches</p>
+            <p className="break-all text-muted-foreground">Goes to the link&apos;s URL: {fallbackUrl}</p>
+          </>
+        ) : (
+          <>
+            <p className="font-medium">
+              Matches rule {ruleIndex + 1}
+              {rules[ruleIndex].name && ` (${rules[ruleIndex].name})`}
+            </p>
+            <ul className="space-y-1">
+              {getDestinationShares(rules[ruleIndex]).map(({ url, share }, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="w-10 shrink-0 text-right tabular-nums text-muted-foreground">
+                    {Math.round(share * 100)}%
+                  </span>
+                  <span className="break-all">{url}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
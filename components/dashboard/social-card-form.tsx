@@ -0,0 +1,93 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { FieldError } from '@/components/dashboard/field-error'
+import { updateSocialCardAction, type SocialCardFormState } from '@/app/dashboard/actions'
+
+type SocialCardFormProps = {
+  id: string
+  values: {
+    socialTitle: string | null
+    socialDescription: string | null
+    socialImage: string | null
+    showSocialCard: boolean
+  }
+  // What unfurlers get for fields left empty
+  fallback: { title: string; description: string | null; image: string | null }
+}
+
+export function SocialCardForm({ id, values, fallback }: SocialCardFormProps) {
+  const [state, formAction, pending] = useActionState(
+    (prevState: SocialCardFormState, formData: FormData) => updateSocialCardAction(id, prevState, formData),
+    {}
+  )
+
+  return (
+    <form action={formAction} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="socialTitle">Title</Label>
+        <Input
+          id="socialTitle"
+          name="socialTitle"
+          placeholder={fallback.title}
+          defaultValue={values.socialTitle ?? undefined}
+          maxLength={200}
+          aria-invalid={!!state.errors?.socialTitle}
+        />
+        <FieldError errors={state.errors?.socialTitle} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="socialDescription">Description</Label>
+        <Textarea
+          id="socialDescription"
+          name="socialDescription"
+          rows={3}
+          placeholder={fallback.description ?? undefined}
+          defaultValue={values.socialDescription ?? undefined}
+          maxLength={500}
+          aria-invalid={!!state.errors?.socialDescription}
+        />
+        <FieldError errors={state.errors?.socialDescription} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="socialImage">Image URL</Label>
+        <Input
+          id="socialImage"
+          name="socialImage"
+          type="url"
+          placeholder={fallback.image ?? 'https://example.com/card.png'}
+          defaultValue={values.socialImage ?? undefined}
+          aria-invalid={!!state.errors?.socialImage}
+        />
+        <p className="text-xs text-muted-foreground">
+          Empty fields use the preview fetched from the destination. Large cards look best at 1200 x 630.
+        </p>
+        <FieldError errors={state.errors?.socialImage} />
+      </div>
+
+      <div className="flex items-start gap-2">
+        <Checkbox id="showSocialCard" name="showSocialCard" defaultChecked={values.showSocialCard} className="mt-0.5" />
+        <Label htmlFor="showSocialCard" className="font-normal leading-snug text-muted-foreground">
+          Also show the card to browsers before redirecting. Crawlers always get it; turn this on for
+          unfurlers that identify as a regular browser.
+        </Label>
+      </div>
+
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={pending}>
+          {pending ? 'Saving...' : 'Save card'}
+        </Button>
+        {state.success && !pending && <p className="text-sm text-muted-foreground">Saved.</p>}
+      </div>
+    </form>
+  )
+}
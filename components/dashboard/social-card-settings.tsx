@@ -0,0 +1,58 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { SocialCardForm } from '@/components/dashboard/social-card-form'
+import type { Link } from '@/db/schema'
+import { getSocialCard, hasSocialCard } from '@/lib/social-card'
+
+type SocialCardSettingsProps = {
+  link: Link
+  canEdit: boolean
+}
+
+export function SocialCardSettings({ link, canEdit }: SocialCardSettingsProps) {
+  const card = getSocialCard(link)
+  const fallback = getSocialCard({ ...link, socialTitle: null, socialDescription: null, socialImage: null })
+  const hostname = new URL(link.url).hostname
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Social card</CardTitle>
+        <CardDescription>
+          {hasSocialCard(link)
+            ? 'What Slack, Twitter and other apps show when someone pastes this short link.'
+            : 'Cards are only shown while the link is active and not password protected.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        {canEdit && (
+          <SocialCardForm
+            id={link.id}
+            values={{
+              socialTitle: link.socialTitle,
+              socialDescription: link.socialDescription,
+              socialImage: link.socialImage,
+              showSocialCard: link.showSocialCard,
+            }}
+            fallback={fallback}
+          />
+        )}
+        <div className="h-fit overflow-hidden rounded-lg border">
+          {card.image && (
+            <img
+              src={card.image}
+              alt=""
+              referrerPolicy="no-referrer"
+              loading="lazy"
+              className="aspect-[1.91/1] w-full bg-muted object-cover"
+            />
+          )}
+          <div className="space-y-1 p-4">
+            <p className="text-xs uppercase text-muted-foreground">{hostname}</p>
+            <p className="font-semibold">{card.title}</p>
+            {card.description && <p className="line-clamp-3 text-sm text-muted-foreground">{card.description}</p>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
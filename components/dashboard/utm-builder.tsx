@@ -0,0 +1,141 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FieldError } from '@/components/dashboard/field-error'
+import { applyUtmValues, EMPTY_UTM_VALUES, getUtmValues, UTM_FIELD_LABELS, UTM_FIELDS } from '@/lib/utm'
+import type { UtmPreset } from '@/db/schema'
+import { createUtmPresetAction, deleteUtmPresetAction, type UtmPresetState } from '@/app/dashboard/actions'
+
+const UTM_PLACEHOLDERS = {
+  source: 'newsletter',
+  medium: 'email',
+  campaign: 'spring_launch',
+  term: 'running shoes',
+  content: 'header_link',
+}
+
+type UtmBuilderProps = {
+  url: string
+  onChange: (url: string) => void
+  presets: Pick<UtmPreset, 'id' | 'name' | 'source' | 'medium' | 'campaign' | 'term' | 'content'>[]
+}
+
+// Reads and writes the utm_* parameters of the destination URL itself, so
+// hand-edited URLs and the fields never disagree. The inputs have no name:
+// only the composed URL is submitted.
+export function UtmBuilder({ url, onChange, presets }: UtmBuilderProps) {
+  const values = getUtmValues(url)
+  const [presetId, setPresetId] = useState('')
+  const [presetName, setPresetName] = useState('')
+  const [state, setState] = useState<UtmPresetState>({})
+  const [pending, startTransition] = useTransition()
+
+  const selected = presets.find((preset) => preset.id === presetId)
+  const current = values ?? EMPTY_UTM_VALUES
+  const hasValues = UTM_FIELDS.some((field) => current[field])
+
+  function applyPreset(id: string) {
+    setPresetId(id)
+    const preset = presets.find((item) => item.id === id)
+    if (preset) onChange(applyUtmValues(url, preset))
+  }
+
+  function savePreset() {
+    startTransition(async () => {
+      const result = await createUtmPresetAction({ name: presetName, ...current })
+      setState(result)
+      if (result.success) setPresetName('')
+    })
+  }
+
+  function deletePreset() {
+    if (!selected || !confirm(`Delete the preset "${selected.name}"?`)) return
+    startTransition(async () => {
+      const result = await deleteUtmPresetAction(selected.id)
+      setState(result)
+      if (result.success) setPresetId('')
+    })
+  }
+
+  return (
+    <fieldset className="grid gap-3 rounded-md border p-3" disabled={!values || pending}>
+      <div className="flex items-center justify-between gap-2">
+        <legend className="text-sm font-medium">Campaign tags (UTM)</legend>
+        {presets.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Select value={presetId} onValueChange={applyPreset}>
+              <SelectTrigger aria-label="Apply a preset" className="h-8 max-w-[160px]">
+                <SelectValue placeholder="Apply a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && (
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={deletePreset}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete preset</span>
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!values && <p className="text-xs text-muted-foreground">Enter a valid destination URL to add tags.</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {UTM_FIELDS.map((field) => (
+          <div key={field} className="grid gap-1.5">
+            <Label htmlFor={`utm-${field}`} className="text-xs">
+              {UTM_FIELD_LABELS[field]}
+            </Label>
+            <Input
+              id={`utm-${field}`}
+              value={current[field]}
+              placeholder={UTM_PLACEHOLDERS[field]}
+              maxLength={100}
+              onChange={(event) => onChange(applyUtmValues(url, { [field]: event.target.value }))}
+            />
+            <FieldError errors={state.errors?.[field]} />
+          </div>
+        ))}
+      </div>
+
+      {hasValues && (
+        <div className="grid gap-1.5">
+          <div className="flex gap-2">
+            <Input
+              aria-label="Preset name"
+              placeholder="Preset name"
+              value={presetName}
+              maxLength={50}
+              onChange={(event) => setPresetName(event.target.value)}
+              onKeyDown={(event) => {
+                // Enter would submit the link form
+                if (event.key === 'Enter') {
+                  event.preventDefault()
+                  savePreset()
+                }
+              }}
+            />
+            <Button type="button" variant="outline" onClick={savePreset}>
+              {pending ? 'Saving...' : 'Save as preset'}
+            </Button>
+          </div>
+          <FieldError errors={state.errors?.name} />
+        </div>
+      )}
+
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+    </fieldset>
+  )
+}
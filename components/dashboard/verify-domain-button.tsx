@@ -0,0 +1,29 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { verifyDomainAction } from '@/app/dashboard/domains/actions'
+
+export function VerifyDomainButton({ id, verified }: { id: string; verified: boolean }) {
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+
+  function handleVerify() {
+    setError(undefined)
+    startTransition(async () => {
+      const result = await verifyDomainAction(id)
+      if (!result.success) setError(result.message ?? 'Could not check the domain')
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Button variant="outline" size="sm" onClick={handleVerify} disabled={pending}>
+        <RefreshCw className={pending ? 'animate-spin' : undefined} />{' '}
+        {pending ? 'Checking...' : verified ? 'Check again' : 'Verify'}
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
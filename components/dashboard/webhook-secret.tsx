@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Eye, EyeOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+export function WebhookSecret({ secret }: { secret: string }) {
+  const [revealed, setRevealed] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        value={revealed ? secret : '•'.repeat(secret.length)}
+        readOnly
+        aria-label="Signing secret"
+        className="font-mono"
+        onFocus={(event) => event.target.select()}
+      />
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label={revealed ? 'Hide secret' : 'Show secret'}
+        onClick={() => setRevealed((value) => !value)}
+      >
+        {revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label="Copy secret"
+        onClick={async () => {
+          await navigator.clipboard.writeText(secret)
+          setCopied(true)
+        }}
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { ChevronsUpDown, Plus, Settings, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { CreateWorkspaceDialog } from '@/components/dashboard/create-workspace-dialog'
+import { switchWorkspaceAction } from '@/app/dashboard/workspace/actions'
+import type { WorkspaceAccess } from '@/lib/workspaces'
+
+export function WorkspaceSwitcher({
+  workspaces,
+  activeId,
+}: {
+  workspaces: WorkspaceAccess[]
+  activeId: string
+}) {
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string>()
+  const [pending, startTransition] = useTransition()
+  const active = workspaces.find((workspace) => workspace.id === activeId)
+
+  function handleSwitch(workspaceId: string) {
+    if (workspaceId === activeId) return
+    startTransition(async () => {
+      const result = await switchWorkspaceAction(workspaceId)
+      setError(result.message)
+    })
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={pending}>
+            <Users />
+            <span className="max-w-[200px] truncate">{active?.name}</span>
+            <span className="text-xs capitalize text-muted-foreground">{active?.role}</span>
+            <ChevronsUpDown className="text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={activeId} onValueChange={handleSwitch}>
+            {workspaces.map((workspace) => (
+              <DropdownMenuRadioItem key={workspace.id} value={workspace.id}>
+                <span className="truncate">{workspace.name}</span>
+                <span className="ml-auto pl-2 text-xs capitalize text-muted-foreground">
+                  {workspace.role}
+                </span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <Link href="/dashboard/workspace">
+              <Settings /> Workspace settings
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setCreating(true)}>
+            <Plus /> New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <CreateWorkspaceDialog open={creating} onOpenChange={setCreating} />
+    </div>
+  )
+}
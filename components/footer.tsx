@@ -111,6 +111,9 @@ export function Footer() {
             <Link href="/cookies" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
               Cookie Policy
             </Link>
+            <Link href="/report" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+              Report Abuse
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,34 @@
+import Link from 'next/link'
+import type { LucideIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+
+type LinkMessageProps = {
+  icon: LucideIcon
+  title: string
+  description: React.ReactNode
+  children?: React.ReactNode
+}
+
+// Full-page card shown on a short-link route instead of redirecting
+export function LinkMessage({ icon: Icon, title, description, children }: LinkMessageProps) {
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center bg-background px-4 py-12">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader className="items-center">
+          <div className="mb-2 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10">
+            <Icon className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        {children && <CardContent>{children}</CardContent>}
+        <CardFooter className="justify-center">
+          <Button variant={children ? 'ghost' : 'default'} asChild>
+            <Link href="/">Go to homepage</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useActionState } from 'react'
+import { CheckCircle2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { FieldError } from '@/components/dashboard/field-error'
+import { reportLinkAction } from '@/app/report/actions'
+
+export function ReportLinkForm({
+  defaultLink,
+  reasons,
+}: {
+  defaultLink?: string
+  reasons: Record<string, string>
+}) {
+  const [state, formAction, pending] = useActionState(reportLinkAction, {})
+
+  if (state.success) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-4 text-center">
+        <CheckCircle2 className="h-8 w-8 text-primary" />
+        <p className="font-medium">Thanks, your report was sent</p>
+        <p className="text-sm text-muted-foreground">
+          A moderator will review the link and disable it if it breaks our rules.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form action={formAction} className="grid gap-4 text-left">
+      <div className="grid gap-2">
+        <Label htmlFor="link">Short link</Label>
+        <Input
+          id="link"
+          name="link"
+          placeholder="https://short.example/abc123"
+          defaultValue={defaultLink}
+          aria-invalid={!!state.errors?.link}
+          required
+        />
+        <FieldError errors={state.errors?.link} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="reason">What is wrong with it?</Label>
+        <Select name="reason" required>
+          <SelectTrigger id="reason" aria-invalid={!!state.errors?.reason}>
+            <SelectValue placeholder="Pick a reason" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(reasons).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <FieldError errors={state.errors?.reason} />
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="details">Details (optional)</Label>
+        <Textarea
+          id="details"
+          name="details"
+          rows={4}
+          maxLength={2000}
+          placeholder="Where did you find the link? What did it try to get you to do?"
+          aria-invalid={!!state.errors?.details}
+        />
+        <FieldError errors={state.errors?.details} />
+      </div>
+
+      {state.message && <p className="text-sm text-destructive">{state.message}</p>}
+      <Button type="submit" disabled={pending}>
+        {pending ? 'Sending...' : 'Send report'}
+      </Button>
+    </form>
+  )
+}
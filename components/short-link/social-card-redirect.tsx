@@ -0,0 +1,42 @@
+import { ExternalLink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import type { SocialCard } from '@/lib/social-card'
+
+type SocialCardRedirectProps = {
+  url: string
+  card: SocialCard
+}
+
+// The Open Graph tags come from generateMetadata on the short-code page;
+// this is what a browser briefly sees before the refresh sends it on
+export function SocialCardRedirect({ url, card }: SocialCardRedirectProps) {
+  return (
+    <>
+      <meta httpEquiv="refresh" content={`0;url=${url}`} />
+      <div className="flex min-h-[60vh] items-center justify-center bg-background px-4 py-12">
+        <Card className="w-full max-w-md overflow-hidden">
+          {card.image && (
+            <img
+              src={card.image}
+              alt=""
+              referrerPolicy="no-referrer"
+              className="aspect-[1.91/1] w-full bg-muted object-cover"
+            />
+          )}
+          <CardHeader>
+            <CardTitle className="text-xl">{card.title}</CardTitle>
+            {card.description && <CardDescription>{card.description}</CardDescription>}
+          </CardHeader>
+          <CardFooter>
+            <Button asChild className="w-full">
+              <a href={url}>
+                Continue to {new URL(url).hostname} <ExternalLink />
+              </a>
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useActionState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { unlockLinkAction } from '@/app/[shortCode]/actions'
+
+type UnlockFormProps = {
+  shortCode: string
+  // The visit's query string, for links that forward it
+  query?: string
+}
+
+export function UnlockForm({ shortCode, query }: UnlockFormProps) {
+  const [state, formAction, pending] = useActionState(unlockLinkAction.bind(null, shortCode), {})
+
+  return (
+    <form action={formAction} className="grid gap-4 text-left">
+      {query && <input type="hidden" name="query" value={query} />}
+      <div className="grid gap-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          autoComplete="off"
+          autoFocus
+          aria-invalid={!!state.error}
+          required
+        />
+        {state.error && <p className="text-sm text-destructive">{state.error}</p>}
+      </div>
+      <Button type="submit" disabled={pending}>
+        {pending ? 'Checking...' : 'Continue'}
+      </Button>
+    </form>
+  )
+}
@@ -1,21 +1,450 @@
-import { pgTable, text, timestamp, index, varchar } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { pgTable, text, timestamp, index, uniqueIndex, unique, varchar, boolean, integer, primaryKey, jsonb } from 'drizzle-orm/pg-core'
+import type { AuditDetails } from '@/lib/audit-log'
+import type { LinkRevisionChanges, LinkSnapshot } from '@/lib/link-revisions'
+import type { RoutingRule } from '@/lib/routing-rules'
+import type { WebhookPayload } from '@/lib/webhook-events'
+
+// Links are owned by a workspace. Every user has a personal workspace and
+// can be a member of any number of shared ones.
+export const workspaces = pgTable('workspaces', {
+  id: text('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  personalUserId: text('personal_user_id').unique(), // Clerk user ID; set only on personal workspaces
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+})
+
+export const workspaceMembers = pgTable(
+  'workspace_members',
+  {
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID
+    role: varchar('role', { length: 10 }).$type<WorkspaceRole>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.workspaceId, table.userId] }),
+    userIdIdx: index('workspace_members_user_id_idx').on(table.userId),
+  })
+)
+
+// Branded hosts such as go.example.com that a workspace serves its links from.
+// Anyone can add a hostname, but only one workspace can verify it (DNS TXT
+// record, see lib/domain-verification.ts) and only verified domains resolve.
+export const domains = pgTable(
+  'domains',
+  {
+    id: text('id').primaryKey(),
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    hostname: varchar('hostname', { length: 253 }).notNull(), // Lowercase, no port
+    verificationToken: text('verification_token').notNull(),
+    verifiedAt: timestamp('verified_at', { withTimezone: true }),
+    lastCheckedAt: timestamp('last_checked_at', { withTimezone: true }),
+    // Where the bare domain and unknown codes redirect; null shows a 404
+    fallbackUrl: text('fallback_url'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    workspaceIdHostnameIdx: uniqueIndex('domains_workspace_id_hostname_idx').on(table.workspaceId, table.hostname),
+    verifiedHostnameIdx: uniqueIndex('domains_verified_hostname_idx')
+      .on(table.hostname)
+      .where(sql`${table.verifiedAt} is not null`),
+  })
+)
 
 export const links = pgTable(
   'links',
   {
     id: text('id').primaryKey(),
-    userId: text('user_id').notNull(), // Clerk user ID
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID of the creator
+    // null = the app's own host(s); codes are unique per domain
+    domainId: text('domain_id').references(() => domains.id),
     url: text('url').notNull(),
-    shortCode: varchar('short_code', { length: 20 }).notNull().unique(),
+    shortCode: varchar('short_code', { length: 20 }).notNull(),
+    title: varchar('title', { length: 200 }),
+    notes: text('notes'),
+    expiresAt: timestamp('expires_at', { withTimezone: true }), // null = never expires
+    maxClicks: integer('max_clicks'), // null = unlimited
+    clickCount: integer('click_count').default(0).notNull(), // Human redirects served
+    passwordHash: text('password_hash'), // null = public; see lib/passwords.ts for the format
+    // Set by a moderator; the link shows a warning page instead of redirecting
+    disabledAt: timestamp('disabled_at', { withTimezone: true }),
+    disabledReason: text('disabled_reason'),
+    // Fetched from the destination by lib/link-previews.ts after a create or URL
+    // change. previewFetchedAt is null until the first attempt finishes.
+    previewTitle: text('preview_title'),
+    previewDescription: text('preview_description'),
+    previewImage: text('preview_image'),
+    previewFavicon: text('preview_favicon'),
+    previewError: text('preview_error'), // Why the last fetch failed; earlier values are kept
+    previewFetchedAt: timestamp('preview_fetched_at', { withTimezone: true }),
+    previewOverridden: boolean('preview_overridden').default(false).notNull(), // Edited by hand; fetches skip it
+    // Open Graph / Twitter card shown to unfurlers; empty fields fall back to the preview
+    socialTitle: varchar('social_title', { length: 200 }),
+    socialDescription: varchar('social_description', { length: 500 }),
+    socialImage: text('social_image'),
+    showSocialCard: boolean('show_social_card').default(false).notNull(), // Browsers get the card page too, not just crawlers
+    // Ordered; see lib/routing-rules.ts. `url` is the fallback when none match.
+    routingRules: jsonb('routing_rules').$type<RoutingRule[]>().default([]).notNull(),
+    // Whether the short URL's own query string is passed on; see lib/query-forwarding.ts
+    queryForwarding: varchar('query_forwarding', { length: 10 }).$type<QueryForwarding>().default('off').notNull(),
+    // Archived links show a notice instead of redirecting but keep their analytics
+    archivedAt: timestamp('archived_at', { withTimezone: true }),
+    // In the trash: hidden everywhere and purged after TRASH_RETENTION_DAYS. The
+    // row keeps the short code reserved until then. See lib/links.ts.
+    deletedAt: timestamp('deleted_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
     userIdIdx: index('user_id_idx').on(table.userId),
+    // Keyset pagination in the dashboard and API (see lib/link-search.ts).
+    // Click counts change on every redirect, so that sort isn't indexed.
+    workspaceCreatedIdx: index('links_workspace_id_created_at_idx').on(table.workspaceId, table.createdAt, table.id),
+    workspaceUpdatedIdx: index('links_workspace_id_updated_at_idx').on(table.workspaceId, table.updatedAt, table.id),
     shortCodeIdx: index('short_code_idx').on(table.shortCode),
+    deletedAtIdx: index('links_deleted_at_idx').on(table.deletedAt).where(sql`${table.deletedAt} is not null`),
+    domainShortCodeUnique: unique('links_domain_id_short_code_unique').on(table.domainId, table.shortCode).nullsNotDistinct(),
+  })
+)
+
+// Tags belong to a workspace and are shared by its links. Names are stored
+// lowercase so "Launch" and "launch" are the same tag.
+export const tags = pgTable(
+  'tags',
+  {
+    id: text('id').primaryKey(),
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 30 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    workspaceIdNameIdx: uniqueIndex('tags_workspace_id_name_idx').on(table.workspaceId, table.name),
+  })
+)
+
+export const linkTags = pgTable(
+  'link_tags',
+  {
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    tagId: text('tag_id')
+      .notNull()
+      .references(() => tags.id, { onDelete: 'cascade' }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.linkId, table.tagId] }),
+    tagIdIdx: index('link_tags_tag_id_idx').on(table.tagId),
+  })
+)
+
+// Append-only history of a link's settings, written by lib/links.ts. `snapshot`
+// holds every tracked field after the change, which is what a restore puts back.
+export const linkRevisions = pgTable(
+  'link_revisions',
+  {
+    id: text('id').primaryKey(),
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID of whoever made the change
+    action: varchar('action', { length: 10 }).$type<LinkRevisionAction>().notNull(),
+    changes: jsonb('changes').$type<LinkRevisionChanges>().default({}).notNull(), // Empty for 'created'
+    snapshot: jsonb('snapshot').$type<LinkSnapshot>().notNull(),
+    restoredFrom: text('restored_from'), // Revision ID, for 'restored'
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    linkIdCreatedAtIdx: index('link_revisions_link_id_created_at_idx').on(table.linkId, table.createdAt),
+  })
+)
+
+// One row per redirect served
+export const clicks = pgTable(
+  'clicks',
+  {
+    id: text('id').primaryKey(),
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    clickedAt: timestamp('clicked_at', { withTimezone: true }).defaultNow().notNull(),
+    referrer: text('referrer'),
+    referrerHost: varchar('referrer_host', { length: 255 }),
+    userAgent: text('user_agent'),
+    browser: varchar('browser', { length: 50 }),
+    country: varchar('country', { length: 2 }), // ISO 3166-1 alpha-2
+    device: varchar('device', { length: 10 }).$type<DeviceClass>().notNull(),
+    isBot: boolean('is_bot').default(false).notNull(),
+  },
+  (table) => ({
+    linkIdClickedAtIdx: index('clicks_link_id_clicked_at_idx').on(table.linkId, table.clickedAt),
+  })
+)
+
+// Failed password attempts on protected links, used to rate-limit guessing
+export const unlockAttempts = pgTable(
+  'unlock_attempts',
+  {
+    id: text('id').primaryKey(),
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    ip: varchar('ip', { length: 45 }).notNull(),
+    attemptedAt: timestamp('attempted_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    linkIdIpIdx: index('unlock_attempts_link_id_ip_idx').on(table.linkId, table.ip, table.attemptedAt),
+  })
+)
+
+// Abuse reports from visitors, reviewed in the admin moderation queue
+export const linkReports = pgTable(
+  'link_reports',
+  {
+    id: text('id').primaryKey(),
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    reason: varchar('reason', { length: 20 }).$type<ReportReason>().notNull(),
+    details: text('details'),
+    reporterIp: varchar('reporter_ip', { length: 45 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }), // null = still in the queue
+    resolvedBy: text('resolved_by'), // Clerk user ID of the moderator
+    resolution: varchar('resolution', { length: 10 }).$type<ReportResolution>(),
+  },
+  (table) => ({
+    linkIdIdx: index('link_reports_link_id_idx').on(table.linkId),
+    resolvedAtIdx: index('link_reports_resolved_at_idx').on(table.resolvedAt, table.createdAt),
+    reporterIpIdx: index('link_reports_reporter_ip_idx').on(table.reporterIp, table.createdAt),
+  })
+)
+
+// Personal tokens for the REST API. Only a SHA-256 hash of each token is kept.
+export const apiTokens = pgTable(
+  'api_tokens',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull(), // Clerk user ID
+    // Requests act in this workspace with the user's current role there
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    tokenPrefix: varchar('token_prefix', { length: 12 }).notNull(), // Shown in the dashboard to tell tokens apart
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('api_tokens_user_id_idx').on(table.userId),
+  })
+)
+
+// Append-only record of who did what in a workspace. targetId has no foreign
+// key so entries outlive the link, domain or member they describe.
+export const auditEvents = pgTable(
+  'audit_events',
+  {
+    id: text('id').primaryKey(),
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(), // Clerk user ID of the actor
+    action: varchar('action', { length: 30 }).$type<AuditAction>().notNull(),
+    targetId: text('target_id'),
+    details: jsonb('details').$type<AuditDetails>().default({}).notNull(), // See lib/audit-log.ts
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    workspaceCreatedIdx: index('audit_events_workspace_id_created_at_idx').on(table.workspaceId, table.createdAt, table.id),
+  })
+)
+
+// Endpoints that receive signed POSTs when links change or are clicked.
+// The secret is kept in plaintext because every delivery is signed with it.
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    id: text('id').primaryKey(),
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(),
+    events: jsonb('events').$type<WebhookEventType[]>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    workspaceIdIdx: index('webhook_endpoints_workspace_id_idx').on(table.workspaceId),
   })
 )
 
+// One row per event per endpoint, updated after every attempt. See lib/webhooks.ts.
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: text('id').primaryKey(),
+    endpointId: text('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+    eventId: text('event_id').notNull(), // Shared by every endpoint's copy of the event
+    eventType: varchar('event_type', { length: 30 }).$type<WebhookEventType>().notNull(),
+    payload: jsonb('payload').$type<WebhookPayload>().notNull(), // Sent as is, so redeliveries match
+    status: varchar('status', { length: 10 }).$type<WebhookDeliveryStatus>().default('pending').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+    nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }), // Null once it succeeded or gave up
+    lastAttemptAt: timestamp('last_attempt_at', { withTimezone: true }),
+    responseStatus: integer('response_status'),
+    responseBody: text('response_body'), // Truncated
+    error: text('error'), // Why the last attempt got no response
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    endpointCreatedIdx: index('webhook_deliveries_endpoint_id_created_at_idx').on(table.endpointId, table.createdAt, table.id),
+    nextAttemptIdx: index('webhook_deliveries_next_attempt_at_idx')
+      .on(table.nextAttemptAt)
+      .where(sql`${table.status} = 'pending'`),
+  })
+)
+
+// A workspace's public link-in-bio page at /u/<handle>, listing links it picked
+export const profiles = pgTable(
+  'profiles',
+  {
+    workspaceId: text('workspace_id')
+      .primaryKey()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    handle: varchar('handle', { length: 30 }).notNull(), // Lowercase
+    title: varchar('title', { length: 100 }).notNull(),
+    bio: varchar('bio', { length: 300 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    handleIdx: uniqueIndex('profiles_handle_idx').on(table.handle),
+  })
+)
+
+export const profileLinks = pgTable(
+  'profile_links',
+  {
+    workspaceId: text('workspace_id')
+      .notNull()
+      .references(() => profiles.workspaceId, { onDelete: 'cascade' }),
+    linkId: text('link_id')
+      .notNull()
+      .references(() => links.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(), // Ascending from the top of the page
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.workspaceId, table.linkId] }),
+    linkIdIdx: index('profile_links_link_id_idx').on(table.linkId),
+  })
+)
+
+// Counters for the postgres backend of lib/rate-limit-store.ts, one row per
+// limit and subject (user or IP) with the window it's counting in
+export const rateLimits = pgTable(
+  'rate_limits',
+  {
+    key: varchar('key', { length: 200 }).primaryKey(),
+    count: integer('count').notNull(),
+    resetAt: timestamp('reset_at', { withTimezone: true }).notNull(),
+  },
+  (table) => ({
+    resetAtIdx: index('rate_limits_reset_at_idx').on(table.resetAt),
+  })
+)
+
+// Saved UTM builder values. Personal: each user has their own, in every workspace.
+export const utmPresets = pgTable(
+  'utm_presets',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull(), // Clerk user ID
+    name: varchar('name', { length: 50 }).notNull(),
+    source: varchar('source', { length: 100 }).notNull(),
+    medium: varchar('medium', { length: 100 }).notNull(),
+    campaign: varchar('campaign', { length: 100 }).notNull(),
+    term: varchar('term', { length: 100 }).notNull(),
+    content: varchar('content', { length: 100 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdNameIdx: uniqueIndex('utm_presets_user_id_name_idx').on(table.userId, table.name),
+  })
+)
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet' | 'unknown'
+
+export type ReportReason = 'phishing' | 'malware' | 'spam' | 'other'
+
+export type ReportResolution = 'disabled' | 'dismissed'
+
+export type QueryForwarding = 'off' | 'preserve' | 'override'
+
+export type LinkRevisionAction = 'created' | 'updated' | 'restored'
+
+export type AuditAction =
+  | 'link.created'
+  | 'link.updated'
+  | 'link.restored'
+  | 'link.archived'
+  | 'link.unarchived'
+  | 'link.deleted'
+  | 'link.recovered'
+  | 'link.purged'
+  | 'links.imported'
+  | 'workspace.renamed'
+  | 'member.added'
+  | 'member.role_changed'
+  | 'member.removed'
+  | 'domain.added'
+  | 'domain.verified'
+  | 'domain.fallback_changed'
+  | 'domain.deleted'
+  | 'api_token.created'
+  | 'api_token.revoked'
+  | 'webhook.created'
+  | 'webhook.deleted'
+  | 'profile.saved'
+  | 'profile.deleted'
+  | 'profile.link_added'
+  | 'profile.link_removed'
+
+export type WebhookEventType = 'link.created' | 'link.updated' | 'link.deleted' | 'link.clicked'
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
 // Inferred types for TypeScript
+export type Workspace = typeof workspaces.$inferSelect
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect
+export type Domain = typeof domains.$inferSelect
 export type Link = typeof links.$inferSelect // For SELECT queries
 export type NewLink = typeof links.$inferInsert // For INSERT operations
+export type Tag = typeof tags.$inferSelect
+export type LinkRevision = typeof linkRevisions.$inferSelect
+export type Click = typeof clicks.$inferSelect
+export type NewClick = typeof clicks.$inferInsert
+export type LinkReport = typeof linkReports.$inferSelect
+export type ApiToken = typeof apiTokens.$inferSelect
+export type AuditEvent = typeof auditEvents.$inferSelect
+export type NewAuditEvent = typeof auditEvents.$inferInsert
+export type UtmPreset = typeof utmPresets.$inferSelect
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect
+export type Profile = typeof profiles.$inferSelect
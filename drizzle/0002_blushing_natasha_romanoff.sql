@@ -0,0 +1,15 @@
+CREATE TABLE "clicks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"link_id" text NOT NULL,
+	"clicked_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"referrer" text,
+	"referrer_host" varchar(255),
+	"user_agent" text,
+	"browser" varchar(50),
+	"country" varchar(2),
+	"device" varchar(10) NOT NULL,
+	"is_bot" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clicks" ADD CONSTRAINT "clicks_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clicks_link_id_clicked_at_idx" ON "clicks" USING btree ("link_id","clicked_at");
\ No newline at end of file
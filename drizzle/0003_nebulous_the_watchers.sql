@@ -0,0 +1,4 @@
+ALTER TABLE "links" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "max_clicks" integer;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "click_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "links" SET "click_count" = (SELECT count(*) FROM "clicks" WHERE "clicks"."link_id" = "links"."id" AND NOT "clicks"."is_bot");
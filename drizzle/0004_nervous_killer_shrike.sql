@@ -0,0 +1,10 @@
+CREATE TABLE "unlock_attempts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"link_id" text NOT NULL,
+	"ip" varchar(45) NOT NULL,
+	"attempted_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "password_hash" text;--> statement-breakpoint
+ALTER TABLE "unlock_attempts" ADD CONSTRAINT "unlock_attempts_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "unlock_attempts_link_id_ip_idx" ON "unlock_attempts" USING btree ("link_id","ip","attempted_at");
\ No newline at end of file
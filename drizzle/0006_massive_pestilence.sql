@@ -0,0 +1,35 @@
+CREATE TABLE "workspace_members" (
+	"workspace_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"role" varchar(10) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "workspace_members_workspace_id_user_id_pk" PRIMARY KEY("workspace_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"personal_user_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "workspaces_personal_user_id_unique" UNIQUE("personal_user_id")
+);
+--> statement-breakpoint
+-- Move existing links and tokens into a personal workspace per user. IDs follow
+-- the same `personal_<userId>` scheme the app uses (lib/workspaces.ts).
+INSERT INTO "workspaces" ("id", "name", "personal_user_id")
+SELECT 'personal_' || "user_id", 'Personal', "user_id"
+FROM (SELECT "user_id" FROM "links" UNION SELECT "user_id" FROM "api_tokens") AS "users";--> statement-breakpoint
+INSERT INTO "workspace_members" ("workspace_id", "user_id", "role")
+SELECT "id", "personal_user_id", 'owner' FROM "workspaces";--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD COLUMN "workspace_id" text;--> statement-breakpoint
+UPDATE "api_tokens" SET "workspace_id" = 'personal_' || "user_id";--> statement-breakpoint
+ALTER TABLE "api_tokens" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "workspace_id" text;--> statement-breakpoint
+UPDATE "links" SET "workspace_id" = 'personal_' || "user_id";--> statement-breakpoint
+ALTER TABLE "links" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workspace_members_user_id_idx" ON "workspace_members" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "links" ADD CONSTRAINT "links_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "links_workspace_id_idx" ON "links" USING btree ("workspace_id");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "link_reports" (
+	"id" text PRIMARY KEY NOT NULL,
+	"link_id" text NOT NULL,
+	"reason" varchar(20) NOT NULL,
+	"details" text,
+	"reporter_ip" varchar(45) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"resolved_at" timestamp with time zone,
+	"resolved_by" text,
+	"resolution" varchar(10)
+);
+--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "disabled_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "disabled_reason" text;--> statement-breakpoint
+ALTER TABLE "link_reports" ADD CONSTRAINT "link_reports_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "link_reports_link_id_idx" ON "link_reports" USING btree ("link_id");--> statement-breakpoint
+CREATE INDEX "link_reports_resolved_at_idx" ON "link_reports" USING btree ("resolved_at","created_at");--> statement-breakpoint
+CREATE INDEX "link_reports_reporter_ip_idx" ON "link_reports" USING btree ("reporter_ip","created_at");
\ No newline at end of file
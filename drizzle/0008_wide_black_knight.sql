@@ -0,0 +1,23 @@
+CREATE TABLE "link_tags" (
+	"link_id" text NOT NULL,
+	"tag_id" text NOT NULL,
+	CONSTRAINT "link_tags_link_id_tag_id_pk" PRIMARY KEY("link_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspace_id" text NOT NULL,
+	"name" varchar(30) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "links_workspace_id_idx";--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "title" varchar(200);--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "link_tags" ADD CONSTRAINT "link_tags_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "link_tags" ADD CONSTRAINT "link_tags_tag_id_tags_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "link_tags_tag_id_idx" ON "link_tags" USING btree ("tag_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tags_workspace_id_name_idx" ON "tags" USING btree ("workspace_id","name");--> statement-breakpoint
+CREATE INDEX "links_workspace_id_created_at_idx" ON "links" USING btree ("workspace_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "links_workspace_id_updated_at_idx" ON "links" USING btree ("workspace_id","updated_at","id");
\ No newline at end of file
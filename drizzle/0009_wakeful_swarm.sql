@@ -0,0 +1,7 @@
+ALTER TABLE "links" ADD COLUMN "preview_title" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_description" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_image" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_favicon" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_error" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_fetched_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "preview_overridden" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "links" ADD COLUMN "social_title" varchar(200);--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "social_description" varchar(500);--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "social_image" text;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "show_social_card" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "links" ADD COLUMN "routing_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "utm_presets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"source" varchar(100) NOT NULL,
+	"medium" varchar(100) NOT NULL,
+	"campaign" varchar(100) NOT NULL,
+	"term" varchar(100) NOT NULL,
+	"content" varchar(100) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "query_forwarding" varchar(10) DEFAULT 'off' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "utm_presets_user_id_name_idx" ON "utm_presets" USING btree ("user_id","name");
\ No newline at end of file
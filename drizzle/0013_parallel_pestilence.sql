@@ -0,0 +1,18 @@
+CREATE TABLE "domains" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspace_id" text NOT NULL,
+	"hostname" varchar(253) NOT NULL,
+	"verification_token" text NOT NULL,
+	"verified_at" timestamp with time zone,
+	"last_checked_at" timestamp with time zone,
+	"fallback_url" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "links" DROP CONSTRAINT "links_short_code_unique";--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "domain_id" text;--> statement-breakpoint
+ALTER TABLE "domains" ADD CONSTRAINT "domains_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "domains_workspace_id_hostname_idx" ON "domains" USING btree ("workspace_id","hostname");--> statement-breakpoint
+CREATE UNIQUE INDEX "domains_verified_hostname_idx" ON "domains" USING btree ("hostname") WHERE "domains"."verified_at" is not null;--> statement-breakpoint
+ALTER TABLE "links" ADD CONSTRAINT "links_domain_id_domains_id_fk" FOREIGN KEY ("domain_id") REFERENCES "public"."domains"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "links" ADD CONSTRAINT "links_domain_id_short_code_unique" UNIQUE NULLS NOT DISTINCT("domain_id","short_code");
\ No newline at end of file
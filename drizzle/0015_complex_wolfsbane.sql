@@ -0,0 +1,3 @@
+ALTER TABLE "links" ADD COLUMN "archived_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "links" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "links_deleted_at_idx" ON "links" USING btree ("deleted_at") WHERE "links"."deleted_at" is not null;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "rate_limits" (
+	"key" varchar(200) PRIMARY KEY NOT NULL,
+	"count" integer NOT NULL,
+	"reset_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "rate_limits_reset_at_idx" ON "rate_limits" USING btree ("reset_at");
\ No newline at end of file
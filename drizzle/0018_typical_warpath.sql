@@ -0,0 +1,21 @@
+CREATE TABLE "profile_links" (
+	"workspace_id" text NOT NULL,
+	"link_id" text NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "profile_links_workspace_id_link_id_pk" PRIMARY KEY("workspace_id","link_id")
+);
+--> statement-breakpoint
+CREATE TABLE "profiles" (
+	"workspace_id" text PRIMARY KEY NOT NULL,
+	"handle" varchar(30) NOT NULL,
+	"title" varchar(100) NOT NULL,
+	"bio" varchar(300),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "profile_links" ADD CONSTRAINT "profile_links_workspace_id_profiles_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."profiles"("workspace_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "profile_links" ADD CONSTRAINT "profile_links_link_id_links_id_fk" FOREIGN KEY ("link_id") REFERENCES "public"."links"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "profiles" ADD CONSTRAINT "profiles_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "profile_links_link_id_idx" ON "profile_links" USING btree ("link_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "profiles_handle_idx" ON "profiles" USING btree ("handle");
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { auth } from '@clerk/nextjs/server'
+
+// Site-wide moderators, as a comma-separated list of Clerk user IDs
+// in ADMIN_USER_IDS. Unrelated to workspace roles.
+export function isAdmin(userId: string | null) {
+  if (!userId) return false
+
+  return (process.env.ADMIN_USER_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .includes(userId)
+}
+
+// For admin server actions: the moderator's user ID
+export async function requireAdmin() {
+  const { userId } = await auth()
+  if (!userId || !isAdmin(userId)) throw new Error('Unauthorized')
+
+  return userId
+}
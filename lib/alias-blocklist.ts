@@ -0,0 +1,64 @@
+// Words that can't be a word of a custom alias or profile handle. Words are
+// the parts between hyphens, underscores and digits, so "grape", "retardant"
+// and "Scunthorpe" stay usable. Extend per deployment with a comma-separated
+// ALIAS_BLOCKLIST environment variable.
+const DEFAULT_BLOCKED_WORDS = [
+  'shit',
+  'cunt',
+  'bitch',
+  'whore',
+  'slut',
+  'retard',
+  'rape',
+  'nazi',
+  'porn',
+  'phishing',
+  'malware',
+]
+
+// Caught anywhere, even inside other words or spelled out with separators
+// ("f-u_c-k"): a short list that no harmless word contains
+const BLOCKED_ANYWHERE = ['fuck', 'nigger', 'nigga', 'faggot']
+
+let blockedWords: string[] | undefined
+
+export function getBlockedWords() {
+  blockedWords ??= [
+    ...DEFAULT_BLOCKED_WORDS,
+    ...(process.env.ALIAS_BLOCKLIST ?? '')
+      .split(',')
+      .map((word) => word.trim().toLowerCase())
+      .filter(Boolean),
+  ]
+
+  return blockedWords
+}
+
+// Common digit substitutions are undone so "sh1t" is still caught
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/0/g, 'o')
+    .replace(/1/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/4/g, 'a')
+    .replace(/5/g, 's')
+    .replace(/7/g, 't')
+}
+
+// Each part between separators, both with its digits read as letters and split at them
+function getWords(alias: string) {
+  return alias
+    .toLowerCase()
+    .split(/[-_]+/)
+    .flatMap((part) => [normalize(part), ...part.split(/\d+/)])
+    .filter(Boolean)
+}
+
+export function containsBlockedWord(alias: string) {
+  const joined = normalize(alias.replace(/[-_]/g, ''))
+  if (BLOCKED_ANYWHERE.some((word) => joined.includes(word))) return true
+
+  const words = new Set(getWords(alias))
+  return getBlockedWords().some((word) => words.has(normalize(word)))
+}
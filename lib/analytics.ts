@@ -0,0 +1,152 @@
+import { and, count, desc, eq, gte, sql, type SQL } from 'drizzle-orm'
+import type { PgColumn } from 'drizzle-orm/pg-core'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { clicks, links, type NewClick } from '@/db/schema'
+import { normalizeCountryCode } from '@/lib/geo'
+import { notDeleted } from '@/lib/links'
+import { parseUserAgent } from '@/lib/user-agent'
+
+export const STATS_RANGES = [7, 30, 90] as const
+const DEFAULT_RANGE_DAYS = 30
+const TOP_VALUES_LIMIT = 5
+
+// Listed among the referrers for clicks from the workspace's link-in-bio page
+export const PROFILE_REFERRER = 'link-in-bio'
+
+export type ClickContext = {
+  referrer: string | null
+  userAgent: string | null
+  country: string | null
+  fromProfile: boolean // Followed from the profile page (lib/profiles.ts)
+}
+
+export type StatsOptions = {
+  days: number
+  includeBots: boolean
+}
+
+export type RankedValue = { value: string; count: number }
+
+export type ClickStats = {
+  total: number
+  daily: Array<{ date: string; count: number }>
+  referrers: RankedValue[]
+  countries: RankedValue[]
+  browsers: RankedValue[]
+}
+
+export function getClickContext(headers: Headers, fromProfile = false): ClickContext {
+  return {
+    referrer: headers.get('referer'),
+    userAgent: headers.get('user-agent'),
+    // Set by Vercel and Cloudflare respectively
+    country: headers.get('x-vercel-ip-country') ?? headers.get('cf-ipcountry'),
+    fromProfile,
+  }
+}
+
+function getReferrerHost(referrer: string | null) {
+  if (!referrer) return null
+
+  try {
+    return new URL(referrer).hostname.slice(0, 255) || null
+  } catch {
+    return null
+  }
+}
+
+// Written in batches by lib/click-buffer.ts
+export function toClickRow(linkId: string, context: ClickContext): NewClick {
+  const { browser, device, isBot } = parseUserAgent(context.userAgent)
+
+  return {
+    id: nanoid(),
+    linkId,
+    // The visit's time, not when its batch is written
+    clickedAt: new Date(),
+    referrer: context.referrer,
+    // The page's own host would hide it among visits from the rest of the app
+    referrerHost: context.fromProfile ? PROFILE_REFERRER : getReferrerHost(context.referrer),
+    userAgent: context.userAgent,
+    browser,
+    country: normalizeCountryCode(context.country),
+    device,
+    isBot,
+  }
+}
+
+export function parseStatsOptions(searchParams: { days?: string; bots?: string }): StatsOptions {
+  const days = Number(searchParams.days)
+
+  return {
+    days: (STATS_RANGES as readonly number[]).includes(days) ? days : DEFAULT_RANGE_DAYS,
+    includeBots: searchParams.bots === '1',
+  }
+}
+
+function startOfDayUTC(daysAgo: number) {
+  const date = new Date()
+  date.setUTCHours(0, 0, 0, 0)
+  date.setUTCDate(date.getUTCDate() - daysAgo)
+  return date
+}
+
+function fillDailySeries(rows: Array<{ date: string; count: number }>, days: number) {
+  const counts = new Map(rows.map((row) => [row.date, row.count]))
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = startOfDayUTC(days - 1 - index).toISOString().slice(0, 10)
+    return { date, count: counts.get(date) ?? 0 }
+  })
+}
+
+async function getTopValues(column: PgColumn, where: SQL | undefined, fallback: string) {
+  const rows = await db
+    .select({ value: column, count: count() })
+    .from(clicks)
+    .innerJoin(links, eq(clicks.linkId, links.id))
+    .where(where)
+    .groupBy(column)
+    .orderBy(desc(count()))
+    .limit(TOP_VALUES_LIMIT)
+
+  return rows.map((row) => ({ value: (row.value as string | null) ?? fallback, count: row.count }))
+}
+
+// Stats for all of a workspace's links, or a single one of them when `linkId` is given.
+// Always joined through `links` so only the workspace's own clicks are ever counted,
+// and never those of links in the trash.
+export async function getClickStats(
+  workspaceId: string,
+  options: StatsOptions & { linkId?: string }
+): Promise<ClickStats> {
+  const where = and(
+    eq(links.workspaceId, workspaceId),
+    notDeleted,
+    options.linkId ? eq(clicks.linkId, options.linkId) : undefined,
+    gte(clicks.clickedAt, startOfDayUTC(options.days - 1)),
+    options.includeBots ? undefined : eq(clicks.isBot, false)
+  )
+  const day = sql<string>`to_char(${clicks.clickedAt} at time zone 'UTC', 'YYYY-MM-DD')`
+
+  const [daily, referrers, countries, browsers] = await Promise.all([
+    db
+      .select({ date: day, count: count() })
+      .from(clicks)
+      .innerJoin(links, eq(clicks.linkId, links.id))
+      .where(where)
+      .groupBy(day),
+    getTopValues(clicks.referrerHost, where, 'Direct'),
+    getTopValues(clicks.country, where, 'Unknown'),
+    getTopValues(clicks.browser, where, 'Unknown'),
+  ])
+
+  return {
+    total: daily.reduce((sum, row) => sum + row.count, 0),
+    daily: fillDailySeries(daily, options.days),
+    referrers,
+    countries,
+    browsers,
+  }
+}
@@ -0,0 +1,63 @@
+import { createHash } from 'node:crypto'
+import { and, desc, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { apiTokens } from '@/db/schema'
+
+// Recognisable prefix so leaked tokens are easy to grep for in logs and repos
+const TOKEN_PREFIX = 'lsk_'
+
+// Tokens carry ~190 bits of randomness, so a fast hash is enough (unlike passwords)
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Returns the plaintext token, which is shown to the user once and never stored
+export async function createApiToken(userId: string, workspaceId: string, name: string) {
+  const token = `${TOKEN_PREFIX}${nanoid(32)}`
+
+  const [record] = await db
+    .insert(apiTokens)
+    .values({
+      id: nanoid(),
+      userId,
+      workspaceId,
+      name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, 12),
+    })
+    .returning()
+
+  return { token, record }
+}
+
+// A user's tokens for one workspace
+export async function getApiTokens(userId: string, workspaceId: string) {
+  return db.query.apiTokens.findMany({
+    where: and(eq(apiTokens.userId, userId), eq(apiTokens.workspaceId, workspaceId)),
+    orderBy: [desc(apiTokens.createdAt)],
+  })
+}
+
+// Returns the revoked token, or null when the user has no such token
+export async function revokeApiToken(id: string, userId: string) {
+  const [deleted] = await db
+    .delete(apiTokens)
+    .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+    .returning({ id: apiTokens.id, workspaceId: apiTokens.workspaceId, name: apiTokens.name })
+
+  return deleted ?? null
+}
+
+// Resolves a bearer token to its owner and workspace and records the use
+export async function authenticateApiToken(token: string) {
+  if (!token.startsWith(TOKEN_PREFIX)) return null
+
+  const [record] = await db
+    .update(apiTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiTokens.tokenHash, hashToken(token)))
+    .returning({ userId: apiTokens.userId, workspaceId: apiTokens.workspaceId })
+
+  return record ?? null
+}
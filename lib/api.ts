@@ -0,0 +1,142 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { z } from 'zod'
+import type { Link, WorkspaceRole } from '@/db/schema'
+import { authenticateApiToken } from '@/lib/api-tokens'
+import { rateLimitHeaders, type RateLimitResult } from '@/lib/rate-limit'
+import { getShortUrl } from '@/lib/short-url'
+import { hasRole } from '@/lib/workspace-roles'
+import { getWorkspaceRole } from '@/lib/workspaces'
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_request'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error'
+
+// Every error response has the same shape: { error: { code, message, details? } }
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: Record<string, string[] | undefined>
+) {
+  return NextResponse.json({ error: { code, message, ...(details && { details }) } }, { status })
+}
+
+export function validationError(error: z.ZodError, message = 'The request body is invalid') {
+  return apiError(400, 'invalid_request', message, z.flattenError(error).fieldErrors)
+}
+
+// For writes with a token whose owner is only a viewer in the workspace
+export function requireEditor(role: WorkspaceRole) {
+  return hasRole(role, 'editor')
+    ? null
+    : apiError(403, 'forbidden', 'Your role in this workspace does not allow changing links')
+}
+
+export function shortCodeConflict() {
+  return apiError(409, 'conflict', 'That short code is already taken', {
+    shortCode: ['That short code is already taken'],
+  })
+}
+
+export function rateLimited(result: RateLimitResult, message: string) {
+  const response = apiError(429, 'rate_limited', message)
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) response.headers.set(name, value)
+  return response
+}
+
+export function unsafeDestination(message: string, field: 'url' | 'routingRules' = 'url') {
+  return apiError(400, 'invalid_request', 'The destination URL is not allowed', { [field]: [message] })
+}
+
+export function unknownDomain() {
+  return apiError(400, 'invalid_request', 'The domain is not available', {
+    domain: ['Use a verified domain of this workspace, or null for the default domain'],
+  })
+}
+
+// The API names domains by hostname, with null for the app's own host.
+// `hostnames` comes from getDomainHostnames. Returns false for a hostname
+// that isn't one of them.
+export function toDomainId(hostname: string | null | undefined, hostnames: Map<string, string>) {
+  if (!hostname) return hostname
+  for (const [id, name] of hostnames) {
+    if (name === hostname) return id
+  }
+  return false
+}
+
+export async function readJson(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+type ApiContext<P> = { userId: string; workspaceId: string; role: WorkspaceRole; params: P }
+
+// Authenticates the bearer token and turns unexpected errors into a JSON 500.
+// The role is looked up on every request so removing a member revokes their tokens too.
+export function withApiAuth<P = Record<string, never>>(
+  handler: (request: NextRequest, context: ApiContext<P>) => Promise<Response>
+) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }) => {
+    // The token lookup is inside too, so database trouble still gets a JSON error
+    try {
+      const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+      const identity = token ? await authenticateApiToken(token) : null
+      const role = identity && (await getWorkspaceRole(identity.workspaceId, identity.userId))
+
+      if (!identity || !role) {
+        return apiError(401, 'unauthorized', 'Missing or invalid API token')
+      }
+
+      return await handler(request, { ...identity, role, params: await params })
+    } catch (error) {
+      console.error('API request failed:', error)
+      return apiError(500, 'internal_error', 'Something went wrong')
+    }
+  }
+}
+
+export function serializeLink(link: Link, origin: string, tags: string[], hostnames: Map<string, string>) {
+  const domain = (link.domainId && hostnames.get(link.domainId)) || null
+
+  return {
+    id: link.id,
+    url: link.url,
+    domain,
+    shortCode: link.shortCode,
+    shortUrl: getShortUrl(link.shortCode, origin, domain),
+    title: link.title,
+    notes: link.notes,
+    tags,
+    preview: {
+      title: link.previewTitle,
+      description: link.previewDescription,
+      image: link.previewImage,
+      favicon: link.previewFavicon,
+      fetchedAt: link.previewFetchedAt,
+      error: link.previewError,
+    },
+    socialTitle: link.socialTitle,
+    socialDescription: link.socialDescription,
+    socialImage: link.socialImage,
+    showSocialCard: link.showSocialCard,
+    routingRules: link.routingRules,
+    queryForwarding: link.queryForwarding,
+    expiresAt: link.expiresAt,
+    maxClicks: link.maxClicks,
+    clickCount: link.clickCount,
+    passwordProtected: link.passwordHash !== null,
+    disabledAt: link.disabledAt,
+    archivedAt: link.archivedAt,
+    createdAt: link.createdAt,
+    updatedAt: link.updatedAt,
+  }
+}
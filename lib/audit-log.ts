@@ -0,0 +1,110 @@
+import { and, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { auditEvents, type AuditEvent, type NewAuditEvent } from '@/db/schema'
+import { REVISION_FIELD_LABELS, type RevisionField } from '@/lib/link-revisions'
+import { afterCursor, cursorOrder, cursorValue, toPage, type Cursor } from '@/lib/pagination'
+
+// What each action stores, so entries still read well after the link or
+// domain is gone:
+//   link.*               shortCode, url; link.updated adds `fields` and,
+//                        when the destination moved, fromUrl
+//   links.imported       count
+//   workspace.renamed    from, to
+//   member.*             role (added, role_changed)
+//   domain.*             hostname; fallback_changed adds fallbackUrl
+//   api_token.*          name
+//   webhook.*            url; webhook.created adds `events`
+export type AuditDetails = Record<string, string | number | null | string[]>
+
+export async function recordAuditEvent(event: Omit<NewAuditEvent, 'id' | 'createdAt'>) {
+  await db.insert(auditEvents).values({ id: nanoid(), ...event })
+}
+
+// Newest first, served by `audit_events_workspace_id_created_at_idx`
+export async function getAuditEvents(workspaceId: string, options: { limit: number; cursor: Cursor | null }) {
+  const keyset = { column: auditEvents.createdAt, id: auditEvents.id }
+  const rows = await db
+    .select({ item: auditEvents, cursorValue: cursorValue(auditEvents.createdAt) })
+    .from(auditEvents)
+    .where(and(eq(auditEvents.workspaceId, workspaceId), afterCursor(options.cursor, keyset)))
+    .orderBy(...cursorOrder(keyset))
+    .limit(options.limit + 1)
+
+  return toPage(rows, options.limit)
+}
+
+const listFormat = new Intl.ListFormat('en-US')
+
+// `names` maps Clerk user IDs to display names, for member events
+export function describeAuditEvent(event: AuditEvent, names: Map<string, string>) {
+  const details = event.details
+  const link = `/${details.shortCode}`
+  const member = (event.targetId && names.get(event.targetId)) ?? 'a member'
+
+  switch (event.action) {
+    case 'link.created':
+      return `Created ${link} → ${details.url}`
+    case 'link.updated': {
+      const fields = listFormat.format(
+        (details.fields as RevisionField[])
+          .filter((field) => field !== 'url')
+          .map((field) => REVISION_FIELD_LABELS[field].toLowerCase())
+      )
+      return details.fromUrl
+        ? `Changed the destination of ${link} from ${details.fromUrl} to ${details.url}${fields && ` and the ${fields}`}`
+        : `Changed the ${fields} of ${link}`
+    }
+    case 'link.restored':
+      return `Restored ${link} to an earlier version`
+    case 'link.archived':
+      return `Archived ${link}`
+    case 'link.unarchived':
+      return `Unarchived ${link}`
+    case 'link.deleted':
+      return `Moved ${link} (${details.url}) to the trash`
+    case 'link.recovered':
+      return `Recovered ${link} from the trash`
+    case 'link.purged':
+      return `Permanently deleted ${link} (${details.url})`
+    case 'links.imported':
+      return details.count === 1 ? 'Imported 1 link' : `Imported ${details.count} links`
+    case 'workspace.renamed':
+      return `Renamed the workspace from "${details.from}" to "${details.to}"`
+    case 'member.added':
+      return `Added ${member} as ${details.role}`
+    case 'member.role_changed':
+      return `Changed the role of ${member} to ${details.role}`
+    case 'member.removed':
+      return event.targetId === event.userId ? 'Left the workspace' : `Removed ${member}`
+    case 'domain.added':
+      return `Added the domain ${details.hostname}`
+    case 'domain.verified':
+      return `Verified the domain ${details.hostname}`
+    case 'domain.fallback_changed':
+      return details.fallbackUrl
+        ? `Set the fallback URL of ${details.hostname} to ${details.fallbackUrl}`
+        : `Removed the fallback URL of ${details.hostname}`
+    case 'domain.deleted':
+      return `Deleted the domain ${details.hostname}`
+    case 'api_token.created':
+      return `Created the API token "${details.name}"`
+    case 'api_token.revoked':
+      return `Revoked the API token "${details.name}"`
+    case 'webhook.created':
+      return `Added a webhook for ${details.url}`
+    case 'webhook.deleted':
+      return `Deleted the webhook for ${details.url}`
+    case 'profile.saved':
+      if (!details.previousHandle) return `Created the profile page /u/${details.handle}`
+      return details.previousHandle === details.handle
+        ? `Updated the profile page /u/${details.handle}`
+        : `Moved the profile page from /u/${details.previousHandle} to /u/${details.handle}`
+    case 'profile.deleted':
+      return `Deleted the profile page /u/${details.handle}`
+    case 'profile.link_added':
+      return `Added ${link} to the profile page`
+    case 'profile.link_removed':
+      return `Removed ${link} from the profile page`
+  }
+}
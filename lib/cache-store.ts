@@ -0,0 +1,102 @@
+import { readPositiveInteger } from '@/lib/env'
+
+// Key-value stores for the redirect cache (lib/redirect-cache.ts). Values are
+// strings so every backend behaves the same and cached objects can't be
+// mutated by whoever read them. Picked with REDIRECT_CACHE:
+//   memory  (default) an LRU per server instance. Invalidation only reaches
+//           the instance that made the change, so other instances can serve
+//           an edited link's old destination until the TTL runs out.
+//   redis   shared by every instance, over the Redis REST protocol used by
+//           Upstash and Vercel KV (REDIS_REST_URL and REDIS_REST_TOKEN)
+//   off     no caching
+
+export type CacheStore = {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlSeconds: number): Promise<void>
+  delete(keys: string[]): Promise<void>
+}
+
+// Map keeps insertion order, so re-inserting on every hit makes the first key
+// the least recently used one
+export function createMemoryLruStore(maxEntries: number): CacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return null
+
+      entries.set(key, entry)
+      return entry.value
+    },
+
+    async set(key, value, ttlSeconds) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+
+    async delete(keys) {
+      for (const key of keys) entries.delete(key)
+    },
+  }
+}
+
+// A slow cache is worse than none on the redirect path
+const REDIS_TIMEOUT_MS = 250
+
+export function createRedisRestStore(url: string, token: string): CacheStore {
+  async function command(args: (string | number)[]) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+      cache: 'no-store',
+    })
+    const body = (await response.json()) as { result?: unknown; error?: string }
+    if (!response.ok || body.error) throw new Error(`Redis ${args[0]} failed: ${body.error ?? response.status}`)
+    return body.result
+  }
+
+  return {
+    async get(key) {
+      const result = await command(['GET', key])
+      return typeof result === 'string' ? result : null
+    },
+
+    async set(key, value, ttlSeconds) {
+      await command(['SET', key, value, 'EX', ttlSeconds])
+    },
+
+    async delete(keys) {
+      if (keys.length > 0) await command(['DEL', ...keys])
+    },
+  }
+}
+
+export function createCacheStore(env: NodeJS.ProcessEnv = process.env): CacheStore | null {
+  switch (env.REDIRECT_CACHE ?? 'memory') {
+    case 'off':
+      return null
+    case 'redis':
+      if (!env.REDIS_REST_URL || !env.REDIS_REST_TOKEN) {
+        throw new Error('REDIRECT_CACHE=redis needs REDIS_REST_URL and REDIS_REST_TOKEN')
+      }
+      return createRedisRestStore(env.REDIS_REST_URL, env.REDIS_REST_TOKEN)
+    case 'memory':
+      return createMemoryLruStore(readPositiveInteger(env.REDIRECT_CACHE_MAX_ENTRIES, 10_000))
+    default:
+      throw new Error(`Unknown REDIRECT_CACHE backend "${env.REDIRECT_CACHE}"; use memory, redis or off`)
+  }
+}
+
+export function getCacheTtlSeconds(env: NodeJS.ProcessEnv = process.env) {
+  return readPositiveInteger(env.REDIRECT_CACHE_TTL, 300)
+}
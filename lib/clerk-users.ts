@@ -0,0 +1,46 @@
+import { clerkClient } from '@clerk/nextjs/server'
+import { DELETED_USER_ID } from '@/lib/user-data'
+
+export type UserProfile = {
+  name: string | null
+  email: string | null
+}
+
+// Clerk caps getUserList at 500 per page, far more than a workspace will have
+export async function getUserProfiles(userIds: string[]) {
+  const profiles = new Map<string, UserProfile>()
+  if (userIds.length === 0) return profiles
+
+  const client = await clerkClient()
+  const { data } = await client.users.getUserList({ userId: userIds, limit: 500 })
+
+  for (const user of data) {
+    profiles.set(user.id, {
+      name: user.fullName,
+      email: user.primaryEmailAddress?.emailAddress ?? user.emailAddresses[0]?.emailAddress ?? null,
+    })
+  }
+
+  return profiles
+}
+
+export async function findUserIdByEmail(email: string) {
+  const client = await clerkClient()
+  const { data } = await client.users.getUserList({ emailAddress: [email], limit: 1 })
+
+  return data[0]?.id ?? null
+}
+
+// Name, else email, else the raw ID for users Clerk no longer knows
+export async function getDisplayNames(userIds: string[]) {
+  const unique = [...new Set(userIds)]
+  const profiles = await getUserProfiles(unique.filter((userId) => userId !== DELETED_USER_ID))
+
+  return new Map(
+    unique.map((userId) => {
+      if (userId === DELETED_USER_ID) return [userId, 'Deleted user']
+      const profile = profiles.get(userId)
+      return [userId, profile?.name ?? profile?.email ?? userId]
+    })
+  )
+}
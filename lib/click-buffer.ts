@@ -0,0 +1,66 @@
+import { eq, sql } from 'drizzle-orm'
+import { db } from '@/db'
+import { clicks, links, type NewClick } from '@/db/schema'
+import { toClickRow, type ClickContext } from '@/lib/analytics'
+import { queueClickEvents } from '@/lib/webhooks'
+
+// Clicks are queued in memory and written together: one batch (a single
+// round trip on neon-http) for every visit in the window instead of one or
+// two queries per redirect. Redirects call logClick from after(), so the
+// response never waits, and after() keeps serverless functions alive until
+// the batch holding their click is written and queued for link.clicked
+// webhooks.
+
+const FLUSH_DELAY_MS = 250
+const MAX_BATCH_SIZE = 100
+
+type PendingClick = {
+  row: NewClick
+  // Adds to links.click_count. Links with a click limit spend it before
+  // redirecting instead (see incrementClickCount).
+  counted: boolean
+}
+
+let queue: PendingClick[] = []
+let scheduled: Promise<void> | null = null
+
+// Resolves once the batch holding this click is written. Failures are logged,
+// never thrown: analytics must not break redirects.
+export function logClick(linkId: string, context: ClickContext, { counted }: { counted: boolean }) {
+  queue.push({ row: toClickRow(linkId, context), counted })
+  if (queue.length >= MAX_BATCH_SIZE) return flushClicks()
+
+  scheduled ??= new Promise<void>((resolve) => setTimeout(resolve, FLUSH_DELAY_MS)).then(() => {
+    scheduled = null
+    return flushClicks()
+  })
+  return scheduled
+}
+
+export async function flushClicks() {
+  const batch = queue
+  queue = []
+  if (batch.length === 0) return
+
+  const counts = new Map<string, number>()
+  for (const { row, counted } of batch) {
+    if (counted) counts.set(row.linkId, (counts.get(row.linkId) ?? 0) + 1)
+  }
+
+  try {
+    await db.batch([
+      db.insert(clicks).values(batch.map(({ row }) => row)),
+      ...[...counts].map(([linkId, count]) =>
+        db
+          .update(links)
+          .set({ clickCount: sql`${links.clickCount} + ${count}` })
+          .where(eq(links.id, linkId))
+      ),
+    ])
+  } catch (error) {
+    console.error(`Failed to write ${batch.length} clicks:`, error)
+    return
+  }
+
+  await queueClickEvents(batch.map(({ row }) => row))
+}
@@ -0,0 +1,8 @@
+// Scheduled routes under app/api/cron are called by a scheduler such as
+// Vercel Cron, which sends CRON_SECRET as a bearer token. Without the secret
+// set they stay closed. The schedules are in vercel.json; elsewhere, call each
+// route as often as its comment says.
+export function isAuthorizedCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
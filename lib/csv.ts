@@ -0,0 +1,68 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes ("") and
+// newlines inside quotes. Enough for link imports and exports.
+
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet apps
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCsvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Text that would read as a formula gets a leading `'`, which spreadsheets
+// hide and take to mean plain text, so opening an export never runs what
+// someone typed into a link. Numbers are left as they are.
+function toCsvField(value: string | number | null) {
+  if (value === null) return ''
+  if (typeof value === 'number') return String(value)
+  return FORMULA_PREFIX.test(value) ? `"'${value.replace(/"/g, '""')}"` : escapeCsvField(value)
+}
+
+export function stringifyCsv(rows: Array<Array<string | number | null>>) {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n')
+}
@@ -0,0 +1,28 @@
+// SQLSTATE for unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+type PostgresError = Error & { code?: string; constraint?: string }
+
+// Drizzle wraps driver errors in a DrizzleQueryError with the original on `cause`
+function findPostgresError(error: unknown): PostgresError | null {
+  let current = error
+
+  while (current instanceof Error) {
+    if ('code' in current && typeof current.code === 'string') {
+      return current as PostgresError
+    }
+    current = current.cause
+  }
+
+  return null
+}
+
+export function isUniqueViolation(error: unknown, constraint?: string) {
+  const pgError = findPostgresError(error)
+
+  if (pgError?.code !== UNIQUE_VIOLATION) {
+    return false
+  }
+
+  return constraint === undefined || pgError.constraint === constraint
+}
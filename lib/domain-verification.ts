@@ -0,0 +1,55 @@
+import { resolveTxt } from 'node:dns/promises'
+import { randomBytes } from 'node:crypto'
+
+// Ownership of a custom domain is proven with a TXT record on a fixed
+// subdomain, so it can be added without touching the apex's own records:
+//   _linkshortener.go.example.com  TXT  "linkshortener-verification=<token>"
+
+const RECORD_PREFIX = '_linkshortener'
+const VALUE_PREFIX = 'linkshortener-verification='
+
+// Same shape as dns.promises.resolveTxt: one array of chunks per record.
+// Injectable so verification can run without real DNS.
+export type TxtResolver = (hostname: string) => Promise<string[][]>
+
+export type VerificationResult = { verified: true } | { verified: false; reason: string }
+
+export function createVerificationToken() {
+  return randomBytes(16).toString('hex')
+}
+
+export function getVerificationRecord(hostname: string, token: string) {
+  return { name: `${RECORD_PREFIX}.${hostname}`, value: `${VALUE_PREFIX}${token}` }
+}
+
+// Resolver failures other than "no such record" are reported, not thrown,
+// so the dashboard can tell the owner what to fix
+export async function checkDomainVerification(
+  hostname: string,
+  token: string,
+  resolver: TxtResolver = resolveTxt
+): Promise<VerificationResult> {
+  const record = getVerificationRecord(hostname, token)
+
+  let records: string[][]
+  try {
+    records = await resolver(record.name)
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return { verified: false, reason: `No TXT record found at ${record.name}` }
+    }
+    return { verified: false, reason: 'The DNS lookup failed. Try again in a few minutes.' }
+  }
+
+  // Long TXT values arrive split into 255-byte chunks
+  const values = records.map((chunks) => chunks.join('').trim())
+  if (values.includes(record.value)) return { verified: true }
+
+  return {
+    verified: false,
+    reason: values.some((value) => value.startsWith(VALUE_PREFIX))
+      ? `The TXT record at ${record.name} has a different token`
+      : `No matching TXT record found at ${record.name}`,
+  }
+}
@@ -0,0 +1,135 @@
+import { and, asc, count, eq, isNotNull } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+import { db } from '@/db'
+import { domains, links } from '@/db/schema'
+import { createVerificationToken } from '@/lib/domain-verification'
+import { getCachedHost, invalidateHosts, type HostDomain } from '@/lib/redirect-cache'
+import { normalizeHost } from '@/lib/url-safety'
+
+export const VERIFIED_HOSTNAME_CONSTRAINT = 'domains_verified_hostname_idx'
+export const WORKSPACE_HOSTNAME_CONSTRAINT = 'domains_workspace_id_hostname_idx'
+
+const HOSTNAME_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/
+
+// Accepts a pasted URL too: "https://Go.Example.com/" becomes "go.example.com"
+export const domainHostnameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((value) => value.replace(/^https?:\/\//, '').replace(/[/?#].*$/, '').replace(/\.$/, ''))
+  .pipe(
+    z
+      .string()
+      .min(1, 'Enter a domain such as go.example.com')
+      .max(253, 'Domains are at most 253 characters long')
+      .refine((value) => !value.includes(':'), 'Leave out the port')
+      .refine(
+        (value) => value.split('.').length >= 2 && value.split('.').every((label) => HOSTNAME_LABEL.test(label)),
+        'Enter a domain such as go.example.com'
+      )
+      .refine((value) => !/^[\d.]+$/.test(value), 'Use a domain name, not an IP address')
+  )
+
+export async function getWorkspaceDomains(workspaceId: string) {
+  return db.query.domains.findMany({
+    where: eq(domains.workspaceId, workspaceId),
+    orderBy: [asc(domains.hostname)],
+  })
+}
+
+// The ones links can be put on
+export async function getVerifiedDomains(workspaceId: string) {
+  return db.query.domains.findMany({
+    where: and(eq(domains.workspaceId, workspaceId), isNotNull(domains.verifiedAt)),
+    orderBy: [asc(domains.hostname)],
+  })
+}
+
+// id -> hostname of the workspace's verified domains, for building short URLs
+export async function getDomainHostnames(workspaceId: string) {
+  const verified = await getVerifiedDomains(workspaceId)
+  return new Map(verified.map((domain) => [domain.id, domain.hostname]))
+}
+
+export async function getDomainById(id: string, workspaceId: string) {
+  const domain = await db.query.domains.findFirst({
+    where: and(eq(domains.id, id), eq(domains.workspaceId, workspaceId)),
+  })
+
+  return domain ?? null
+}
+
+// The verified domain a request's Host header belongs to, or null for the app's own hosts
+export async function getDomainByHost(host: string | null) {
+  const hostname = normalizeHost(host ?? '')
+  if (!hostname) return null
+
+  const domain = await db.query.domains.findFirst({
+    where: and(eq(domains.hostname, hostname), isNotNull(domains.verifiedAt)),
+  })
+
+  return domain ?? null
+}
+
+// getDomainByHost for the redirect path: cached, and only what a redirect needs
+export async function resolveHost(host: string | null): Promise<HostDomain | null> {
+  const hostname = normalizeHost(host ?? '')
+  if (!hostname) return null
+
+  return getCachedHost(hostname, async () => {
+    const domain = await getDomainByHost(hostname)
+    return domain && { id: domain.id, fallbackUrl: domain.fallbackUrl }
+  })
+}
+
+export async function createDomain(workspaceId: string, hostname: string) {
+  const [domain] = await db
+    .insert(domains)
+    .values({ id: nanoid(), workspaceId, hostname, verificationToken: createVerificationToken() })
+    .returning()
+
+  return domain
+}
+
+// Throws a unique violation on VERIFIED_HOSTNAME_CONSTRAINT when another
+// workspace verified the hostname first
+export async function recordVerificationCheck(id: string, workspaceId: string, verified: boolean) {
+  const now = new Date()
+  const [domain] = await db
+    .update(domains)
+    .set(verified ? { verifiedAt: now, lastCheckedAt: now } : { lastCheckedAt: now })
+    .where(and(eq(domains.id, id), eq(domains.workspaceId, workspaceId)))
+    .returning()
+
+  if (domain && verified) await invalidateHosts([domain.hostname])
+  return domain ?? null
+}
+
+export async function updateDomainFallback(id: string, workspaceId: string, fallbackUrl: string | null) {
+  const [domain] = await db
+    .update(domains)
+    .set({ fallbackUrl })
+    .where(and(eq(domains.id, id), eq(domains.workspaceId, workspaceId)))
+    .returning()
+
+  if (domain) await invalidateHosts([domain.hostname])
+  return domain ?? null
+}
+
+// Includes links in the trash, which still hold their codes on the domain
+export async function countDomainLinks(id: string) {
+  const [{ total }] = await db.select({ total: count() }).from(links).where(eq(links.domainId, id))
+  return total
+}
+
+// Callers check countDomainLinks first; the foreign key rejects the delete otherwise
+export async function deleteDomain(id: string, workspaceId: string) {
+  const deleted = await db
+    .delete(domains)
+    .where(and(eq(domains.id, id), eq(domains.workspaceId, workspaceId)))
+    .returning({ hostname: domains.hostname })
+
+  await invalidateHosts(deleted.map((domain) => domain.hostname))
+  return deleted.length > 0
+}
@@ -0,0 +1,6 @@
+// For numeric settings read from the environment: anything that isn't a
+// positive integer falls back to the default
+export function readPositiveInteger(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
@@ -0,0 +1,6 @@
+// Country headers from Vercel or Cloudflare, as an uppercase ISO 3166-1
+// alpha-2 code. "XX" and "T1" are their placeholders for unknown and Tor traffic.
+export function normalizeCountryCode(value: string | null | undefined) {
+  const country = value?.toUpperCase()
+  return country && /^[A-Z]{2}$/.test(country) && country !== 'XX' ? country : null
+}
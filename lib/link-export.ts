@@ -0,0 +1,30 @@
+import type { Link } from '@/db/schema'
+import { stringifyCsv } from '@/lib/csv'
+import { getShortUrl } from '@/lib/short-url'
+
+export type ExportFormat = 'csv' | 'json'
+
+// hostnames: see getDomainHostnames in lib/domains.ts
+type ExportOptions = { format: ExportFormat; includeClicks: boolean; origin: string; hostnames: Map<string, string> }
+
+// The JSON shape is accepted back by the importer (`{ links: [{ url, alias }] }`)
+export function exportLinks(linksToExport: Link[], { format, includeClicks, origin, hostnames }: ExportOptions) {
+  const records = linksToExport.map((link) => ({
+    url: link.url,
+    alias: link.shortCode,
+    shortUrl: getShortUrl(link.shortCode, origin, link.domainId && hostnames.get(link.domainId)),
+    createdAt: link.createdAt.toISOString(),
+    updatedAt: link.updatedAt.toISOString(),
+    ...(includeClicks && { clicks: link.clickCount }),
+  }))
+
+  if (format === 'json') {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), links: records }, null, 2)
+  }
+
+  const columns = ['url', 'alias', 'shortUrl', 'createdAt', 'updatedAt', ...(includeClicks ? ['clicks'] : [])]
+  return stringifyCsv([
+    columns,
+    ...records.map((record) => columns.map((column) => record[column as keyof typeof record] ?? null)),
+  ])
+}
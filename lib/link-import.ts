@@ -0,0 +1,209 @@
+import { and, inArray, isNull } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { linkRevisions, links, type NewLink } from '@/db/schema'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { parseCsv } from '@/lib/csv'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { schedulePreviewFetch } from '@/lib/link-previews'
+import { toRevisionRow } from '@/lib/link-revisions'
+import { destinationUrlSchema, shortCodeSchema } from '@/lib/link-schema'
+import { SHORT_CODE_UNIQUE_CONSTRAINT } from '@/lib/links'
+import { consumeRateLimit, describeLinkQuota, releaseRateLimit } from '@/lib/rate-limit'
+import { generateShortCode } from '@/lib/short-code'
+import { getDestinationUrlError } from '@/lib/url-safety'
+import { toWebhookLink } from '@/lib/webhook-events'
+import { queueWebhookEvents } from '@/lib/webhooks'
+
+export const MAX_IMPORT_ROWS = 1000
+
+// Rows per INSERT statement inside the batch
+const INSERT_CHUNK_SIZE = 250
+const MAX_INSERT_ATTEMPTS = 3
+
+export type ImportFormat = 'csv' | 'json'
+
+export type ImportRow = {
+  line: number // 1-based line (CSV) or item (JSON) number, for error messages
+  url: string
+  alias: string | null
+}
+
+export type ValidatedImportRow = ImportRow & { errors: string[] }
+
+export type ImportResult =
+  | { ok: true; imported: number }
+  | { ok: false; error: string; rows?: ValidatedImportRow[] }
+
+const ALIAS_COLUMNS = ['alias', 'shortcode', 'short_code', 'code']
+
+function parseCsvRows(content: string): ImportRow[] | string {
+  const [header, ...records] = parseCsv(content)
+  if (!header) return 'The file is empty'
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  const urlIndex = columns.indexOf('url')
+  const aliasIndex = columns.findIndex((column) => ALIAS_COLUMNS.includes(column))
+
+  if (urlIndex === -1) return 'The CSV needs a header row with a "url" column'
+
+  return records.map((record, index) => ({
+    line: index + 2,
+    url: record[urlIndex]?.trim() ?? '',
+    alias: (aliasIndex === -1 ? '' : record[aliasIndex]?.trim()) || null,
+  }))
+}
+
+function parseJsonRows(content: string): ImportRow[] | string {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return 'The file is not valid JSON'
+  }
+
+  // Accept a bare array or the `{ links: [...] }` shape produced by the export
+  const items = Array.isArray(data) ? data : (data as { links?: unknown })?.links
+  if (!Array.isArray(items)) return 'Expected a JSON array of links'
+
+  return items.map((item, index) => {
+    const record = (item ?? {}) as Record<string, unknown>
+    const alias = record.alias ?? record.shortCode
+
+    return {
+      line: index + 1,
+      url: typeof record.url === 'string' ? record.url.trim() : '',
+      alias: typeof alias === 'string' && alias.trim() ? alias.trim() : null,
+    }
+  })
+}
+
+// Returns the parsed rows, or an error message when the file as a whole can't be used
+export function parseImportFile(content: string, format: ImportFormat): ImportRow[] | string {
+  const rows = format === 'csv' ? parseCsvRows(content) : parseJsonRows(content)
+
+  if (typeof rows === 'string') return rows
+  if (rows.length === 0) return 'The file has no links in it'
+  if (rows.length > MAX_IMPORT_ROWS) return `Import at most ${MAX_IMPORT_ROWS} links at a time`
+  return rows
+}
+
+export function getImportFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return extension === 'csv' || extension === 'json' ? extension : null
+}
+
+// ownHosts: see getOwnHosts in lib/url-safety.ts
+export async function validateImportRows(rows: ImportRow[], ownHosts: string[]): Promise<ValidatedImportRow[]> {
+  const aliases = rows.flatMap((row) => (row.alias ? [row.alias] : []))
+  // Links in the trash count: their codes stay reserved until they're purged.
+  // Imports go on the app's own host, so codes used on custom domains are free.
+  const taken = new Set(
+    aliases.length === 0
+      ? []
+      : (
+          await db
+            .select({ shortCode: links.shortCode })
+            .from(links)
+            .where(and(isNull(links.domainId), inArray(links.shortCode, aliases)))
+        ).map((link) => link.shortCode)
+  )
+  const seen = new Set<string>()
+
+  return rows.map((row) => {
+    const errors: string[] = []
+
+    const url = destinationUrlSchema.safeParse(row.url)
+    const urlError = url.success ? getDestinationUrlError(url.data, ownHosts) : url.error.issues[0].message
+    if (urlError) errors.push(urlError)
+
+    if (row.alias) {
+      const alias = shortCodeSchema.safeParse(row.alias)
+      if (!alias.success) {
+        errors.push(alias.error.issues[0].message)
+      } else if (taken.has(row.alias)) {
+        errors.push('That alias is already taken')
+      } else if (seen.has(row.alias)) {
+        errors.push('That alias appears earlier in the file')
+      }
+      seen.add(row.alias)
+    }
+
+    return { ...row, errors }
+  })
+}
+
+// Inserts every valid row in one transaction and skips the invalid ones. Rows
+// are re-validated here because aliases may have been taken since the preview.
+export async function importLinks(
+  workspaceId: string,
+  userId: string,
+  rows: ImportRow[],
+  ownHosts: string[]
+): Promise<ImportResult> {
+  // The whole import counts against the daily quota once, up front: retries
+  // don't charge again, and whatever doesn't get created is given back
+  let charged = 0
+  let imported = 0
+
+  try {
+    for (let attempt = 1; attempt <= MAX_INSERT_ATTEMPTS; attempt++) {
+      const validated = await validateImportRows(rows, ownHosts)
+      const valid = validated.filter((row) => row.errors.length === 0)
+
+      if (valid.length === 0) {
+        return { ok: false, error: 'There are no valid links to import', rows: validated }
+      }
+
+      if (attempt === 1) {
+        const quota = await consumeRateLimit('linkCreation', userId, valid.length)
+        if (!quota.allowed) return { ok: false, error: describeLinkQuota(quota), rows: validated }
+        charged = valid.length
+      }
+
+      const values: NewLink[] = valid.map((row) => ({
+        id: nanoid(),
+        workspaceId,
+        userId,
+        url: row.url,
+        shortCode: row.alias ?? generateShortCode(),
+      }))
+      const [first, ...rest] = chunk(values, INSERT_CHUNK_SIZE).map((part) => db.insert(links).values(part).returning())
+
+      try {
+        // neon-http runs a batch as a single transaction: all rows or none
+        const created = (await db.batch([first, ...rest])).flat()
+        imported = created.length
+        schedulePreviewFetch(created.map((link) => link.id))
+
+        // Each link's history starts here, as it does for links created one by one
+        const [firstRevisions, ...moreRevisions] = chunk(
+          created.map((link) => toRevisionRow(link, userId, null)),
+          INSERT_CHUNK_SIZE
+        ).map((part) => db.insert(linkRevisions).values(part))
+        await Promise.all([
+          db.batch([firstRevisions, ...moreRevisions]),
+          recordAuditEvent({ workspaceId, userId, action: 'links.imported', details: { count: created.length } }),
+          queueWebhookEvents(
+            created.map((link) => ({ workspaceId, type: 'link.created' as const, data: { link: toWebhookLink(link) } }))
+          ),
+        ])
+
+        return { ok: true, imported: created.length }
+      } catch (error) {
+        // A generated code clashed or an alias was taken mid-import: re-validate and retry
+        if (!isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) throw error
+      }
+    }
+
+    return { ok: false, error: 'Some short codes were taken during the import. Please try again.' }
+  } finally {
+    await releaseRateLimit('linkCreation', userId, charged - imported)
+  }
+}
+
+function chunk<T>(items: T[], size: number) {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  )
+}
@@ -0,0 +1,96 @@
+import { after } from 'next/server'
+import { and, eq, inArray } from 'drizzle-orm'
+import { db } from '@/db'
+import { links, type Link } from '@/db/schema'
+import { fetchPageMetadata, type PageMetadata } from '@/lib/page-metadata'
+import { invalidateLinks } from '@/lib/redirect-cache'
+import { SafeFetchError } from '@/lib/safe-fetch'
+
+// Imports can create hundreds of links at once; don't hit them all in parallel
+const FETCH_CONCURRENCY = 4
+
+type PreviewTarget = Pick<Link, 'id' | 'url' | 'previewOverridden'>
+
+async function fetchAndStore(link: PreviewTarget, force: boolean) {
+  if (link.previewOverridden && !force) return
+
+  let metadata: PageMetadata | null = null
+  let error: string | null = null
+  try {
+    metadata = await fetchPageMetadata(link.url)
+  } catch (fetchError) {
+    error = fetchError instanceof SafeFetchError ? fetchError.message : 'The page could not be fetched'
+  }
+
+  const updated = await db
+    .update(links)
+    .set({
+      ...(metadata && {
+        previewTitle: metadata.title,
+        previewDescription: metadata.description,
+        previewImage: metadata.image,
+        previewFavicon: metadata.favicon,
+        previewOverridden: false,
+      }),
+      previewError: error,
+      previewFetchedAt: new Date(),
+    })
+    // Drop the result if the URL was edited or the preview overridden meanwhile
+    .where(
+      and(
+        eq(links.id, link.id),
+        eq(links.url, link.url),
+        force ? undefined : eq(links.previewOverridden, false)
+      )
+    )
+    .returning({ domainId: links.domainId, shortCode: links.shortCode })
+
+  // Social cards fall back to the preview
+  await invalidateLinks(updated)
+}
+
+// Background refresh after links are created or their URL changes. Runs once
+// the response has been sent.
+export function schedulePreviewFetch(linkIds: string[]) {
+  if (linkIds.length === 0) return
+
+  after(async () => {
+    const targets = await db
+      .select({ id: links.id, url: links.url, previewOverridden: links.previewOverridden })
+      .from(links)
+      .where(inArray(links.id, linkIds))
+
+    const queue = [...targets]
+    await Promise.all(
+      Array.from({ length: Math.min(FETCH_CONCURRENCY, queue.length) }, async () => {
+        for (let link = queue.shift(); link; link = queue.shift()) {
+          await fetchAndStore(link, false)
+        }
+      })
+    )
+  })
+}
+
+// A refresh requested from the dashboard replaces hand-edited values too
+export async function refreshLinkPreview(link: PreviewTarget) {
+  await fetchAndStore(link, true)
+}
+
+// Scoped to the workspace: returns false when the link doesn't exist or belongs to another one
+export async function overrideLinkPreview(id: string, workspaceId: string, values: PageMetadata) {
+  const updated = await db
+    .update(links)
+    .set({
+      previewTitle: values.title,
+      previewDescription: values.description,
+      previewImage: values.image,
+      previewFavicon: values.favicon,
+      previewOverridden: true,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(links.id, id), eq(links.workspaceId, workspaceId)))
+    .returning({ domainId: links.domainId, shortCode: links.shortCode })
+
+  await invalidateLinks(updated)
+  return updated.length > 0
+}
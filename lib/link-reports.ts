@@ -0,0 +1,120 @@
+import { and, count, desc, eq, gte, isNotNull, isNull } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { linkReports, links, type Link, type LinkReport, type ReportReason } from '@/db/schema'
+import { notDeleted } from '@/lib/links'
+import { invalidateLinks } from '@/lib/redirect-cache'
+import { toWebhookLink } from '@/lib/webhook-events'
+import { queueWebhookEvents } from '@/lib/webhooks'
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  phishing: 'Phishing or impersonation',
+  malware: 'Malware or unwanted downloads',
+  spam: 'Spam or scam',
+  other: 'Something else',
+}
+
+// Per reporter IP, so one person can't flood the moderation queue
+const MAX_REPORTS_PER_WINDOW = 5
+const REPORT_WINDOW_MS = 60 * 60 * 1000
+
+const QUEUE_LIMIT = 200
+
+export async function isReportRateLimited(ip: string) {
+  const windowStart = new Date(Date.now() - REPORT_WINDOW_MS)
+  const [{ recent }] = await db
+    .select({ recent: count() })
+    .from(linkReports)
+    .where(and(eq(linkReports.reporterIp, ip), gte(linkReports.createdAt, windowStart)))
+
+  return recent >= MAX_REPORTS_PER_WINDOW
+}
+
+export async function createLinkReport(values: {
+  linkId: string
+  reason: ReportReason
+  details: string | null
+  reporterIp: string
+}) {
+  await db.insert(linkReports).values({ id: nanoid(), ...values })
+}
+
+export type ModerationItem = {
+  link: Link
+  reports: LinkReport[]
+}
+
+// Open reports grouped by link, most recently reported first
+export async function getModerationQueue(): Promise<ModerationItem[]> {
+  const rows = await db
+    .select({ report: linkReports, link: links })
+    .from(linkReports)
+    .innerJoin(links, eq(linkReports.linkId, links.id))
+    .where(and(isNull(linkReports.resolvedAt), notDeleted))
+    .orderBy(desc(linkReports.createdAt))
+    .limit(QUEUE_LIMIT)
+
+  const items = new Map<string, ModerationItem>()
+  for (const { report, link } of rows) {
+    const item = items.get(link.id) ?? { link, reports: [] }
+    item.reports.push(report)
+    items.set(link.id, item)
+  }
+
+  return [...items.values()]
+}
+
+export async function getDisabledLinks() {
+  return db.query.links.findMany({
+    where: and(isNotNull(links.disabledAt), notDeleted),
+    orderBy: [desc(links.disabledAt)],
+    limit: QUEUE_LIMIT,
+  })
+}
+
+function resolveReports(linkId: string, moderatorId: string, resolution: LinkReport['resolution']) {
+  return db
+    .update(linkReports)
+    .set({ resolvedAt: new Date(), resolvedBy: moderatorId, resolution })
+    .where(and(eq(linkReports.linkId, linkId), isNull(linkReports.resolvedAt)))
+}
+
+// Cache and webhooks for links a moderator disabled or enabled
+async function afterModeration(updated: Link[]) {
+  await Promise.all([
+    invalidateLinks(updated),
+    queueWebhookEvents(
+      updated.map((link) => ({
+        workspaceId: link.workspaceId,
+        type: 'link.updated' as const,
+        data: { link: toWebhookLink(link), fields: ['disabledAt', 'disabledReason'] },
+      }))
+    ),
+  ])
+}
+
+// Disabling also closes the link's open reports; both happen in one transaction
+export async function disableLink(linkId: string, moderatorId: string, reason: string) {
+  const [updated] = await db.batch([
+    db.update(links).set({ disabledAt: new Date(), disabledReason: reason }).where(eq(links.id, linkId)).returning(),
+    resolveReports(linkId, moderatorId, 'disabled'),
+  ])
+
+  await afterModeration(updated)
+  return updated.length > 0
+}
+
+export async function dismissReports(linkId: string, moderatorId: string) {
+  await resolveReports(linkId, moderatorId, 'dismissed')
+}
+
+export async function enableLink(linkId: string) {
+  const updated = await db
+    .update(links)
+    .set({ disabledAt: null, disabledReason: null })
+    .where(eq(links.id, linkId))
+    .returning()
+
+  await afterModeration(updated)
+  return updated.length > 0
+}
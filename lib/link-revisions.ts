@@ -0,0 +1,152 @@
+import { and, desc, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { linkRevisions, type Link, type LinkRevisionAction } from '@/db/schema'
+import { QUERY_FORWARDING_LABELS } from '@/lib/query-forwarding'
+
+// Settings an owner edits. Tags live in their own table and aren't tracked;
+// neither are click counts, previews or moderation.
+export const REVISION_FIELDS = [
+  'url',
+  'domainId',
+  'shortCode',
+  'title',
+  'notes',
+  'expiresAt',
+  'maxClicks',
+  'passwordHash',
+  'queryForwarding',
+  'routingRules',
+  'socialTitle',
+  'socialDescription',
+  'socialImage',
+  'showSocialCard',
+] as const satisfies readonly (keyof Link)[]
+
+export type RevisionField = (typeof REVISION_FIELDS)[number]
+
+// Stored as JSON, so the expiry is an ISO string
+export type LinkSnapshot = { [F in RevisionField]: F extends 'expiresAt' ? string | null : Link[F] }
+
+export type LinkRevisionChanges = { [F in RevisionField]?: { from: LinkSnapshot[F]; to: LinkSnapshot[F] } }
+
+export const REVISION_FIELD_LABELS = {
+  url: 'Destination',
+  domainId: 'Domain',
+  shortCode: 'Alias',
+  title: 'Title',
+  notes: 'Notes',
+  expiresAt: 'Expiry',
+  maxClicks: 'Click limit',
+  passwordHash: 'Password',
+  queryForwarding: 'Query forwarding',
+  routingRules: 'Routing rules',
+  socialTitle: 'Social title',
+  socialDescription: 'Social description',
+  socialImage: 'Social image',
+  showSocialCard: 'Card for browsers',
+} satisfies Record<RevisionField, string>
+
+export function toSnapshot(link: Link): LinkSnapshot {
+  const snapshot = Object.fromEntries(REVISION_FIELDS.map((field) => [field, link[field]]))
+  return { ...snapshot, expiresAt: link.expiresAt?.toISOString() ?? null } as LinkSnapshot
+}
+
+// The values updateLink needs to put a snapshot back
+export function fromSnapshot(snapshot: LinkSnapshot) {
+  return { ...snapshot, expiresAt: snapshot.expiresAt ? new Date(snapshot.expiresAt) : null }
+}
+
+export function diffSnapshots(before: LinkSnapshot, after: LinkSnapshot) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {}
+
+  for (const field of REVISION_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] }
+    }
+  }
+
+  return changes as LinkRevisionChanges
+}
+
+// The row for a revision; `before` is null for a new link
+export function toRevisionRow(
+  link: Link,
+  userId: string,
+  before: LinkSnapshot | null,
+  options: { action?: LinkRevisionAction; restoredFrom?: string } = {}
+) {
+  const snapshot = toSnapshot(link)
+
+  return {
+    id: nanoid(),
+    linkId: link.id,
+    userId,
+    action: options.action ?? (before ? 'updated' : 'created'),
+    changes: before ? diffSnapshots(before, snapshot) : {},
+    snapshot,
+    restoredFrom: options.restoredFrom ?? null,
+  } satisfies typeof linkRevisions.$inferInsert
+}
+
+export async function insertRevisions(rows: (typeof linkRevisions.$inferInsert)[]) {
+  if (rows.length > 0) await db.insert(linkRevisions).values(rows)
+}
+
+// Newest first. Callers check the link belongs to the workspace.
+export async function getLinkRevisions(linkId: string) {
+  return db.query.linkRevisions.findMany({
+    where: eq(linkRevisions.linkId, linkId),
+    orderBy: [desc(linkRevisions.createdAt)],
+  })
+}
+
+export async function getLinkRevision(id: string, linkId: string) {
+  const revision = await db.query.linkRevisions.findFirst({
+    where: and(eq(linkRevisions.id, id), eq(linkRevisions.linkId, linkId)),
+  })
+
+  return revision ?? null
+}
+
+const dateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+// One line per changed field, e.g. "Destination: https://a.example → https://b.example".
+// `hostnames` maps domain IDs to hostnames; a missing one was deleted since.
+export function describeChanges(changes: LinkRevisionChanges, hostnames: Map<string, string>) {
+  const format = (field: RevisionField, value: unknown): string => {
+    if (field === 'domainId' && !value) return 'default'
+    if (value === null || value === undefined || value === '') return 'none'
+
+    switch (field) {
+      case 'domainId':
+        return hostnames.get(value as string) ?? 'a deleted domain'
+      case 'expiresAt':
+        return dateFormat.format(new Date(value as string))
+      case 'queryForwarding':
+        return QUERY_FORWARDING_LABELS[value as keyof typeof QUERY_FORWARDING_LABELS]
+      case 'routingRules': {
+        const count = (value as unknown[]).length
+        return count === 0 ? 'none' : count === 1 ? '1 rule' : `${count} rules`
+      }
+      case 'showSocialCard':
+        return value ? 'on' : 'off'
+      default:
+        return String(value)
+    }
+  }
+
+  return REVISION_FIELDS.filter((field) => field in changes).map((field) => {
+    const { from, to } = changes[field]!
+    const label = REVISION_FIELD_LABELS[field]
+
+    // Hashes mean nothing to a reader
+    if (field === 'passwordHash') {
+      return `${label}: ${!from ? 'added' : !to ? 'removed' : 'changed'}`
+    }
+    if (field === 'routingRules' && (from as unknown[]).length === (to as unknown[]).length) {
+      return `${label}: edited`
+    }
+    return `${label}: ${format(field, from)} → ${format(field, to)}`
+  })
+}
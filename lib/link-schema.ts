@@ -0,0 +1,175 @@
+import { z } from 'zod'
+import { PREVIEW_DESCRIPTION_MAX_LENGTH, PREVIEW_TITLE_MAX_LENGTH } from '@/lib/page-metadata'
+import { QUERY_FORWARDING_MODES } from '@/lib/query-forwarding'
+import { routingRulesSchema } from '@/lib/routing-rules'
+import { getAliasError } from '@/lib/short-code'
+import { parseTagNames } from '@/lib/tags'
+
+// Empty form fields arrive as '' and should be treated as "not provided"
+const optionalField = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === '' || value === null ? undefined : value), schema.optional())
+
+export const destinationUrlSchema = z
+  .string()
+  .trim()
+  .min(1, 'Enter a URL to shorten')
+  .pipe(z.url({ protocol: /^https?$/, message: 'Enter a valid http(s) URL' }))
+
+// A link's current code, which edits may keep as it is. Stored codes can
+// predate the alias policy (generated codes, seeds, later blocklist entries).
+const storedShortCodeSchema = z.string().trim()
+
+export const shortCodeSchema = storedShortCodeSchema.superRefine((alias, ctx) => {
+  const error = getAliasError(alias)
+  if (error) ctx.addIssue({ code: 'custom', message: error })
+})
+
+// Edits run the alias policy only on a code that changes
+export function getShortCodeChangeError(shortCode: string, currentShortCode: string) {
+  return shortCode === currentShortCode ? null : getAliasError(shortCode)
+}
+
+const maxClicksSchema = z
+  .number({ message: 'Enter a number' })
+  .int('Enter a whole number')
+  .min(1, 'Allow at least 1 click')
+  .max(1_000_000_000, 'Enter a smaller number')
+
+const titleSchema = z.string().trim().max(200, 'Use at most 200 characters')
+
+const notesSchema = z.string().trim().max(2000, 'Use at most 2000 characters')
+
+// Comma-separated in forms, an array in the API
+const tagsSchema = z.union([z.string(), z.array(z.string())]).transform((input, ctx) => {
+  const names = parseTagNames(input)
+  if (typeof names === 'string') {
+    ctx.addIssue({ code: 'custom', message: names })
+    return z.NEVER
+  }
+  return names
+})
+
+// Preview and social card images and icons
+const imageUrlSchema = z.string().trim().pipe(z.url({ protocol: /^https?$/, message: 'Enter a valid http(s) URL' }))
+
+const socialTitleSchema = z.string().trim().max(200, 'Use at most 200 characters')
+
+const socialDescriptionSchema = z.string().trim().max(500, 'Use at most 500 characters')
+
+const queryForwardingSchema = z.enum(QUERY_FORWARDING_MODES, 'Pick how query parameters are forwarded')
+
+const passwordSchema = z
+  .string()
+  .min(4, 'Use at least 4 characters')
+  .max(128, 'Use at most 128 characters')
+
+export const linkFormSchema = z.object({
+  url: destinationUrlSchema,
+  // Empty is the app's own host
+  domainId: optionalField(z.string()),
+  shortCode: optionalField(shortCodeSchema),
+  // Omitted limits are cleared, not left unchanged
+  expiresAt: optionalField(z.coerce.date({ message: 'Enter a valid date' })),
+  maxClicks: optionalField(z.coerce.number().pipe(maxClicksSchema)),
+  // Unlike the limits, an empty password leaves the current one in place
+  password: optionalField(passwordSchema),
+  removePassword: z.preprocess((value) => value === 'on', z.boolean()),
+  // Like the limits, empty title, notes and tags clear them
+  title: optionalField(titleSchema),
+  notes: optionalField(notesSchema),
+  tags: z.preprocess((value) => value ?? '', tagsSchema),
+  queryForwarding: z.preprocess((value) => value ?? 'off', queryForwardingSchema),
+})
+
+// See getShortCodeChangeError for the alias
+const linkEditFormSchema = linkFormSchema.extend({ shortCode: optionalField(storedShortCodeSchema) })
+
+export type LinkFormInput = z.infer<typeof linkFormSchema>
+export type LinkFieldErrors = Partial<Record<keyof LinkFormInput, string[]>>
+
+export function parseLinkForm(formData: FormData, { editing = false } = {}) {
+  return (editing ? linkEditFormSchema : linkFormSchema).safeParse({
+    url: formData.get('url'),
+    domainId: formData.get('domainId'),
+    shortCode: formData.get('shortCode'),
+    expiresAt: formData.get('expiresAt'),
+    maxClicks: formData.get('maxClicks'),
+    password: formData.get('password'),
+    removePassword: formData.get('removePassword'),
+    title: formData.get('title'),
+    notes: formData.get('notes'),
+    tags: formData.get('tags'),
+    queryForwarding: formData.get('queryForwarding'),
+  })
+}
+
+// Hand-edited preview metadata; empty fields are stored as blank
+export const linkPreviewFormSchema = z.object({
+  title: optionalField(
+    z.string().trim().max(PREVIEW_TITLE_MAX_LENGTH, `Use at most ${PREVIEW_TITLE_MAX_LENGTH} characters`)
+  ),
+  description: optionalField(
+    z.string().trim().max(PREVIEW_DESCRIPTION_MAX_LENGTH, `Use at most ${PREVIEW_DESCRIPTION_MAX_LENGTH} characters`)
+  ),
+  image: optionalField(imageUrlSchema),
+  favicon: optionalField(imageUrlSchema),
+})
+
+export type LinkPreviewFieldErrors = Partial<Record<keyof z.infer<typeof linkPreviewFormSchema>, string[]>>
+
+export function parseLinkPreviewForm(formData: FormData) {
+  return linkPreviewFormSchema.safeParse({
+    title: formData.get('title'),
+    description: formData.get('description'),
+    image: formData.get('image'),
+    favicon: formData.get('favicon'),
+  })
+}
+
+// Empty fields fall back to the fetched preview, so they're stored as null
+export const socialCardFormSchema = z.object({
+  socialTitle: optionalField(socialTitleSchema),
+  socialDescription: optionalField(socialDescriptionSchema),
+  socialImage: optionalField(imageUrlSchema),
+  showSocialCard: z.preprocess((value) => value === 'on', z.boolean()),
+})
+
+export type SocialCardFieldErrors = Partial<Record<keyof z.infer<typeof socialCardFormSchema>, string[]>>
+
+export function parseSocialCardForm(formData: FormData) {
+  return socialCardFormSchema.safeParse({
+    socialTitle: formData.get('socialTitle'),
+    socialDescription: formData.get('socialDescription'),
+    socialImage: formData.get('socialImage'),
+    showSocialCard: formData.get('showSocialCard'),
+  })
+}
+
+// JSON bodies for the REST API. On update, omitted fields are left unchanged
+// and `null` clears an optional setting.
+export const linkCreateApiSchema = z.object({
+  url: destinationUrlSchema,
+  // Hostname of a verified custom domain; null is the app's own host
+  domain: z.string().trim().toLowerCase().nullable().optional(),
+  shortCode: shortCodeSchema.optional(),
+  expiresAt: z.iso
+    .datetime({ offset: true, message: 'Use an ISO 8601 date-time' })
+    .transform((value) => new Date(value))
+    .nullable()
+    .optional(),
+  maxClicks: maxClicksSchema.nullable().optional(),
+  password: passwordSchema.nullable().optional(),
+  title: titleSchema.nullable().optional(),
+  notes: notesSchema.nullable().optional(),
+  tags: tagsSchema.optional(),
+  socialTitle: socialTitleSchema.nullable().optional(),
+  socialDescription: socialDescriptionSchema.nullable().optional(),
+  socialImage: imageUrlSchema.nullable().optional(),
+  showSocialCard: z.boolean().optional(),
+  queryForwarding: queryForwardingSchema.optional(),
+  // Replaces all rules; [] removes them
+  routingRules: routingRulesSchema.optional(),
+})
+
+// See getShortCodeChangeError for the short code
+export const linkUpdateApiSchema = linkCreateApiSchema.extend({ shortCode: storedShortCodeSchema }).partial()
@@ -0,0 +1,180 @@
+import { and, count, eq, exists, ilike, isNotNull, isNull, lte, or, sql, type SQL } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '@/db'
+import { links, linkTags, tags, type Link } from '@/db/schema'
+import { notDeleted } from '@/lib/links'
+import {
+  afterCursor,
+  cursorOrder,
+  cursorValue,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  toPage,
+  type Keyset,
+} from '@/lib/pagination'
+import { getTagsForLinks } from '@/lib/tags'
+
+export const LINK_VIEWS = ['active', 'archived', 'trash'] as const
+export const LINK_SORTS = ['created', 'updated', 'clicks'] as const
+export const LINK_STATUS_FILTERS = ['active', 'expired', 'disabled', 'protected'] as const
+
+export type LinkView = (typeof LINK_VIEWS)[number]
+export type LinkSort = (typeof LINK_SORTS)[number]
+export type LinkStatusFilter = (typeof LINK_STATUS_FILTERS)[number]
+
+const SEARCH_MAX_LENGTH = 200
+
+// Invalid values fall back to the defaults rather than erroring: these come
+// from the dashboard URL, which people edit and bookmark
+const linkSearchSchema = z.object({
+  view: z.enum(LINK_VIEWS).catch('active'),
+  q: z.string().trim().max(SEARCH_MAX_LENGTH).catch(''),
+  tag: z.array(z.string().trim().toLowerCase()).catch([]),
+  status: z.enum(LINK_STATUS_FILTERS).optional().catch(undefined),
+  sort: z.enum(LINK_SORTS).catch('created'),
+  dir: z.enum(['asc', 'desc']).catch('desc'),
+  cursor: z.string().optional().catch(undefined),
+})
+
+export type LinkSearch = z.infer<typeof linkSearchSchema>
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+export function parseLinkSearch(params: SearchParams): LinkSearch {
+  const tag = params.tag
+  return linkSearchSchema.parse({
+    ...params,
+    view: params.view ?? 'active',
+    q: params.q ?? '',
+    tag: (Array.isArray(tag) ? tag : tag ? [tag] : []).filter(Boolean),
+    sort: params.sort ?? 'created',
+    dir: params.dir ?? 'desc',
+  })
+}
+
+// Cast back from the cursor's text; see lib/pagination.ts
+const SORT_COLUMNS = {
+  created: { column: links.createdAt, type: 'timestamptz' },
+  updated: { column: links.updatedAt, type: 'timestamptz' },
+  clicks: { column: links.clickCount, type: 'integer' },
+} satisfies Record<LinkSort, Pick<Keyset, 'column' | 'type'>>
+
+// Escapes LIKE wildcards so a search for "50%" means the literal text
+function containsPattern(query: string) {
+  return `%${query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+}
+
+function hasTag(condition: SQL) {
+  return exists(
+    db
+      .select({ linkId: linkTags.linkId })
+      .from(linkTags)
+      .innerJoin(tags, eq(linkTags.tagId, tags.id))
+      .where(and(eq(linkTags.linkId, links.id), condition))
+  )
+}
+
+function statusCondition(status: LinkStatusFilter | undefined, now: Date) {
+  const expired = or(
+    lte(links.expiresAt, now),
+    and(isNotNull(links.maxClicks), sql`${links.clickCount} >= ${links.maxClicks}`)
+  )
+
+  switch (status) {
+    case 'active':
+      return and(isNull(links.disabledAt), sql`not coalesce(${expired}, false)`)
+    case 'expired':
+      return and(isNull(links.disabledAt), expired)
+    case 'disabled':
+      return isNotNull(links.disabledAt)
+    case 'protected':
+      return isNotNull(links.passwordHash)
+    default:
+      return undefined
+  }
+}
+
+function viewCondition(view: LinkView) {
+  switch (view) {
+    case 'active':
+      return and(notDeleted, isNull(links.archivedAt))
+    case 'archived':
+      return and(notDeleted, isNotNull(links.archivedAt))
+    case 'trash':
+      return isNotNull(links.deletedAt)
+  }
+}
+
+function filterConditions(workspaceId: string, search: LinkSearch) {
+  const pattern = search.q && containsPattern(search.q)
+
+  return [
+    eq(links.workspaceId, workspaceId),
+    viewCondition(search.view),
+    pattern
+      ? or(
+          ilike(links.url, pattern),
+          ilike(links.shortCode, pattern),
+          ilike(links.title, pattern),
+          hasTag(ilike(tags.name, pattern))
+        )
+      : undefined,
+    // Every selected tag must be present
+    ...search.tag.map((name) => hasTag(eq(tags.name, name))),
+    statusCondition(search.status, new Date()),
+  ]
+}
+
+export type LinkWithTags = Link & { tags: string[] }
+
+export async function searchLinks(workspaceId: string, search: LinkSearch, pageSize = DEFAULT_PAGE_SIZE) {
+  const keyset = { ...SORT_COLUMNS[search.sort], id: links.id, dir: search.dir }
+  // A cursor only continues the listing it came from; anything else starts over
+  const scope = [search.sort, search.dir]
+  const cursor = decodeCursor(search.cursor, { scope, type: keyset.type })
+
+  const rows = await db
+    .select({ item: links, cursorValue: cursorValue(keyset.column) })
+    .from(links)
+    .where(and(...filterConditions(workspaceId, search), afterCursor(cursor, keyset)))
+    .orderBy(...cursorOrder(keyset))
+    .limit(pageSize + 1)
+
+  const page = toPage(rows, pageSize, scope)
+  const tagsByLink = await getTagsForLinks(page.items.map((link) => link.id))
+
+  return {
+    items: page.items.map((link): LinkWithTags => ({ ...link, tags: tagsByLink.get(link.id) ?? [] })),
+    nextCursor: page.nextCursor,
+  }
+}
+
+export async function countLinks(workspaceId: string, search: LinkSearch) {
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(links)
+    .where(and(...filterConditions(workspaceId, search)))
+
+  return total
+}
+
+// Dashboard URL for a search, dropping defaults so links stay short
+export function linkSearchHref(search: LinkSearch, changes: Partial<LinkSearch> = {}) {
+  const { view, q, tag, status, sort, dir, cursor } = { ...search, cursor: undefined, ...changes }
+  const params = new URLSearchParams()
+
+  if (view !== 'active') params.set('view', view)
+  if (q) params.set('q', q)
+  for (const name of tag) params.append('tag', name)
+  if (status) params.set('status', status)
+  if (sort !== 'created') params.set('sort', sort)
+  if (dir !== 'desc') params.set('dir', dir)
+  if (cursor) params.set('cursor', cursor)
+
+  const query = params.toString()
+  return query ? `/dashboard?${query}` : '/dashboard'
+}
+
+export function isFilteredSearch(search: LinkSearch) {
+  return !!search.q || search.tag.length > 0 || !!search.status
+}
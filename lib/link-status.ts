@@ -0,0 +1,36 @@
+import type { Link } from '@/db/schema'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Deleted links sit in the trash this long before they're purged for good
+export const TRASH_RETENTION_DAYS = 30
+
+export function getTrashExpiry(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+}
+
+export type LinkStatus =
+  | { state: 'active' }
+  | { state: 'expired'; reason: 'date' | 'clicks' }
+  | { state: 'disabled' }
+  | { state: 'archived' }
+
+// A moderator's decision outranks the owner's own, and archiving outranks limits
+export function getLinkStatus(
+  link: Pick<Link, 'expiresAt' | 'maxClicks' | 'clickCount' | 'disabledAt' | 'archivedAt'>,
+  now = new Date()
+): LinkStatus {
+  if (link.disabledAt) {
+    return { state: 'disabled' }
+  }
+  if (link.archivedAt) {
+    return { state: 'archived' }
+  }
+  if (link.expiresAt && link.expiresAt <= now) {
+    return { state: 'expired', reason: 'date' }
+  }
+  if (link.maxClicks !== null && link.clickCount >= link.maxClicks) {
+    return { state: 'expired', reason: 'clicks' }
+  }
+  return { state: 'active' }
+}
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { and, count, eq, gte, min } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { unlockAttempts, type Link } from '@/db/schema'
+
+// Scoped to `/<shortCode>` by its path, so each code gets its own cookie
+export const UNLOCK_COOKIE_NAME = 'link_unlock'
+export const UNLOCK_COOKIE_MAX_AGE = 12 * 60 * 60 // seconds
+
+const MAX_FAILED_ATTEMPTS = 5
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+
+type ProtectedLink = Pick<Link, 'id' | 'passwordHash'>
+
+function getSecret() {
+  const secret = process.env.UNLOCK_COOKIE_SECRET
+  if (!secret) throw new Error('UNLOCK_COOKIE_SECRET is not set')
+  return secret
+}
+
+// The password hash is part of the signature, so changing or removing the
+// password invalidates every cookie issued before
+function sign(link: ProtectedLink, expiresAt: number) {
+  return createHmac('sha256', getSecret())
+    .update(`${link.id}:${link.passwordHash}:${expiresAt}`)
+    .digest('base64url')
+}
+
+export function createUnlockToken(link: ProtectedLink) {
+  const expiresAt = Date.now() + UNLOCK_COOKIE_MAX_AGE * 1000
+  return `${expiresAt}.${sign(link, expiresAt)}`
+}
+
+export function isValidUnlockToken(link: ProtectedLink, token: string | undefined) {
+  const [expiresAt, signature] = token?.split('.') ?? []
+  if (!expiresAt || !signature || Number(expiresAt) < Date.now()) return false
+
+  const expected = Buffer.from(sign(link, Number(expiresAt)))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Returns the seconds until another attempt is allowed, or 0 when the visitor may try now
+export async function getUnlockRetryAfter(linkId: string, ip: string) {
+  const windowStart = new Date(Date.now() - ATTEMPT_WINDOW_MS)
+  const [{ failed, oldest }] = await db
+    .select({ failed: count(), oldest: min(unlockAttempts.attemptedAt) })
+    .from(unlockAttempts)
+    .where(
+      and(
+        eq(unlockAttempts.linkId, linkId),
+        eq(unlockAttempts.ip, ip),
+        gte(unlockAttempts.attemptedAt, windowStart)
+      )
+    )
+
+  if (failed < MAX_FAILED_ATTEMPTS || !oldest) return 0
+  return Math.max(1, Math.ceil((oldest.getTime() + ATTEMPT_WINDOW_MS - Date.now()) / 1000))
+}
+
+export async function recordFailedUnlock(linkId: string, ip: string) {
+  await db.insert(unlockAttempts).values({ id: nanoid(), linkId, ip })
+}
+
+export async function clearFailedUnlocks(linkId: string, ip: string) {
+  await db
+    .delete(unlockAttempts)
+    .where(and(eq(unlockAttempts.linkId, linkId), eq(unlockAttempts.ip, ip)))
+}
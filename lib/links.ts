@@ -0,0 +1,325 @@
+import { and, desc, eq, isNotNull, isNull, lt, or, sql, type SQL } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { links, type Link, type LinkRevision, type NewLink } from '@/db/schema'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { isUniqueViolation } from '@/lib/db-errors'
+import { fromSnapshot, insertRevisions, toRevisionRow, toSnapshot } from '@/lib/link-revisions'
+import { TRASH_RETENTION_DAYS } from '@/lib/link-status'
+import { afterCursor, cursorOrder, cursorValue, toPage, type Cursor } from '@/lib/pagination'
+import { resolveHost } from '@/lib/domains'
+import { getCachedLink, invalidateLinks } from '@/lib/redirect-cache'
+import { generateShortCode, SHORT_CODE_MAX_LENGTH } from '@/lib/short-code'
+import { toWebhookLink } from '@/lib/webhook-events'
+import { queueWebhookEvents } from '@/lib/webhooks'
+
+export const SHORT_CODE_UNIQUE_CONSTRAINT = 'links_domain_id_short_code_unique'
+
+const MAX_GENERATE_ATTEMPTS = 5
+
+// Every query for links people can see or visit starts from this; only the
+// trash view and the purge look at deleted rows
+export const notDeleted = isNull(links.deletedAt)
+
+type LinkSettings = Pick<
+  NewLink,
+  | 'expiresAt'
+  | 'maxClicks'
+  | 'passwordHash'
+  | 'title'
+  | 'notes'
+  | 'socialTitle'
+  | 'socialDescription'
+  | 'socialImage'
+  | 'showSocialCard'
+  | 'routingRules'
+  | 'queryForwarding'
+  | 'domainId'
+>
+
+// `host` is the request's Host header. A verified custom domain only serves
+// its own links; any other host serves the links without a domain. Cached
+// (see lib/redirect-cache.ts), so every change to a link must invalidate it.
+export async function getLinkByShortCode(shortCode: string, host: string | null) {
+  // Codes longer than the column can't exist, so skip the round trip
+  if (!shortCode || shortCode.length > SHORT_CODE_MAX_LENGTH) {
+    return null
+  }
+
+  const domainId = (await resolveHost(host))?.id ?? null
+
+  return getCachedLink({ domainId, shortCode }, async () => {
+    const link = await db.query.links.findFirst({
+      where: and(
+        eq(links.shortCode, shortCode),
+        domainId ? eq(links.domainId, domainId) : isNull(links.domainId),
+        notDeleted
+      ),
+    })
+
+    return link ?? null
+  })
+}
+
+// Served by `links_workspace_id_created_at_idx`
+export async function getLinksByWorkspace(workspaceId: string) {
+  return db.query.links.findMany({
+    where: and(eq(links.workspaceId, workspaceId), notDeleted),
+    orderBy: [desc(links.createdAt)],
+  })
+}
+
+// Newest first, served by `links_workspace_id_created_at_idx`
+export async function listLinks(workspaceId: string, options: { limit: number; cursor: Cursor | null }) {
+  const keyset = { column: links.createdAt, id: links.id }
+  const rows = await db
+    .select({ item: links, cursorValue: cursorValue(links.createdAt) })
+    .from(links)
+    .where(and(eq(links.workspaceId, workspaceId), notDeleted, afterCursor(options.cursor, keyset)))
+    .orderBy(...cursorOrder(keyset))
+    .limit(options.limit + 1)
+
+  return toPage(rows, options.limit)
+}
+
+type NewLinkValues = { workspaceId: string; userId: string; url: string } & LinkSettings
+
+async function insertLink(values: NewLinkValues & { shortCode: string }) {
+  const [link] = await db
+    .insert(links)
+    .values({ id: nanoid(), ...values })
+    .returning()
+
+  return link
+}
+
+// Without a custom alias a code is generated, retrying on the rare clash. A clash
+// on a custom alias is the caller's to report, so that error is rethrown as is.
+async function insertLinkWithCode(values: NewLinkValues & { shortCode?: string }) {
+  if (values.shortCode) {
+    return insertLink({ ...values, shortCode: values.shortCode })
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insertLink({ ...values, shortCode: generateShortCode() })
+    } catch (error) {
+      if (attempt >= MAX_GENERATE_ATTEMPTS || !isUniqueViolation(error, SHORT_CODE_UNIQUE_CONSTRAINT)) {
+        throw error
+      }
+    }
+  }
+}
+
+// Starts the link's history with its first revision, made by `values.userId`
+export async function createLink(values: NewLinkValues & { shortCode?: string }) {
+  const link = await insertLinkWithCode(values)
+
+  await Promise.all([
+    insertRevisions([toRevisionRow(link, values.userId, null)]),
+    recordAuditEvent({
+      workspaceId: link.workspaceId,
+      userId: values.userId,
+      action: 'link.created',
+      targetId: link.id,
+      details: { shortCode: link.shortCode, url: link.url },
+    }),
+    queueWebhookEvents([{ workspaceId: link.workspaceId, type: 'link.created', data: { link: toWebhookLink(link) } }]),
+  ])
+  return link
+}
+
+type LinkUpdate = Partial<{ url: string; shortCode: string }> & LinkSettings
+
+// Scoped to the workspace: returns null when the link doesn't exist or belongs to another one.
+// Callers check the user's role in the workspace first. A new URL marks the preview
+// as not fetched (previewFetchedAt null) so the caller can schedule a refresh.
+// Changes are recorded as a revision and in the audit log under `userId`.
+export async function updateLink(id: string, workspaceId: string, userId: string, values: LinkUpdate) {
+  return applyLinkUpdate(id, workspaceId, userId, values)
+}
+
+// Puts a past revision's settings back, as a new revision of its own
+export async function restoreLinkRevision(revision: LinkRevision, workspaceId: string, userId: string) {
+  return applyLinkUpdate(revision.linkId, workspaceId, userId, fromSnapshot(revision.snapshot), revision.id)
+}
+
+async function applyLinkUpdate(
+  id: string,
+  workspaceId: string,
+  userId: string,
+  values: LinkUpdate,
+  restoredFrom?: string
+) {
+  const previewReset = values.url && {
+    previewFetchedAt: sql`case when ${links.url} = ${values.url} then ${links.previewFetchedAt} end`,
+  }
+  // Read first for the revision, and because a new code or domain moves the
+  // link to a new cache key that has to be invalidated as well
+  const previous = await getLinkById(id, workspaceId)
+  if (!previous) return null
+
+  const [link] = await db
+    .update(links)
+    .set({ ...values, ...previewReset, updatedAt: new Date() })
+    .where(and(eq(links.id, id), eq(links.workspaceId, workspaceId), notDeleted))
+    .returning()
+
+  if (!link) return null
+  await invalidateLinks([link, previous])
+  await recordLinkChange(link, previous, userId, restoredFrom)
+  return link
+}
+
+async function recordLinkChange(link: Link, previous: Link, userId: string, restoredFrom?: string) {
+  const revision = toRevisionRow(link, userId, toSnapshot(previous), {
+    action: restoredFrom ? 'restored' : 'updated',
+    restoredFrom,
+  })
+  // Saving a form untouched leaves no entry
+  if (Object.keys(revision.changes).length === 0) return
+
+  await Promise.all([
+    insertRevisions([revision]),
+    recordAuditEvent({
+      workspaceId: link.workspaceId,
+      userId,
+      action: restoredFrom ? 'link.restored' : 'link.updated',
+      targetId: link.id,
+      details: {
+        shortCode: link.shortCode,
+        url: link.url,
+        fields: Object.keys(revision.changes),
+        fromUrl: link.url === previous.url ? null : previous.url,
+      },
+    }),
+    queueWebhookEvents([
+      {
+        workspaceId: link.workspaceId,
+        type: 'link.updated',
+        data: { link: toWebhookLink(link), fields: Object.keys(revision.changes) },
+      },
+    ]),
+  ])
+}
+
+// Archiving, trashing and their undos. Each only applies from the state it
+// undoes, so repeating one is a no-op that returns false.
+async function changeLinkState(
+  id: string,
+  workspaceId: string,
+  userId: string,
+  action: 'link.archived' | 'link.unarchived' | 'link.deleted' | 'link.recovered',
+  values: Pick<Partial<Link>, 'archivedAt' | 'deletedAt'>,
+  from: SQL | undefined
+) {
+  const [changed] = await db
+    .update(links)
+    .set(values)
+    .where(and(eq(links.id, id), eq(links.workspaceId, workspaceId), from))
+    .returning()
+
+  if (!changed) return false
+  await Promise.all([
+    invalidateLinks([changed]),
+    recordAuditEvent({
+      workspaceId,
+      userId,
+      action,
+      targetId: id,
+      details: { shortCode: changed.shortCode, url: changed.url },
+    }),
+    queueWebhookEvents([
+      action === 'link.deleted'
+        ? { workspaceId, type: 'link.deleted', data: { link: toWebhookLink(changed) } }
+        : { workspaceId, type: 'link.updated', data: { link: toWebhookLink(changed), fields: Object.keys(values) } },
+    ]),
+  ])
+  return true
+}
+
+export async function archiveLink(id: string, workspaceId: string, userId: string) {
+  const unarchived = and(notDeleted, isNull(links.archivedAt))
+  return changeLinkState(id, workspaceId, userId, 'link.archived', { archivedAt: new Date() }, unarchived)
+}
+
+export async function unarchiveLink(id: string, workspaceId: string, userId: string) {
+  const archived = and(notDeleted, isNotNull(links.archivedAt))
+  return changeLinkState(id, workspaceId, userId, 'link.unarchived', { archivedAt: null }, archived)
+}
+
+// Moves the link to the trash. It stops resolving at once, but keeps its
+// clicks, history and short code until recovered or purged.
+export async function deleteLink(id: string, workspaceId: string, userId: string) {
+  return changeLinkState(id, workspaceId, userId, 'link.deleted', { deletedAt: new Date() }, notDeleted)
+}
+
+// Back out of the trash, archived again if it was archived before
+export async function recoverLink(id: string, workspaceId: string, userId: string) {
+  return changeLinkState(id, workspaceId, userId, 'link.recovered', { deletedAt: null }, isNotNull(links.deletedAt))
+}
+
+// Purging sends link.deleted a second time, after the one for the move to the
+// trash, so receivers hear when the link is gone for good
+function toPurgedEvents(purged: Link[]) {
+  return purged.map((link) => ({
+    workspaceId: link.workspaceId,
+    type: 'link.deleted' as const,
+    data: { link: toWebhookLink(link) },
+  }))
+}
+
+// Deletes a link in the trash for good, freeing its short code
+export async function purgeLink(id: string, workspaceId: string, userId: string) {
+  const [purged] = await db
+    .delete(links)
+    .where(and(eq(links.id, id), eq(links.workspaceId, workspaceId), isNotNull(links.deletedAt)))
+    .returning()
+
+  if (!purged) return false
+  await Promise.all([
+    recordAuditEvent({
+      workspaceId,
+      userId,
+      action: 'link.purged',
+      targetId: id,
+      details: { shortCode: purged.shortCode, url: purged.url },
+    }),
+    queueWebhookEvents(toPurgedEvents([purged])),
+  ])
+  return true
+}
+
+// Run on a schedule (app/api/cron/purge-trash) and whenever a trash view is
+// opened. Trashed links were already dropped from the redirect cache.
+export async function purgeExpiredTrash() {
+  const purged = await db
+    .delete(links)
+    .where(lt(links.deletedAt, sql`now() - make_interval(days => ${TRASH_RETENTION_DAYS})`))
+    .returning()
+
+  await queueWebhookEvents(toPurgedEvents(purged))
+  return purged.length
+}
+
+export async function getLinkById(id: string, workspaceId: string) {
+  const link = await db.query.links.findFirst({
+    where: and(eq(links.id, id), eq(links.workspaceId, workspaceId), notDeleted),
+  })
+
+  return link ?? null
+}
+
+// Counts one human redirect. For links with a click limit this only succeeds
+// while budget remains, so it doubles as an atomic check-and-spend.
+export async function incrementClickCount(id: string) {
+  const updated = await db
+    .update(links)
+    .set({ clickCount: sql`${links.clickCount} + 1` })
+    .where(
+      and(eq(links.id, id), or(isNull(links.maxClicks), lt(links.clickCount, links.maxClicks)))
+    )
+    .returning({ id: links.id })
+
+  return updated.length > 0
+}
@@ -0,0 +1,454 @@
+import { ALIAS_MIN_LENGTH, SHORT_CODE_MAX_LENGTH } from '@/lib/short-code'
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/pagination'
+import { STATS_RANGES } from '@/lib/analytics'
+import { MAX_TAGS_PER_LINK, TAG_MAX_LENGTH } from '@/lib/tags'
+import { QR_ERROR_LEVELS, QR_FORMATS, QR_SIZES, QR_THEMES } from '@/lib/qr-options'
+import {
+  MAX_DESTINATION_WEIGHT,
+  MAX_ROUTING_RULES,
+  MAX_RULE_DESTINATIONS,
+  ROUTING_DEVICES,
+} from '@/lib/routing-rules'
+import { OPERATING_SYSTEMS } from '@/lib/user-agent'
+import { QUERY_FORWARDING_MODES } from '@/lib/query-forwarding'
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+})
+
+const linkResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data'],
+        properties: { data: { $ref: '#/components/schemas/Link' } },
+      },
+    },
+  },
+})
+
+const linkIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+}
+
+const linkSettings = {
+  expiresAt: {
+    type: ['string', 'null'],
+    format: 'date-time',
+    description: 'The link stops redirecting after this time. `null` means it never expires.',
+  },
+  maxClicks: {
+    type: ['integer', 'null'],
+    minimum: 1,
+    description: 'The link stops redirecting after this many human visits. `null` means unlimited.',
+  },
+  password: {
+    type: ['string', 'null'],
+    minLength: 4,
+    maxLength: 128,
+    writeOnly: true,
+    description: 'Visitors must enter this password before being redirected. `null` removes it.',
+  },
+  title: { type: ['string', 'null'], maxLength: 200, description: 'Shown in the dashboard instead of the URL' },
+  notes: { type: ['string', 'null'], maxLength: 2000 },
+  tags: {
+    type: 'array',
+    maxItems: MAX_TAGS_PER_LINK,
+    items: { type: 'string', maxLength: TAG_MAX_LENGTH },
+    description: 'Replaces all of the link\'s tags. Names are stored lowercase.',
+  },
+  socialTitle: {
+    type: ['string', 'null'],
+    maxLength: 200,
+    description: 'Card title for Slack, Twitter and other unfurlers. `null` falls back to the fetched preview.',
+  },
+  socialDescription: { type: ['string', 'null'], maxLength: 500, description: 'Card description; `null` falls back to the preview' },
+  socialImage: { type: ['string', 'null'], format: 'uri', description: 'Card image; `null` falls back to the preview' },
+  showSocialCard: {
+    type: 'boolean',
+    description: 'Show the card page to browsers before redirecting too. Crawlers always get it.',
+  },
+  domain: {
+    type: ['string', 'null'],
+    description:
+      'Hostname of a verified custom domain of the workspace, such as `go.example.com`. `null` (the default) serves the link from this app\'s host. Short codes are unique per domain.',
+  },
+  queryForwarding: {
+    type: 'string',
+    enum: [...QUERY_FORWARDING_MODES],
+    description:
+      'Pass the short URL\'s query parameters on to the destination. `preserve` keeps the destination\'s value when both have a parameter, `override` replaces it. Defaults to `off`.',
+  },
+  routingRules: {
+    type: 'array',
+    maxItems: MAX_ROUTING_RULES,
+    items: { $ref: '#/components/schemas/RoutingRule' },
+    description:
+      'Checked in order; the first rule whose conditions all match picks the destination. `url` is used when none match. Replaces all rules; `[]` removes them.',
+  },
+}
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Link Shortener API',
+    version: '1.0.0',
+    description:
+      'Create and manage short links from scripts and CI. Authenticate with a personal API token from the dashboard, sent as `Authorization: Bearer <token>`. Each token acts in the workspace it was created in, with its owner\'s current role there.',
+  },
+  servers: [{ url: '/api/v1' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/links': {
+      get: {
+        summary: 'List links',
+        description: 'Returns the newest links first. Pass `nextCursor` back as `cursor` to get the next page.',
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+          },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+        ],
+        responses: {
+          200: {
+            description: 'A page of links',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['data', 'nextCursor'],
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/Link' } },
+                    nextCursor: { type: ['string', 'null'] },
+                  },
+                },
+              },
+            },
+          },
+          400: errorResponse('Invalid cursor'),
+          401: errorResponse('Missing or invalid API token'),
+        },
+      },
+      post: {
+        summary: 'Create a link',
+        description:
+          'Each user can create a limited number of links a day, counted together with the dashboard. Over the quota the API answers 429 with a `Retry-After` header in seconds.',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/LinkCreate' } } },
+        },
+        responses: {
+          201: linkResponse('The created link'),
+          400: errorResponse('Validation failed; `details` has per-field messages'),
+          401: errorResponse('Missing or invalid API token'),
+          403: errorResponse('The token owner is a viewer in this workspace'),
+          409: errorResponse('The short code is already taken'),
+          429: {
+            ...errorResponse('The daily link quota is used up'),
+            headers: {
+              'Retry-After': { description: 'Seconds until the quota resets', schema: { type: 'integer' } },
+              'RateLimit-Limit': { description: 'Links allowed per day', schema: { type: 'integer' } },
+              'RateLimit-Remaining': { description: 'Links left in the current window', schema: { type: 'integer' } },
+            },
+          },
+        },
+      },
+    },
+    '/links/{id}': {
+      parameters: [linkIdParameter],
+      get: {
+        summary: 'Get a link',
+        responses: {
+          200: linkResponse('The link'),
+          401: errorResponse('Missing or invalid API token'),
+          404: errorResponse('Link not found'),
+        },
+      },
+      patch: {
+        summary: 'Update a link',
+        description: 'Omitted fields are left unchanged. `null` clears an optional setting.',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/LinkUpdate' } } },
+        },
+        responses: {
+          200: linkResponse('The updated link'),
+          400: errorResponse('Validation failed; `details` has per-field messages'),
+          401: errorResponse('Missing or invalid API token'),
+          403: errorResponse('The token owner is a viewer in this workspace'),
+          404: errorResponse('Link not found'),
+          409: errorResponse('The short code is already taken'),
+        },
+      },
+      delete: {
+        summary: 'Delete a link',
+        description:
+          'Moves the link to the trash. It stops redirecting at once and is deleted for good after 30 days; until then its short code stays taken and it can be recovered from the dashboard.',
+        responses: {
+          204: { description: 'The link was moved to the trash' },
+          401: errorResponse('Missing or invalid API token'),
+          403: errorResponse('The token owner is a viewer in this workspace'),
+          404: errorResponse('Link not found'),
+        },
+      },
+    },
+    '/links/{id}/stats': {
+      parameters: [linkIdParameter],
+      get: {
+        summary: 'Get click statistics for a link',
+        parameters: [
+          { name: 'days', in: 'query', schema: { type: 'integer', enum: [...STATS_RANGES], default: 30 } },
+          {
+            name: 'bots',
+            in: 'query',
+            description: 'Set to `1` to include crawler and bot traffic',
+            schema: { type: 'string', enum: ['1'] },
+          },
+        ],
+        responses: {
+          200: {
+            description: 'Click statistics',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['data'],
+                  properties: { data: { $ref: '#/components/schemas/ClickStats' } },
+                },
+              },
+            },
+          },
+          401: errorResponse('Missing or invalid API token'),
+          404: errorResponse('Link not found'),
+        },
+      },
+    },
+    '/qr/{shortCode}': {
+      // Lives outside /api/v1 and needs no token, so it can be used as an <img> src
+      servers: [{ url: '/api' }],
+      parameters: [{ name: 'shortCode', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        summary: 'Get a QR code for a short link',
+        security: [],
+        parameters: [
+          { name: 'format', in: 'query', schema: { type: 'string', enum: [...QR_FORMATS], default: 'svg' } },
+          { name: 'size', in: 'query', description: 'Width and height in pixels', schema: { type: 'integer', enum: [...QR_SIZES], default: 512 } },
+          {
+            name: 'level',
+            in: 'query',
+            description: 'Error correction level, from L (~7% recoverable) to H (~30%)',
+            schema: { type: 'string', enum: [...QR_ERROR_LEVELS], default: 'M' },
+          },
+          { name: 'theme', in: 'query', schema: { type: 'string', enum: Object.keys(QR_THEMES), default: 'light' } },
+          { name: 'fg', in: 'query', description: 'Foreground hex color, overrides the theme', schema: { type: 'string', pattern: '^#?[0-9a-fA-F]{6}$' } },
+          { name: 'bg', in: 'query', description: 'Background hex color, overrides the theme', schema: { type: 'string', pattern: '^#?[0-9a-fA-F]{6}$' } },
+          {
+            name: 'download',
+            in: 'query',
+            description: 'Present to send the image as a file download',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          200: {
+            description: 'The QR code, encoding the short URL',
+            content: {
+              'image/svg+xml': { schema: { type: 'string' } },
+              'image/png': { schema: { type: 'string', contentMediaType: 'image/png' } },
+            },
+          },
+          400: errorResponse('Invalid options, or colors without enough contrast to scan'),
+          404: errorResponse('Link not found'),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API token (`lsk_...`)' },
+    },
+    schemas: {
+      Link: {
+        type: 'object',
+        required: [
+          'id',
+          'url',
+          'shortCode',
+          'shortUrl',
+          'tags',
+          'preview',
+          'showSocialCard',
+          'routingRules',
+          'queryForwarding',
+          'clickCount',
+          'passwordProtected',
+          'createdAt',
+          'updatedAt',
+        ],
+        properties: {
+          id: { type: 'string' },
+          url: { type: 'string', format: 'uri' },
+          domain: linkSettings.domain,
+          shortCode: { type: 'string' },
+          shortUrl: { type: 'string', format: 'uri' },
+          title: { type: ['string', 'null'] },
+          notes: { type: ['string', 'null'] },
+          tags: { type: 'array', items: { type: 'string' } },
+          preview: { $ref: '#/components/schemas/LinkPreview' },
+          socialTitle: linkSettings.socialTitle,
+          socialDescription: linkSettings.socialDescription,
+          socialImage: linkSettings.socialImage,
+          showSocialCard: linkSettings.showSocialCard,
+          routingRules: linkSettings.routingRules,
+          queryForwarding: linkSettings.queryForwarding,
+          expiresAt: linkSettings.expiresAt,
+          maxClicks: linkSettings.maxClicks,
+          clickCount: { type: 'integer' },
+          passwordProtected: { type: 'boolean' },
+          disabledAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: 'Set when a moderator disabled the link after an abuse report. Disabled links show a warning instead of redirecting.',
+          },
+          archivedAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: 'Set when the link was archived. Archived links show a notice instead of redirecting but keep their analytics.',
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      LinkPreview: {
+        type: 'object',
+        description:
+          'Metadata fetched from the destination page in the background after the link is created or its URL changes. Read-only.',
+        required: ['title', 'description', 'image', 'favicon', 'fetchedAt', 'error'],
+        properties: {
+          title: { type: ['string', 'null'] },
+          description: { type: ['string', 'null'] },
+          image: { type: ['string', 'null'], format: 'uri', description: 'Open Graph image' },
+          favicon: { type: ['string', 'null'], format: 'uri' },
+          fetchedAt: { type: ['string', 'null'], format: 'date-time', description: 'Null until the first fetch finishes' },
+          error: { type: ['string', 'null'], description: 'Why the last fetch failed' },
+        },
+      },
+      RoutingRule: {
+        type: 'object',
+        required: ['conditions', 'destinations'],
+        properties: {
+          name: { type: 'string', maxLength: 60 },
+          conditions: {
+            type: 'object',
+            description: 'Every condition given must match. Omitted or empty conditions match everyone.',
+            properties: {
+              os: { type: 'array', items: { type: 'string', enum: [...OPERATING_SYSTEMS] } },
+              device: { type: 'array', items: { type: 'string', enum: [...ROUTING_DEVICES] } },
+              country: {
+                type: 'array',
+                items: { type: 'string', pattern: '^[A-Za-z]{2}$' },
+                description: 'ISO 3166-1 alpha-2 codes, from the visitor\'s IP address',
+              },
+              language: {
+                type: 'array',
+                items: { type: 'string', pattern: '^[A-Za-z]{2,3}$' },
+                description: 'Primary language subtags matched against the visitor\'s preferred language',
+              },
+              startsAt: { type: 'string', format: 'date-time' },
+              endsAt: { type: 'string', format: 'date-time', description: 'Exclusive' },
+            },
+          },
+          destinations: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_RULE_DESTINATIONS,
+            description: 'Traffic is split at random in proportion to the weights.',
+            items: {
+              type: 'object',
+              required: ['url', 'weight'],
+              properties: {
+                url: { type: 'string', format: 'uri' },
+                weight: { type: 'integer', minimum: 1, maximum: MAX_DESTINATION_WEIGHT },
+              },
+            },
+          },
+        },
+      },
+      LinkCreate: {
+        type: 'object',
+        required: ['url'],
+        properties: {
+          url: { type: 'string', format: 'uri', description: 'http(s) destination. Blocked domains and links back to this shortener are rejected.' },
+          shortCode: {
+            type: 'string',
+            minLength: ALIAS_MIN_LENGTH,
+            maxLength: SHORT_CODE_MAX_LENGTH,
+            pattern: '^[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?$',
+            description: 'Custom alias. A random code is generated when omitted.',
+          },
+          ...linkSettings,
+        },
+      },
+      LinkUpdate: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', format: 'uri' },
+          shortCode: { type: 'string', minLength: ALIAS_MIN_LENGTH, maxLength: SHORT_CODE_MAX_LENGTH },
+          ...linkSettings,
+        },
+      },
+      RankedValue: {
+        type: 'object',
+        required: ['value', 'count'],
+        properties: { value: { type: 'string' }, count: { type: 'integer' } },
+      },
+      ClickStats: {
+        type: 'object',
+        properties: {
+          days: { type: 'integer' },
+          includeBots: { type: 'boolean' },
+          total: { type: 'integer' },
+          daily: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { date: { type: 'string', format: 'date' }, count: { type: 'integer' } },
+            },
+          },
+          referrers: { type: 'array', items: { $ref: '#/components/schemas/RankedValue' } },
+          countries: { type: 'array', items: { $ref: '#/components/schemas/RankedValue' } },
+          browsers: { type: 'array', items: { $ref: '#/components/schemas/RankedValue' } },
+        },
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: {
+                type: 'string',
+                enum: ['unauthorized', 'forbidden', 'invalid_request', 'not_found', 'conflict', 'internal_error'],
+              },
+              message: { type: 'string' },
+              details: {
+                type: 'object',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+}
@@ -0,0 +1,126 @@
+import { safeFetch, SafeFetchError, type SafeFetchOptions } from '@/lib/safe-fetch'
+
+// Preview metadata for a destination page: its <title>, meta description,
+// Open Graph image and favicon. Only the start of the page is read, and the
+// HTML is scanned with regular expressions rather than parsed, which is
+// plenty for the <head>.
+
+export type PageMetadata = {
+  title: string | null
+  description: string | null
+  image: string | null
+  favicon: string | null
+}
+
+export const PREVIEW_TITLE_MAX_LENGTH = 200
+export const PREVIEW_DESCRIPTION_MAX_LENGTH = 500
+const PREVIEW_URL_MAX_LENGTH = 2048
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)'
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function cleanText(text: string | undefined, maxLength: number) {
+  if (!text) return null
+  const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim()
+  return cleaned ? cleaned.slice(0, maxLength) : null
+}
+
+// Relative URLs resolve against the page; only http(s) results are kept
+function cleanUrl(value: string | undefined, pageUrl: URL) {
+  if (!value) return null
+  try {
+    const url = new URL(decodeEntities(value.trim()), pageUrl)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    const href = url.toString()
+    return href.length <= PREVIEW_URL_MAX_LENGTH ? href : null
+  } catch {
+    return null
+  }
+}
+
+const ATTRIBUTE = /([^\s"'=<>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+function parseAttributes(source: string) {
+  const attributes: Record<string, string> = {}
+  for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE)) {
+    attributes[name.toLowerCase()] ??= doubleQuoted ?? singleQuoted ?? unquoted ?? ''
+  }
+  return attributes
+}
+
+export function parsePageMetadata(html: string, pageUrl: URL): PageMetadata {
+  // Everything we want lives in the <head>
+  const head = html.split(/<\/head\s*>/i)[0].replace(/<!--[\s\S]*?-->/g, '')
+
+  const meta: Record<string, string> = {}
+  const icons: { rel: string; href: string }[] = []
+
+  for (const [, tag, attributeSource] of head.matchAll(/<(meta|link)\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(attributeSource)
+    if (tag.toLowerCase() === 'meta') {
+      const key = (attributes.property ?? attributes.name)?.toLowerCase()
+      if (key && attributes.content !== undefined) meta[key] ??= attributes.content
+    } else if (attributes.href) {
+      icons.push({ rel: (attributes.rel ?? '').toLowerCase(), href: attributes.href })
+    }
+  }
+
+  const rels = (icon: { rel: string }) => icon.rel.split(/\s+/)
+  const favicon =
+    icons.find((icon) => rels(icon).includes('icon')) ??
+    icons.find((icon) => rels(icon).includes('apple-touch-icon'))
+
+  const title = head.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1]
+
+  return {
+    title: cleanText(title ?? meta['og:title'], PREVIEW_TITLE_MAX_LENGTH),
+    description: cleanText(meta.description ?? meta['og:description'], PREVIEW_DESCRIPTION_MAX_LENGTH),
+    image: cleanUrl(
+      meta['og:image:secure_url'] ?? meta['og:image'] ?? meta['og:image:url'] ?? meta['twitter:image'],
+      pageUrl
+    ),
+    // Browsers fall back to /favicon.ico too
+    favicon: cleanUrl(favicon?.href ?? '/favicon.ico', pageUrl),
+  }
+}
+
+function getDecoder(contentType: string) {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+  try {
+    return new TextDecoder(charset ?? 'utf-8')
+  } catch {
+    return new TextDecoder('utf-8')
+  }
+}
+
+// Throws SafeFetchError with a message fit for the dashboard when the page
+// can't be fetched or isn't HTML
+export async function fetchPageMetadata(url: string, options: SafeFetchOptions = {}): Promise<PageMetadata> {
+  const response = await safeFetch(url, {
+    ...options,
+    method: 'GET',
+    headers: { 'user-agent': USER_AGENT, accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1' },
+  })
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new SafeFetchError(`The page responded with HTTP ${response.status}`)
+  }
+
+  const contentType = response.headers['content-type'] ?? ''
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    throw new SafeFetchError('The destination is not an HTML page')
+  }
+
+  return parsePageMetadata(getDecoder(contentType).decode(response.body), new URL(response.url))
+}
@@ -0,0 +1,121 @@
+import { asc, desc, sql, type SQL } from 'drizzle-orm'
+import type { PgColumn } from 'drizzle-orm/pg-core'
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+// Keyset pagination over (sort column, id). The cursor carries the last row's
+// sort value as Postgres' own text rendering, so timestamps keep their
+// microseconds and the raw columns compare exactly, which lets the
+// (..., created_at, id) indexes serve both the filter and the order.
+export type Cursor = { value: string; id: string }
+
+// The sort column's type, which the cursor's text value is cast back to
+export type CursorType = 'timestamptz' | 'integer'
+
+export type Keyset = {
+  column: PgColumn
+  id: PgColumn
+  type?: CursorType
+  dir?: 'asc' | 'desc'
+}
+
+// Postgres' text rendering of a timestamptz, such as `2026-01-31 09:15:00.123456+00`
+const TIMESTAMPTZ_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.\d{1,6})?[+-](\d{2})(?::\d{2}){0,2}$/
+const INTEGER_PATTERN = /^-?\d{1,10}$/
+const INTEGER_MAX = 2 ** 31 - 1
+
+// Whether Postgres will cast the value without an error. Cursors come from the
+// client, so a bad value must not reach the query.
+function isCursorValue(value: string, type: CursorType) {
+  if (type === 'integer') {
+    return INTEGER_PATTERN.test(value) && Math.abs(Number(value)) <= INTEGER_MAX
+  }
+
+  const match = TIMESTAMPTZ_PATTERN.exec(value)
+  if (!match) return false
+
+  const [year, month, day, hours, minutes, seconds, offsetHours] = match.slice(1).map(Number)
+  // Date.UTC rolls an impossible date like Feb 30 over into the next month
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return (
+    year > 0 &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hours < 24 &&
+    minutes < 60 &&
+    seconds < 60 &&
+    offsetHours < 16
+  )
+}
+
+// `scope` ties a cursor to the listing it came from, such as a search's sort;
+// a cursor from any other listing doesn't decode
+export function encodeCursor(cursor: Cursor, scope: string[] = []) {
+  return Buffer.from(JSON.stringify([...scope, cursor.value, cursor.id])).toString('base64url')
+}
+
+export function decodeCursor(
+  value: string | null | undefined,
+  { scope = [], type = 'timestamptz' }: { scope?: string[]; type?: CursorType } = {}
+): Cursor | null {
+  if (!value) return null
+
+  try {
+    const parts = JSON.parse(Buffer.from(value, 'base64url').toString())
+    if (!Array.isArray(parts) || parts.length !== scope.length + 2) return null
+    if (scope.some((part, index) => parts[index] !== part)) return null
+
+    const [cursorValue, id] = parts.slice(scope.length)
+    if (typeof cursorValue !== 'string' || typeof id !== 'string' || !isCursorValue(cursorValue, type)) return null
+    return { value: cursorValue, id }
+  } catch {
+    return null
+  }
+}
+
+export function parsePageSize(value: string | null | undefined) {
+  const size = Number(value)
+  if (!Number.isInteger(size) || size < 1) return DEFAULT_PAGE_SIZE
+  return Math.min(size, MAX_PAGE_SIZE)
+}
+
+// Selected next to each row as `cursorValue`, for toPage
+export function cursorValue(column: PgColumn) {
+  return sql<string>`${column}::text`
+}
+
+// Rows strictly after the cursor, which must come from decodeCursor with the
+// same type. A row comparison on the raw columns, so the index still applies.
+export function afterCursor(
+  cursor: Cursor | null,
+  { column, id, type = 'timestamptz', dir = 'desc' }: Keyset
+): SQL | undefined {
+  if (!cursor) return undefined
+
+  const value = sql`${cursor.value}::${sql.raw(type)}`
+  return dir === 'asc'
+    ? sql`(${column}, ${id}) > (${value}, ${cursor.id})`
+    : sql`(${column}, ${id}) < (${value}, ${cursor.id})`
+}
+
+export function cursorOrder({ column, id, dir = 'desc' }: Keyset) {
+  const direction = dir === 'asc' ? asc : desc
+  return [direction(column), direction(id)]
+}
+
+// Expects one row more than the page size so it can tell whether another page exists
+export function toPage<T extends { id: string }>(
+  rows: { item: T; cursorValue: string }[],
+  pageSize: number,
+  scope: string[] = []
+) {
+  const page = rows.slice(0, pageSize)
+  const last = page[page.length - 1]
+
+  return {
+    items: page.map(({ item }) => item),
+    nextCursor:
+      rows.length > pageSize && last ? encodeCursor({ value: last.cursorValue, id: last.item.id }, scope) : null,
+  }
+}
@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual, type BinaryLike } from 'node:crypto'
+
+const KEY_LENGTH = 64
+
+function deriveKey(password: BinaryLike, salt: BinaryLike) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+// Stored as `scrypt$<salt hex>$<key hex>` so the algorithm can change later
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, hash: string) {
+  const [algorithm, salt, key] = hash.split('$')
+  if (algorithm !== 'scrypt' || !salt || !key) return false
+
+  const expected = Buffer.from(key, 'hex')
+  const actual = await deriveKey(password, Buffer.from(salt, 'hex'))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,170 @@
+import { and, asc, count, eq, inArray, sql } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '@/db'
+import { links, profileLinks, profiles, type Link } from '@/db/schema'
+import { containsBlockedWord } from '@/lib/alias-blocklist'
+import { getLinkStatus } from '@/lib/link-status'
+import { notDeleted } from '@/lib/links'
+
+// Link-in-bio pages: one per workspace, at /u/<handle>, listing links the
+// workspace's owners picked in the order they chose
+
+export const PROFILE_HANDLE_CONSTRAINT = 'profiles_handle_idx'
+
+export const MAX_PROFILE_LINKS = 50
+
+// Links on a profile page carry ?via=bio so their clicks can be counted as
+// coming from it (see lib/analytics.ts). The short-link page takes it off
+// again before forwarding the query to the destination.
+export const PROFILE_SOURCE_PARAM = 'via'
+const PROFILE_SOURCE_VALUE = 'bio'
+
+const HANDLE_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/
+
+export const profileFormSchema = z.object({
+  handle: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(3, 'Use at least 3 characters')
+    .max(30, 'Use at most 30 characters')
+    .regex(HANDLE_PATTERN, 'Use letters, numbers and hyphens, starting and ending with a letter or number')
+    .refine((handle) => !containsBlockedWord(handle), 'That handle is not allowed. Try another one.'),
+  title: z.string().trim().min(1, 'Give the page a title').max(100, 'Use at most 100 characters'),
+  bio: z.string().trim().max(300, 'Use at most 300 characters'),
+})
+
+export type ProfileFormInput = z.infer<typeof profileFormSchema>
+export type ProfileFieldErrors = Partial<Record<keyof ProfileFormInput, string[]>>
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+// The link's own title, else its page's, else where it goes
+export function getProfileLinkLabel(link: Pick<Link, 'title' | 'previewTitle' | 'url'>) {
+  return link.title || link.previewTitle || new URL(link.url).hostname
+}
+
+// A short URL as it's linked from a profile page
+export function withProfileSource(shortUrl: string) {
+  return `${shortUrl}?${PROFILE_SOURCE_PARAM}=${PROFILE_SOURCE_VALUE}`
+}
+
+// Splits the profile marker off a short link's query
+export function takeProfileSource(params: SearchParams) {
+  const { [PROFILE_SOURCE_PARAM]: source, ...query } = params
+  return source === PROFILE_SOURCE_VALUE ? { fromProfile: true, query } : { fromProfile: false, query: params }
+}
+
+export async function getProfile(workspaceId: string) {
+  const profile = await db.query.profiles.findFirst({ where: eq(profiles.workspaceId, workspaceId) })
+  return profile ?? null
+}
+
+export async function getProfileByHandle(handle: string) {
+  const profile = await db.query.profiles.findFirst({ where: eq(profiles.handle, handle.toLowerCase()) })
+  return profile ?? null
+}
+
+// Creates the workspace's page or updates it; a taken handle fails on PROFILE_HANDLE_CONSTRAINT
+export async function saveProfile(workspaceId: string, values: ProfileFormInput) {
+  const [profile] = await db
+    .insert(profiles)
+    .values({ workspaceId, ...values, bio: values.bio || null })
+    .onConflictDoUpdate({
+      target: profiles.workspaceId,
+      set: { ...values, bio: values.bio || null, updatedAt: new Date() },
+    })
+    .returning()
+
+  return profile
+}
+
+// Its list goes with it
+export async function deleteProfile(workspaceId: string) {
+  await db.delete(profiles).where(eq(profiles.workspaceId, workspaceId))
+}
+
+// In page order. Links in the trash keep their place but aren't listed.
+export async function getProfileLinks(workspaceId: string) {
+  const rows = await db
+    .select({ link: links })
+    .from(profileLinks)
+    .innerJoin(links, eq(links.id, profileLinks.linkId))
+    .where(and(eq(profileLinks.workspaceId, workspaceId), notDeleted))
+    .orderBy(asc(profileLinks.position), asc(profileLinks.linkId))
+
+  return rows.map((row) => row.link)
+}
+
+// What visitors see: archived, expired and disabled links are left out
+export async function getVisibleProfileLinks(workspaceId: string) {
+  const now = new Date()
+  return (await getProfileLinks(workspaceId)).filter((link) => getLinkStatus(link, now).state === 'active')
+}
+
+export async function countProfileLinks(workspaceId: string) {
+  const [{ value }] = await db
+    .select({ value: count() })
+    .from(profileLinks)
+    .where(eq(profileLinks.workspaceId, workspaceId))
+
+  return value
+}
+
+export async function isProfileLink(workspaceId: string, linkId: string) {
+  const row = await db.query.profileLinks.findFirst({
+    columns: { linkId: true },
+    where: and(eq(profileLinks.workspaceId, workspaceId), eq(profileLinks.linkId, linkId)),
+  })
+
+  return !!row
+}
+
+// Appends to the bottom of the page. Returns false when it was already there.
+export async function addProfileLink(workspaceId: string, linkId: string) {
+  const added = await db
+    .insert(profileLinks)
+    .values({
+      workspaceId,
+      linkId,
+      position: sql`(select coalesce(max(${profileLinks.position}) + 1, 0) from ${profileLinks} where ${profileLinks.workspaceId} = ${workspaceId})`,
+    })
+    .onConflictDoNothing()
+    .returning({ linkId: profileLinks.linkId })
+
+  return added.length > 0
+}
+
+export async function removeProfileLink(workspaceId: string, linkId: string) {
+  const removed = await db
+    .delete(profileLinks)
+    .where(and(eq(profileLinks.workspaceId, workspaceId), eq(profileLinks.linkId, linkId)))
+    .returning({ linkId: profileLinks.linkId })
+
+  return removed.length > 0
+}
+
+// Swaps the link with its neighbour among the listed links. Returns false when
+// it isn't on the page or is already at that end.
+export async function moveProfileLink(workspaceId: string, linkId: string, direction: 'up' | 'down') {
+  const order = await db
+    .select({ linkId: profileLinks.linkId, position: profileLinks.position })
+    .from(profileLinks)
+    .innerJoin(links, eq(links.id, profileLinks.linkId))
+    .where(and(eq(profileLinks.workspaceId, workspaceId), notDeleted))
+    .orderBy(asc(profileLinks.position), asc(profileLinks.linkId))
+
+  const index = order.findIndex((entry) => entry.linkId === linkId)
+  const neighbour = order[direction === 'up' ? index - 1 : index + 1]
+  if (index === -1 || !neighbour) return false
+
+  const moved = order[index]
+  await db
+    .update(profileLinks)
+    .set({
+      position: sql`case ${profileLinks.linkId} when ${moved.linkId} then ${neighbour.position}::integer else ${moved.position}::integer end`,
+    })
+    .where(and(eq(profileLinks.workspaceId, workspaceId), inArray(profileLinks.linkId, [moved.linkId, neighbour.linkId])))
+
+  return true
+}
@@ -0,0 +1,53 @@
+import { BlockList, isIP } from 'node:net'
+
+// Addresses a server-side request must never reach: loopback, private
+// networks, link-local (including cloud metadata endpoints), carrier-grade
+// NAT, multicast and other reserved ranges.
+const blocked = new BlockList()
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4')
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped in hex form; the dotted form is checked as IPv4 below
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6')
+}
+
+// "::ffff:127.0.0.1" reaches 127.0.0.1, so IPv4-mapped addresses are checked as IPv4
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i
+
+export function isPublicAddress(address: string) {
+  const mapped = address.match(IPV4_MAPPED)?.[1]
+  if (mapped) return isPublicAddress(mapped)
+
+  const family = isIP(address)
+  if (family === 4) return !blocked.check(address, 'ipv4')
+  if (family === 6) return !blocked.check(address, 'ipv6')
+  return false
+}
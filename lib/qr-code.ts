@@ -0,0 +1,19 @@
+import QRCode from 'qrcode'
+import type { QrOptions } from '@/lib/qr-options'
+
+export async function renderQrCode(text: string, options: QrOptions) {
+  const rendererOptions = {
+    errorCorrectionLevel: options.level,
+    width: options.size,
+    margin: 4,
+    color: { dark: options.foreground, light: options.background },
+  }
+
+  if (options.format === 'svg') {
+    const svg = await QRCode.toString(text, { ...rendererOptions, type: 'svg' })
+    return { body: svg, contentType: 'image/svg+xml' }
+  }
+
+  const png = await QRCode.toBuffer(text, { ...rendererOptions, type: 'png' })
+  return { body: new Uint8Array(png), contentType: 'image/png' }
+}
@@ -0,0 +1,66 @@
+import { z } from 'zod'
+
+export const QR_FORMATS = ['svg', 'png'] as const
+export const QR_SIZES = [256, 512, 1024] as const
+// L recovers ~7% of the symbol, M ~15%, Q ~25%, H ~30%
+export const QR_ERROR_LEVELS = ['L', 'M', 'Q', 'H'] as const
+
+// Hex equivalents of --background/--foreground in app/globals.css. The dark
+// theme is an inverted code, which most phone cameras read but some older scanners don't.
+export const QR_THEMES = {
+  light: { foreground: '#0a0a0a', background: '#ffffff' },
+  dark: { foreground: '#fafafa', background: '#0a0a0a' },
+} as const
+
+export type QrFormat = (typeof QR_FORMATS)[number]
+export type QrTheme = keyof typeof QR_THEMES
+
+const hexColorSchema = z
+  .string()
+  .regex(/^#?[0-9a-f]{6}$/i, 'Use a six-digit hex color')
+  .transform((color) => (color.startsWith('#') ? color : `#${color}`).toLowerCase())
+
+// Query parameters for the QR route; fg/bg override the theme colors. Kept
+// apart from lib/qr-code so client components don't bundle the renderer.
+export const qrOptionsSchema = z
+  .object({
+    format: z.enum(QR_FORMATS).default('svg'),
+    size: z.coerce
+      .number()
+      .refine((size) => (QR_SIZES as readonly number[]).includes(size), `Use one of ${QR_SIZES.join(', ')}`)
+      .default(512),
+    level: z.enum(QR_ERROR_LEVELS).default('M'),
+    theme: z.enum(Object.keys(QR_THEMES) as [QrTheme, ...QrTheme[]]).default('light'),
+    fg: hexColorSchema.optional(),
+    bg: hexColorSchema.optional(),
+  })
+  .transform(({ theme, fg, bg, ...options }) => ({
+    ...options,
+    foreground: fg ?? QR_THEMES[theme].foreground,
+    background: bg ?? QR_THEMES[theme].background,
+  }))
+  .refine(({ foreground, background }) => getContrastRatio(foreground, background) >= 3, {
+    message: 'The colors are too similar for scanners to tell apart',
+    path: ['fg'],
+  })
+
+export type QrOptions = z.infer<typeof qrOptionsSchema>
+
+export function parseQrOptions(searchParams: URLSearchParams) {
+  // Absent params fall through to the defaults instead of failing as null
+  return qrOptionsSchema.safeParse(Object.fromEntries(searchParams))
+}
+
+function getRelativeLuminance(hex: string) {
+  const [r, g, b] = [1, 3, 5].map((start) => {
+    const channel = parseInt(hex.slice(start, start + 2), 16) / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+// WCAG contrast ratio, from 1 (identical) to 21 (black on white)
+function getContrastRatio(first: string, second: string) {
+  const luminances = [getRelativeLuminance(first), getRelativeLuminance(second)]
+  return (Math.max(...luminances) + 0.05) / (Math.min(...luminances) + 0.05)
+}
@@ -0,0 +1,50 @@
+import type { QueryForwarding } from '@/db/schema'
+
+// Passing the short URL's query string on to the destination, so
+// /launch?ref=newsletter lands on https://example.com/?ref=newsletter.
+// Parameters the destination doesn't have are always added. For a name the
+// destination already has, the link's mode decides:
+//   preserve  the destination's value is kept and the incoming one dropped,
+//             so visitors can't rewrite the link's own campaign tags
+//   override  every incoming value replaces the destination's values
+// Repeated names (?a=1&a=2) move over as a group either way.
+
+export const QUERY_FORWARDING_MODES = ['off', 'preserve', 'override'] as const satisfies readonly QueryForwarding[]
+
+export const QUERY_FORWARDING_LABELS = {
+  off: 'Off',
+  preserve: "Add new parameters, keep the destination's values",
+  override: "Add new parameters, replace the destination's values",
+} satisfies Record<QueryForwarding, string>
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+export function toQueryString(params: SearchParams) {
+  const query = new URLSearchParams()
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of value === undefined ? [] : Array.isArray(value) ? value : [value]) {
+      query.append(name, item)
+    }
+  }
+  return query.toString()
+}
+
+export function forwardQuery(destination: string, incoming: SearchParams, mode: QueryForwarding) {
+  const names = Object.keys(incoming)
+  if (mode === 'off' || names.length === 0) return destination
+
+  const url = new URL(destination)
+  for (const name of names) {
+    const value = incoming[name]
+    if (value === undefined) continue
+    if (url.searchParams.has(name)) {
+      if (mode === 'preserve') continue
+      url.searchParams.delete(name)
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(name, item)
+    }
+  }
+
+  return url.toString()
+}
@@ -0,0 +1,120 @@
+import { and, eq, gt, lt, sql } from 'drizzle-orm'
+import { db } from '@/db'
+import { rateLimits } from '@/db/schema'
+
+// Fixed-window counters for lib/rate-limit.ts. Picked with RATE_LIMIT_STORE:
+//   memory    (default) per server instance, so each instance allows the full
+//             limit on its own. Fine for a single instance.
+//   postgres  shared by every instance through the rate_limits table, at the
+//             cost of a query per check
+//   off       no limits
+
+export type RateLimitWindow = { count: number; resetAt: Date }
+
+export type RateLimitStore = {
+  // Adds `cost` to the key's window, starting a new window when the last one is over
+  increment(key: string, cost: number, windowMs: number): Promise<RateLimitWindow>
+  // The key's current window without counting anything, or null when there is none
+  get(key: string): Promise<RateLimitWindow | null>
+  // Takes `cost` back off the key's current window, if it still has one
+  release(key: string, cost: number): Promise<void>
+}
+
+// Expired windows are replaced lazily; the sweep keeps memory bounded when
+// many keys (visitor IPs) are seen only once
+const SWEEP_INTERVAL_MS = 60_000
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+  let lastSweep = Date.now()
+
+  function current(key: string, now: number) {
+    const window = windows.get(key)
+    return window && window.resetAt > now ? window : null
+  }
+
+  function sweep(now: number) {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return
+    lastSweep = now
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key)
+    }
+  }
+
+  return {
+    async increment(key, cost, windowMs) {
+      const now = Date.now()
+      sweep(now)
+
+      const window = current(key, now) ?? { count: 0, resetAt: now + windowMs }
+      window.count += cost
+      windows.set(key, window)
+      return { count: window.count, resetAt: new Date(window.resetAt) }
+    },
+
+    async get(key) {
+      const window = current(key, Date.now())
+      return window && { count: window.count, resetAt: new Date(window.resetAt) }
+    },
+
+    async release(key, cost) {
+      const window = current(key, Date.now())
+      if (window) window.count = Math.max(0, window.count - cost)
+    },
+  }
+}
+
+// One in this many increments also deletes expired rows
+const PRUNE_EVERY = 100
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async increment(key, cost, windowMs) {
+      const expired = sql`${rateLimits.resetAt} <= now()`
+      const [window] = await db
+        .insert(rateLimits)
+        .values({ key, count: cost, resetAt: sql`now() + make_interval(secs => ${windowMs / 1000})` })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: {
+            count: sql`case when ${expired} then excluded.count else ${rateLimits.count} + excluded.count end`,
+            resetAt: sql`case when ${expired} then excluded.reset_at else ${rateLimits.resetAt} end`,
+          },
+        })
+        .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt })
+
+      if (Math.random() * PRUNE_EVERY < 1) {
+        await db.delete(rateLimits).where(lt(rateLimits.resetAt, sql`now()`))
+      }
+      return window
+    },
+
+    async get(key) {
+      const window = await db.query.rateLimits.findFirst({
+        columns: { count: true, resetAt: true },
+        where: and(eq(rateLimits.key, key), gt(rateLimits.resetAt, sql`now()`)),
+      })
+      return window ?? null
+    },
+
+    async release(key, cost) {
+      await db
+        .update(rateLimits)
+        .set({ count: sql`greatest(0, ${rateLimits.count} - ${cost})` })
+        .where(and(eq(rateLimits.key, key), gt(rateLimits.resetAt, sql`now()`)))
+    },
+  }
+}
+
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore | null {
+  switch (env.RATE_LIMIT_STORE ?? 'memory') {
+    case 'off':
+      return null
+    case 'postgres':
+      return createPostgresRateLimitStore()
+    case 'memory':
+      return createMemoryRateLimitStore()
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${env.RATE_LIMIT_STORE}"; use memory, postgres or off`)
+  }
+}
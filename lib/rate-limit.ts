@@ -0,0 +1,141 @@
+import { readPositiveInteger } from '@/lib/env'
+import { createRateLimitStore, type RateLimitStore, type RateLimitWindow } from '@/lib/rate-limit-store'
+
+// Request and quota limits, each counted per subject (a user ID or a visitor
+// IP) in fixed windows. Backends are in lib/rate-limit-store.ts.
+
+export type RateLimitName = 'linkCreation' | 'redirect' | 'shortCodeMiss'
+
+type RateLimitRule = { limit: number; windowMs: number }
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: Date
+}
+
+const MINUTE_MS = 60_000
+
+export function getRateLimitRules(env: NodeJS.ProcessEnv = process.env): Record<RateLimitName, RateLimitRule> {
+  return {
+    // New links per user per day, from the dashboard, imports and the API together
+    linkCreation: { limit: readPositiveInteger(env.RATE_LIMIT_LINKS_PER_DAY, 1_000), windowMs: 24 * 60 * MINUTE_MS },
+    // Short-link requests per visitor IP
+    redirect: { limit: readPositiveInteger(env.RATE_LIMIT_REDIRECTS_PER_MINUTE, 300), windowMs: MINUTE_MS },
+    // Codes that don't exist per visitor IP, so nobody can walk the code space
+    // looking for links. Once used up, every short link is refused to that IP.
+    shortCodeMiss: { limit: readPositiveInteger(env.RATE_LIMIT_MISSES_PER_HOUR, 100), windowMs: 60 * MINUTE_MS },
+  }
+}
+
+// proxy.ts is bundled apart from the app, so module state isn't shared between
+// them; on globalThis both count in the same memory store
+const shared = globalThis as typeof globalThis & { rateLimitStore?: RateLimitStore | null }
+
+function getStore() {
+  if (shared.rateLimitStore === undefined) shared.rateLimitStore = createRateLimitStore()
+  return shared.rateLimitStore
+}
+
+function toResult(rule: RateLimitRule, window: RateLimitWindow | null, allowed: boolean): RateLimitResult {
+  const count = window?.count ?? 0
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    resetAt: window?.resetAt ?? new Date(Date.now() + rule.windowMs),
+  }
+}
+
+// Counts `cost` against the subject's limit. Counting and checking are one
+// step, so requests running side by side can't all slip under the limit. A
+// cost above what's left (a big import) is refused and given back, so it uses
+// none of it up. Store trouble is logged and lets the request through: a
+// broken limiter must not take the app down.
+export async function consumeRateLimit(name: RateLimitName, subject: string, cost = 1): Promise<RateLimitResult> {
+  const rule = getRateLimitRules()[name]
+  const key = `${name}:${subject}`
+  const store = getStore()
+  if (!store) return toResult(rule, null, true)
+
+  try {
+    const window = await store.increment(key, cost, rule.windowMs)
+    if (window.count <= rule.limit) return toResult(rule, window, true)
+
+    await store.release(key, cost)
+    return toResult(rule, { ...window, count: window.count - cost }, false)
+  } catch (error) {
+    console.error(`Rate limit ${name} failed:`, error)
+    return toResult(rule, null, true)
+  }
+}
+
+// Gives back what consumeRateLimit counted for work that then failed, such as
+// a link whose short code turned out to be taken
+export async function releaseRateLimit(name: RateLimitName, subject: string, cost = 1) {
+  const store = getStore()
+  if (!store || cost <= 0) return
+
+  try {
+    await store.release(`${name}:${subject}`, cost)
+  } catch (error) {
+    console.error(`Rate limit ${name} failed:`, error)
+  }
+}
+
+// Where the subject stands without counting anything; `allowed` says whether one more would be
+export async function getRateLimit(name: RateLimitName, subject: string): Promise<RateLimitResult> {
+  const rule = getRateLimitRules()[name]
+  const store = getStore()
+  if (!store) return toResult(rule, null, true)
+
+  try {
+    const window = await store.get(`${name}:${subject}`)
+    return toResult(rule, window, (window?.count ?? 0) < rule.limit)
+  } catch (error) {
+    console.error(`Rate limit ${name} failed:`, error)
+    return toResult(rule, null, true)
+  }
+}
+
+export function getRetryAfterSeconds(result: RateLimitResult) {
+  return Math.max(1, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000))
+}
+
+// For 429 responses
+export function rateLimitHeaders(result: RateLimitResult) {
+  return {
+    'Retry-After': String(getRetryAfterSeconds(result)),
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+  }
+}
+
+// Checked in proxy.ts before every short link. Returns the limit the visitor
+// ran into, or null when the request may go ahead.
+export async function checkVisitorLimits(ip: string) {
+  const [redirects, misses] = await Promise.all([
+    consumeRateLimit('redirect', ip),
+    getRateLimit('shortCodeMiss', ip),
+  ])
+
+  if (!redirects.allowed) return redirects
+  if (!misses.allowed) return misses
+  return null
+}
+
+const relativeTime = new Intl.RelativeTimeFormat('en-US', { numeric: 'auto' })
+
+function formatRetryAfter(result: RateLimitResult) {
+  const minutes = Math.ceil(getRetryAfterSeconds(result) / 60)
+  return minutes < 60 ? relativeTime.format(minutes, 'minute') : relativeTime.format(Math.ceil(minutes / 60), 'hour')
+}
+
+// Shown when creating or importing links would go over the daily quota
+export function describeLinkQuota(result: RateLimitResult) {
+  const resets = `Your quota resets ${formatRetryAfter(result)}.`
+  return result.remaining === 0
+    ? `You've used all ${result.limit} new links in your daily quota. ${resets}`
+    : `Only ${result.remaining} more ${result.remaining === 1 ? 'link fits' : 'links fit'} in your daily quota. ${resets}`
+}
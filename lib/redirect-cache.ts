@@ -0,0 +1,91 @@
+import { getTableColumns } from 'drizzle-orm'
+import { PgTimestamp } from 'drizzle-orm/pg-core'
+import { links, type Link } from '@/db/schema'
+import { createCacheStore, getCacheTtlSeconds, type CacheStore } from '@/lib/cache-store'
+
+// Cache for the two lookups every redirect makes: which domain the Host header
+// belongs to, and the link for a code on that domain. Only hits are cached for
+// links, so creating a link needs no invalidation; anything that changes or
+// deletes one calls invalidateLinks. Backends are in lib/cache-store.ts.
+
+// What a redirect needs to know about a verified custom domain
+export type HostDomain = { id: string; fallbackUrl: string | null }
+
+type LinkKey = Pick<Link, 'domainId' | 'shortCode'>
+
+let store: CacheStore | null | undefined
+
+function getStore() {
+  if (store === undefined) store = createCacheStore()
+  return store
+}
+
+const linkKey = ({ domainId, shortCode }: LinkKey) => `link:${domainId ?? '-'}:${shortCode}`
+const hostKey = (hostname: string) => `host:${hostname}`
+
+// Cache trouble is logged and treated as a miss: the database still has the answer
+async function read(key: string) {
+  try {
+    return (await getStore()?.get(key)) ?? null
+  } catch (error) {
+    console.error('Redirect cache read failed:', error)
+    return null
+  }
+}
+
+async function write(key: string, value: unknown) {
+  try {
+    await getStore()?.set(key, JSON.stringify(value), getCacheTtlSeconds())
+  } catch (error) {
+    console.error('Redirect cache write failed:', error)
+  }
+}
+
+async function remove(keys: string[]) {
+  try {
+    await getStore()?.delete(keys)
+  } catch (error) {
+    console.error('Redirect cache invalidation failed:', error)
+  }
+}
+
+// JSON turns dates into strings; the column types say which ones to turn back
+const LINK_DATE_FIELDS = Object.entries(getTableColumns(links))
+  .filter(([, column]) => column instanceof PgTimestamp)
+  .map(([name]) => name)
+
+function reviveLink(raw: string) {
+  const link = JSON.parse(raw)
+  for (const field of LINK_DATE_FIELDS) {
+    if (link[field] !== null) link[field] = new Date(link[field])
+  }
+  return link as Link
+}
+
+export async function getCachedLink(key: LinkKey, load: () => Promise<Link | null>) {
+  const raw = await read(linkKey(key))
+  if (raw) return reviveLink(raw)
+
+  const link = await load()
+  if (link) await write(linkKey(key), link)
+  return link
+}
+
+// null (the app's own host) is cached too, so plain hosts skip the lookup
+export async function getCachedHost(hostname: string, load: () => Promise<HostDomain | null>) {
+  const raw = await read(hostKey(hostname))
+  if (raw) return JSON.parse(raw) as HostDomain | null
+
+  const domain = await load()
+  await write(hostKey(hostname), domain)
+  return domain
+}
+
+export async function invalidateLinks(keys: LinkKey[]) {
+  if (keys.length > 0) await remove(keys.map(linkKey))
+}
+
+// After a domain is verified, deleted or gets a new fallback URL
+export async function invalidateHosts(hostnames: string[]) {
+  if (hostnames.length > 0) await remove(hostnames.map(hostKey))
+}
@@ -0,0 +1,5 @@
+// Best-effort client IP behind Vercel or another reverse proxy
+export function getClientIp(headers: Headers) {
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwardedFor || headers.get('x-real-ip') || 'unknown'
+}
@@ -0,0 +1,171 @@
+import { z } from 'zod'
+import type { DeviceClass } from '@/db/schema'
+import { normalizeCountryCode } from '@/lib/geo'
+import { getOperatingSystem, OPERATING_SYSTEMS, parseUserAgent, type OperatingSystem } from '@/lib/user-agent'
+
+// Ordered per-link rules that pick a destination for each visitor. The first
+// rule whose conditions all match wins; a rule without conditions matches
+// everyone. With several destinations the rule splits traffic by weight.
+// Nothing matching means the link's own URL. Client-safe, so the dashboard
+// simulator evaluates exactly what the redirect does.
+
+export const MAX_ROUTING_RULES = 20
+export const MAX_RULE_DESTINATIONS = 10
+export const MAX_DESTINATION_WEIGHT = 100
+
+export const ROUTING_DEVICES = ['desktop', 'mobile', 'tablet'] as const satisfies readonly DeviceClass[]
+
+export const OPERATING_SYSTEM_LABELS = {
+  ios: 'iOS',
+  android: 'Android',
+  windows: 'Windows',
+  macos: 'macOS',
+  linux: 'Linux',
+  chromeos: 'ChromeOS',
+  other: 'Other',
+} satisfies Record<OperatingSystem, string>
+
+const routingDestinationSchema = z.object({
+  url: z.string().trim().pipe(z.url({ protocol: /^https?$/, message: 'Enter a valid http(s) URL' })),
+  weight: z
+    .number({ message: 'Enter a weight' })
+    .int('Use a whole number')
+    .min(1, 'Use a weight of at least 1')
+    .max(MAX_DESTINATION_WEIGHT, `Use a weight of at most ${MAX_DESTINATION_WEIGHT}`),
+})
+
+const dateTimeSchema = z.iso.datetime({ offset: true, message: 'Use an ISO 8601 date-time' })
+
+// Empty lists are the same as no condition
+const routingConditionsSchema = z
+  .object({
+    os: z.array(z.enum(OPERATING_SYSTEMS, 'Pick a known operating system')).optional(),
+    device: z.array(z.enum(ROUTING_DEVICES, 'Pick desktop, mobile or tablet')).optional(),
+    country: z
+      .array(z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Use two-letter country codes such as US or DE'))
+      .max(50, 'Use at most 50 countries')
+      .optional(),
+    language: z
+      .array(z.string().trim().toLowerCase().regex(/^[a-z]{2,3}$/, 'Use language codes such as en or de'))
+      .max(50, 'Use at most 50 languages')
+      .optional(),
+    // Matches from startsAt (inclusive) until endsAt (exclusive)
+    startsAt: dateTimeSchema.optional(),
+    endsAt: dateTimeSchema.optional(),
+  })
+  .refine(
+    ({ startsAt, endsAt }) => !startsAt || !endsAt || new Date(startsAt) < new Date(endsAt),
+    { message: 'The time window must end after it starts', path: ['endsAt'] }
+  )
+
+const routingRuleSchema = z.object({
+  name: z.string().trim().max(60, 'Use at most 60 characters for the name').optional(),
+  conditions: routingConditionsSchema,
+  destinations: z
+    .array(routingDestinationSchema)
+    .min(1, 'Add at least one destination')
+    .max(MAX_RULE_DESTINATIONS, `Use at most ${MAX_RULE_DESTINATIONS} destinations`),
+})
+
+export const routingRulesSchema = z
+  .array(routingRuleSchema)
+  .max(MAX_ROUTING_RULES, `Use at most ${MAX_ROUTING_RULES} rules`)
+
+export type RoutingRule = z.infer<typeof routingRuleSchema>
+export type RoutingConditions = RoutingRule['conditions']
+
+// "Rule 2, destination 1: Enter a valid http(s) URL"
+export function formatRoutingRuleIssues(error: z.ZodError) {
+  return error.issues.map(({ path, message }) => {
+    const [rule, field, index] = path
+    if (typeof rule !== 'number') return message
+    if (field === 'destinations' && typeof index === 'number') {
+      return `Rule ${rule + 1}, destination ${index + 1}: ${message}`
+    }
+    return `Rule ${rule + 1}: ${message}`
+  })
+}
+
+export type Visitor = {
+  os: OperatingSystem
+  device: DeviceClass
+  country: string | null // ISO 3166-1 alpha-2, uppercase
+  language: string | null // Primary subtag of the preferred language, lowercase
+  now: Date
+}
+
+// The most preferred language in an Accept-Language header: "de-CH,de;q=0.9" is "de"
+export function getPreferredLanguage(acceptLanguage: string | null) {
+  const languages = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const quality = params.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean)
+      return { tag: tag.trim().toLowerCase(), quality: quality ? Number(quality) : 1, index }
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  return languages[0]?.tag.split('-')[0] || null
+}
+
+function includesIfSet<T>(allowed: T[] | undefined, value: T | null) {
+  return !allowed?.length || (value !== null && allowed.includes(value))
+}
+
+export function matchesRule(conditions: RoutingConditions, visitor: Visitor) {
+  return (
+    includesIfSet(conditions.os, visitor.os) &&
+    includesIfSet<DeviceClass>(conditions.device, visitor.device) &&
+    includesIfSet(conditions.country, visitor.country) &&
+    includesIfSet(conditions.language, visitor.language) &&
+    (!conditions.startsAt || visitor.now >= new Date(conditions.startsAt)) &&
+    (!conditions.endsAt || visitor.now < new Date(conditions.endsAt))
+  )
+}
+
+export function findMatchingRule(rules: RoutingRule[], visitor: Visitor) {
+  const index = rules.findIndex((rule) => matchesRule(rule.conditions, visitor))
+  return index === -1 ? null : index
+}
+
+// Each destination's share of the rule's traffic, from 0 to 1
+export function getDestinationShares(rule: RoutingRule) {
+  const total = rule.destinations.reduce((sum, { weight }) => sum + weight, 0)
+  return rule.destinations.map(({ url, weight }) => ({ url, share: weight / total }))
+}
+
+export type RoutedDestination = { url: string; ruleIndex: number | null }
+
+// `random` is injectable so splits can be tested deterministically
+export function pickDestination(
+  fallbackUrl: string,
+  rules: RoutingRule[],
+  visitor: Visitor,
+  random: () => number = Math.random
+): RoutedDestination {
+  const ruleIndex = findMatchingRule(rules, visitor)
+  if (ruleIndex === null) return { url: fallbackUrl, ruleIndex: null }
+
+  const shares = getDestinationShares(rules[ruleIndex])
+  let point = random()
+  for (const { url, share } of shares) {
+    if (point < share) return { url, ruleIndex }
+    point -= share
+  }
+
+  // Floating-point leftovers land on the last destination
+  return { url: shares[shares.length - 1].url, ruleIndex }
+}
+
+type VisitorContext = { userAgent: string | null; country: string | null }
+
+export function getVisitor(context: VisitorContext, acceptLanguage: string | null, now = new Date()): Visitor {
+  return {
+    os: getOperatingSystem(context.userAgent),
+    device: parseUserAgent(context.userAgent).device,
+    country: normalizeCountryCode(context.country),
+    language: getPreferredLanguage(acceptLanguage),
+    now,
+  }
+}
@@ -0,0 +1,182 @@
+import { lookup as dnsLookup } from 'node:dns'
+import http, { type IncomingHttpHeaders, type IncomingMessage } from 'node:http'
+import https from 'node:https'
+import { isIP, type LookupFunction } from 'node:net'
+import { pipeline, type Readable } from 'node:stream'
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib'
+import { isPublicAddress } from '@/lib/public-address'
+
+// Outbound requests to user-supplied URLs. Every hop is resolved and checked
+// against isPublicAddress at connect time, so a hostname that resolves to a
+// private address (or a redirect to one) is refused rather than fetched.
+
+const DEFAULT_TIMEOUT_MS = 5_000
+const DEFAULT_MAX_BYTES = 512 * 1024
+const DEFAULT_MAX_REDIRECTS = 3
+
+export type SafeFetchOptions = {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  // Covers the whole exchange, redirects included
+  timeoutMs?: number
+  // Bodies are cut off (after decompression) at this size
+  maxBytes?: number
+  // Only GET requests follow redirects
+  maxRedirects?: number
+  // Defaults to isPublicAddress; tests against a local stub server pass () => true
+  isAllowedAddress?: (address: string) => boolean
+}
+
+export type SafeResponse = {
+  url: string // After redirects
+  status: number
+  headers: IncomingHttpHeaders
+  body: Buffer
+  truncated: boolean
+}
+
+// Messages are safe to show to the user who supplied the URL
+export class SafeFetchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SafeFetchError'
+  }
+}
+
+function guardedLookup(isAllowedAddress: (address: string) => boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0)
+
+      if (addresses.length === 0 || addresses.some(({ address }) => !isAllowedAddress(address))) {
+        return callback(new SafeFetchError('The address points to a private network'), '', 0)
+      }
+
+      if (options.all) {
+        // The LookupFunction type only describes the single-address form
+        const callbackAll = callback as unknown as (error: null, all: typeof addresses) => void
+        callbackAll(null, addresses)
+      } else {
+        callback(null, addresses[0].address, addresses[0].family)
+      }
+    })
+  }
+}
+
+function checkTarget(url: URL, isAllowedAddress: (address: string) => boolean) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError('Only http(s) URLs can be fetched')
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('URLs with credentials cannot be fetched')
+  }
+
+  // IP literals skip the lookup entirely, so check them up front
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && !isAllowedAddress(host)) {
+    throw new SafeFetchError('The address points to a private network')
+  }
+}
+
+function createDecoder(encoding: string | undefined) {
+  switch (encoding) {
+    case 'gzip':
+    case 'x-gzip':
+      return createGunzip()
+    case 'deflate':
+      return createInflate()
+    case 'br':
+      return createBrotliDecompress()
+    default:
+      return null
+  }
+}
+
+// pipeline() rather than pipe() so a timeout or a corrupt body ends the read
+function decode(response: IncomingMessage): Readable {
+  const decoder = createDecoder(response.headers['content-encoding'])
+  return decoder ? pipeline(response, decoder, () => {}) : response
+}
+
+async function readBody(response: IncomingMessage, maxBytes: number) {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of decode(response)) {
+    const buffer = chunk as Buffer
+    if (size + buffer.length > maxBytes) {
+      chunks.push(buffer.subarray(0, maxBytes - size))
+      response.destroy()
+      return { body: Buffer.concat(chunks), truncated: true }
+    }
+    chunks.push(buffer)
+    size += buffer.length
+  }
+
+  return { body: Buffer.concat(chunks), truncated: false }
+}
+
+function send(url: URL, options: SafeFetchOptions, signal: AbortSignal, lookup: LookupFunction) {
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: options.method ?? 'GET',
+      headers: { 'accept-encoding': 'gzip, deflate, br', ...options.headers },
+      lookup,
+      // A pooled keep-alive socket skips the lookup, and with it the address
+      // check, so every request opens its own connection
+      agent: false,
+      signal,
+    })
+    request.on('response', resolve)
+    request.on('error', reject)
+    request.end(options.body)
+  })
+}
+
+function describeError(error: unknown, signal: AbortSignal) {
+  if (error instanceof SafeFetchError) return error
+  if (signal.aborted) return new SafeFetchError('The request timed out')
+
+  const code = (error as NodeJS.ErrnoException).code
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return new SafeFetchError('The host could not be found')
+  if (code?.startsWith('ERR_TLS') || code?.includes('CERT')) {
+    return new SafeFetchError('The host has an invalid TLS certificate')
+  }
+  return new SafeFetchError('The host could not be reached')
+}
+
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const isAllowedAddress = options.isAllowedAddress ?? isPublicAddress
+  const maxRedirects = options.method === 'POST' ? 0 : (options.maxRedirects ?? DEFAULT_MAX_REDIRECTS)
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const lookup = guardedLookup(isAllowedAddress)
+
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch {
+    throw new SafeFetchError('The URL is invalid')
+  }
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      checkTarget(url, isAllowedAddress)
+      const response = await send(url, options, signal, lookup)
+      const status = response.statusCode ?? 0
+      const location = response.headers.location
+
+      if (status >= 300 && status < 400 && location && maxRedirects > 0) {
+        response.resume()
+        if (redirects >= maxRedirects) throw new SafeFetchError('The page redirects too many times')
+        url = new URL(location, url)
+        continue
+      }
+
+      const { body, truncated } = await readBody(response, options.maxBytes ?? DEFAULT_MAX_BYTES)
+      return { url: url.toString(), status, headers: response.headers, body, truncated }
+    }
+  } catch (error) {
+    throw describeError(error, signal)
+  }
+}
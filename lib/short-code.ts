@@ -0,0 +1,61 @@
+import { customAlphabet } from 'nanoid'
+import { containsBlockedWord } from '@/lib/alias-blocklist'
+
+// Top-level path segments that belong to the app itself. A single-segment
+// path that is not in this list is treated as a short code, and custom
+// aliases may not take any of them.
+export const RESERVED_ROUTES = ['dashboard', 'admin', 'report', 'sign-in', 'sign-up', 'u', 'api', 'trpc', '_next'] as const
+
+// Matches the length of `links.short_code` (varchar(20))
+export const SHORT_CODE_MAX_LENGTH = 20
+export const ALIAS_MIN_LENGTH = 3
+
+// Letters, digits, hyphens and underscores, starting and ending with a letter or digit
+const ALIAS_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?$/
+
+// No lookalike characters (0/O, 1/l/I) so generated codes survive being read aloud or printed.
+// 7 characters from 54 gives ~1.3e12 codes, so clashes are rare and handled by a retry.
+const generate = customAlphabet('23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ', 7)
+
+export function isReservedRoute(segment: string) {
+  return (RESERVED_ROUTES as readonly string[]).includes(segment.toLowerCase())
+}
+
+// Returns the short code for a `/<shortCode>` path, or null for app routes,
+// nested paths and the homepage
+export function getShortCodeFromPath(pathname: string) {
+  const segments = pathname.split('/').filter(Boolean)
+
+  if (segments.length !== 1 || isReservedRoute(segments[0])) {
+    return null
+  }
+
+  return segments[0]
+}
+
+// Returns a user-facing message when the alias breaks the policy, or null when it's allowed
+export function getAliasError(alias: string) {
+  if (alias.length < ALIAS_MIN_LENGTH || alias.length > SHORT_CODE_MAX_LENGTH) {
+    return `Aliases must be ${ALIAS_MIN_LENGTH}-${SHORT_CODE_MAX_LENGTH} characters long`
+  }
+  if (!ALIAS_PATTERN.test(alias)) {
+    return 'Use letters, numbers, hyphens and underscores, starting and ending with a letter or number'
+  }
+  if (isReservedRoute(alias)) {
+    return 'That alias is reserved. Try another one.'
+  }
+  if (containsBlockedWord(alias)) {
+    return 'That alias is not allowed. Try another one.'
+  }
+  return null
+}
+
+export function generateShortCode() {
+  let code = generate()
+
+  while (containsBlockedWord(code)) {
+    code = generate()
+  }
+
+  return code
+}
@@ -0,0 +1,5 @@
+// Links on a custom domain are served over https from that domain; the rest
+// from whichever origin the app is being used on. Client-safe.
+export function getShortUrl(shortCode: string, origin: string, hostname?: string | null) {
+  return new URL(`/${shortCode}`, hostname ? `https://${hostname}` : origin).toString()
+}
@@ -0,0 +1,41 @@
+import type { Link } from '@/db/schema'
+import { getLinkStatus } from '@/lib/link-status'
+
+type SocialCardLink = Pick<
+  Link,
+  | 'url'
+  | 'title'
+  | 'previewTitle'
+  | 'previewDescription'
+  | 'previewImage'
+  | 'socialTitle'
+  | 'socialDescription'
+  | 'socialImage'
+  | 'passwordHash'
+  | 'expiresAt'
+  | 'maxClicks'
+  | 'clickCount'
+  | 'disabledAt'
+  | 'archivedAt'
+>
+
+export type SocialCard = {
+  title: string
+  description: string | null
+  image: string | null
+}
+
+// Only links that would redirect get a card: protected, expired, disabled and
+// archived links must not describe their destination to anyone who pastes them
+export function hasSocialCard(link: SocialCardLink) {
+  return getLinkStatus(link).state === 'active' && !link.passwordHash
+}
+
+// What the owner typed wins, then the metadata fetched from the destination
+export function getSocialCard(link: SocialCardLink): SocialCard {
+  return {
+    title: link.socialTitle ?? link.previewTitle ?? link.title ?? new URL(link.url).hostname,
+    description: link.socialDescription ?? link.previewDescription,
+    image: link.socialImage ?? link.previewImage,
+  }
+}
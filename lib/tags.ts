@@ -0,0 +1,86 @@
+import { and, asc, count, eq, inArray, notExists, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { links, linkTags, tags } from '@/db/schema'
+import { notDeleted } from '@/lib/links'
+
+export const MAX_TAGS_PER_LINK = 10
+export const TAG_MAX_LENGTH = 30
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9 _-]*$/
+
+// Lowercased, trimmed and de-duplicated; returns an error message for bad input
+export function parseTagNames(input: string | string[]): string[] | string {
+  const names = [
+    ...new Set(
+      (Array.isArray(input) ? input : input.split(','))
+        .map((name) => name.trim().toLowerCase().replace(/\s+/g, ' '))
+        .filter(Boolean)
+    ),
+  ]
+
+  if (names.length > MAX_TAGS_PER_LINK) return `Use at most ${MAX_TAGS_PER_LINK} tags`
+  if (names.some((name) => name.length > TAG_MAX_LENGTH)) return `Tags can be at most ${TAG_MAX_LENGTH} characters`
+  if (names.some((name) => !TAG_PATTERN.test(name))) {
+    return 'Tags can use letters, digits, spaces, hyphens and underscores'
+  }
+
+  return names
+}
+
+// Tags with at least one link outside the trash, for the dashboard filter
+export async function getWorkspaceTags(workspaceId: string) {
+  return db
+    .select({ name: tags.name, links: count(linkTags.linkId) })
+    .from(tags)
+    .innerJoin(linkTags, eq(linkTags.tagId, tags.id))
+    .innerJoin(links, and(eq(links.id, linkTags.linkId), notDeleted))
+    .where(eq(tags.workspaceId, workspaceId))
+    .groupBy(tags.id, tags.name)
+    .orderBy(asc(tags.name))
+}
+
+export async function getTagsForLinks(linkIds: string[]) {
+  const tagsByLink = new Map<string, string[]>()
+  if (linkIds.length === 0) return tagsByLink
+
+  const rows = await db
+    .select({ linkId: linkTags.linkId, name: tags.name })
+    .from(linkTags)
+    .innerJoin(tags, eq(linkTags.tagId, tags.id))
+    .where(inArray(linkTags.linkId, linkIds))
+    .orderBy(asc(tags.name))
+
+  for (const { linkId, name } of rows) {
+    tagsByLink.set(linkId, [...(tagsByLink.get(linkId) ?? []), name])
+  }
+
+  return tagsByLink
+}
+
+// Replaces the link's tags in one transaction, creating missing tags and
+// dropping ones no link uses any more. The link must belong to the workspace.
+export async function setLinkTags(linkId: string, workspaceId: string, names: string[]) {
+  const workspaceTags = and(eq(tags.workspaceId, workspaceId), inArray(tags.name, names))
+  const unusedTags = and(
+    eq(tags.workspaceId, workspaceId),
+    notExists(db.select().from(linkTags).where(eq(linkTags.tagId, tags.id)))
+  )
+
+  if (names.length === 0) {
+    await db.batch([db.delete(linkTags).where(eq(linkTags.linkId, linkId)), db.delete(tags).where(unusedTags)])
+    return
+  }
+
+  await db.batch([
+    db
+      .insert(tags)
+      .values(names.map((name) => ({ id: nanoid(), workspaceId, name })))
+      .onConflictDoNothing(),
+    db.delete(linkTags).where(eq(linkTags.linkId, linkId)),
+    db
+      .insert(linkTags)
+      .select(db.select({ linkId: sql<string>`${linkId}`.as('link_id'), tagId: tags.id }).from(tags).where(workspaceTags)),
+    db.delete(tags).where(unusedTags),
+  ])
+}
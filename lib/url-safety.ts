@@ -0,0 +1,114 @@
+import { isNotNull } from 'drizzle-orm'
+import { db } from '@/db'
+import { domains } from '@/db/schema'
+import type { RoutingRule } from '@/lib/routing-rules'
+
+// Destination checks run on every create and update (dashboard, API and
+// import). Domain lists match the domain itself and all of its subdomains.
+// Extend them per deployment with comma-separated DOMAIN_BLOCKLIST and
+// DOMAIN_ALLOWLIST environment variables; the allowlist wins over the blocklist.
+const DEFAULT_BLOCKED_DOMAINS = [
+  // Other shorteners: chaining them would hide the real destination from our checks
+  'bit.ly',
+  'tinyurl.com',
+  't.co',
+  'goo.gl',
+  'is.gd',
+  'ow.ly',
+  'buff.ly',
+  'cutt.ly',
+  'rebrand.ly',
+  'shorturl.at',
+  // Google Safe Browsing test pages, handy for checking the block works
+  'testsafebrowsing.appspot.com',
+]
+
+const BLOCKED_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:', 'blob:']
+
+function readDomainList(value: string | undefined) {
+  return (value ?? '')
+    .split(',')
+    .map((domain) => normalizeHost(domain))
+    .filter(Boolean)
+}
+
+let domainLists: { blocked: string[]; allowed: string[] } | undefined
+
+function getDomainLists() {
+  domainLists ??= {
+    blocked: [...DEFAULT_BLOCKED_DOMAINS, ...readDomainList(process.env.DOMAIN_BLOCKLIST)],
+    allowed: readDomainList(process.env.DOMAIN_ALLOWLIST),
+  }
+
+  return domainLists
+}
+
+// Lowercase, without a port or trailing dot, so "Example.COM.:443" matches "example.com"
+export function normalizeHost(host: string) {
+  return host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+}
+
+function matchesDomain(hostname: string, domains: string[]) {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+}
+
+// The app's own hosts: the current request's Host plus any listed in
+// SHORT_LINK_HOSTS (for deployments reachable under several names)
+export function getAppHosts(requestHost: string | null) {
+  return [...(requestHost ? [requestHost] : []), ...readDomainList(process.env.SHORT_LINK_HOSTS)].map(
+    normalizeHost
+  )
+}
+
+// Every host short links are served from: the app's own and every verified
+// custom domain, whichever workspace it belongs to, so links can't chain
+// through another workspace's branded domain either
+export async function getOwnHosts(requestHost: string | null) {
+  const verified = await db.select({ hostname: domains.hostname }).from(domains).where(isNotNull(domains.verifiedAt))
+  return [...getAppHosts(requestHost), ...verified.map(({ hostname }) => hostname)]
+}
+
+export function getDestinationUrlError(url: string, ownHosts: string[]): string | null {
+  if (BLOCKED_SCHEMES.some((scheme) => url.trim().toLowerCase().startsWith(scheme))) {
+    return 'Only http and https links are allowed'
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'Enter a valid http(s) URL'
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Only http and https links are allowed'
+  }
+  // https://paypal.com@evil.example is a classic way to disguise the real host
+  if (parsed.username || parsed.password) {
+    return 'Links with a username or password in them are not allowed'
+  }
+
+  // Exact match only: a shortener on example.com may still link to blog.example.com
+  const hostname = normalizeHost(parsed.hostname)
+  if (ownHosts.includes(hostname)) {
+    return 'Links cannot point back to this shortener'
+  }
+
+  const { blocked, allowed } = getDomainLists()
+  if (matchesDomain(hostname, allowed)) return null
+  if (matchesDomain(hostname, blocked)) return 'Links to that domain are not allowed'
+
+  return null
+}
+
+// Routing rule destinations get the same checks as the link's own URL
+export function getRoutingRulesUrlError(rules: RoutingRule[], ownHosts: string[]): string | null {
+  for (const [ruleIndex, rule] of rules.entries()) {
+    for (const [index, destination] of rule.destinations.entries()) {
+      const error = getDestinationUrlError(destination.url, ownHosts)
+      if (error) return `Rule ${ruleIndex + 1}, destination ${index + 1}: ${error}`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,63 @@
+import type { DeviceClass } from '@/db/schema'
+
+// Crawlers, link unfurlers, uptime monitors and HTTP libraries. Anything
+// matching is recorded but excluded from click counts by default.
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|facebookexternalhit|embedly|quora link preview|outbrain|pinterest|vkshare|w3c_validator|whatsapp|preview|monitor|headless|lighthouse|curl|wget|python-requests|httpclient|okhttp|axios|node-fetch|go-http-client|java\//i
+
+// Order matters: Edge and Opera include "Chrome", Chrome includes "Safari"
+const BROWSERS: Array<[name: string, pattern: RegExp]> = [
+  ['Edge', /edg(e|a|ios)?\//i],
+  ['Opera', /opr\/|opera/i],
+  ['Samsung Internet', /samsungbrowser/i],
+  ['Firefox', /firefox|fxios/i],
+  ['Chrome', /chrome|crios|chromium/i],
+  ['Safari', /safari/i],
+]
+
+export type ParsedUserAgent = {
+  browser: string | null
+  device: DeviceClass
+  isBot: boolean
+}
+
+export function isBotUserAgent(userAgent: string | null) {
+  // Real browsers always send a user agent
+  return !userAgent || BOT_PATTERN.test(userAgent)
+}
+
+export const OPERATING_SYSTEMS = ['ios', 'android', 'windows', 'macos', 'linux', 'chromeos', 'other'] as const
+
+export type OperatingSystem = (typeof OPERATING_SYSTEMS)[number]
+
+// Order matters: iOS user agents say "like Mac OS X" and Android ones say "Linux"
+export function getOperatingSystem(userAgent: string | null): OperatingSystem {
+  if (!userAgent) return 'other'
+  if (/iphone|ipad|ipod/i.test(userAgent)) return 'ios'
+  if (/android/i.test(userAgent)) return 'android'
+  if (/cros/i.test(userAgent)) return 'chromeos'
+  if (/windows/i.test(userAgent)) return 'windows'
+  if (/macintosh|mac os x/i.test(userAgent)) return 'macos'
+  if (/linux|x11/i.test(userAgent)) return 'linux'
+  return 'other'
+}
+
+function getDeviceClass(userAgent: string): DeviceClass {
+  if (/ipad|tablet|playbook|silk|(android(?!.*mobile))/i.test(userAgent)) return 'tablet'
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) return 'mobile'
+  if (/windows|macintosh|linux|cros|x11/i.test(userAgent)) return 'desktop'
+  return 'unknown'
+}
+
+export function parseUserAgent(userAgent: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, device: 'unknown', isBot: true }
+  }
+
+  const isBot = isBotUserAgent(userAgent)
+  const browser = isBot
+    ? null
+    : BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? 'Other'
+
+  return { browser, device: getDeviceClass(userAgent), isBot }
+}
@@ -0,0 +1,203 @@
+import { and, asc, eq, like, ne } from 'drizzle-orm'
+import { db } from '@/db'
+import {
+  apiTokens,
+  auditEvents,
+  domains,
+  linkReports,
+  linkRevisions,
+  links,
+  linkTags,
+  profiles,
+  tags,
+  utmPresets,
+  webhookEndpoints,
+  workspaceMembers,
+  workspaces,
+  type LinkRevision,
+} from '@/db/schema'
+import { recordAuditEvent } from '@/lib/audit-log'
+import { toWebhookLink } from '@/lib/webhook-events'
+import { queueWebhookEvents } from '@/lib/webhooks'
+import { deleteWorkspace, getPersonalWorkspaceId } from '@/lib/workspaces'
+
+// Everything stored about a Clerk user is keyed by their user ID, here for
+// "download my data" and for when Clerk reports the user deleted (see
+// app/api/webhooks/clerk).
+
+// Stands in for a deleted user's ID on what their team keeps
+export const DELETED_USER_ID = 'deleted-user'
+
+// Password hashes stay out of exports, including the ones in link history
+function withoutPasswordHash(revision: LinkRevision) {
+  const { passwordHash, ...snapshot } = revision.snapshot
+  const { passwordHash: passwordChange, ...changes } = revision.changes
+  return {
+    ...revision,
+    snapshot: { ...snapshot, passwordProtected: passwordHash !== null },
+    changes: passwordChange ? { ...changes, password: 'changed' } : changes,
+  }
+}
+
+// A JSON-ready archive of the user's data. Clicks aren't included: they
+// describe visitors, not the user, and the links carry their totals.
+export async function exportUserData(userId: string) {
+  const personalId = getPersonalWorkspaceId(userId)
+
+  const [memberships, createdLinks, linkTagRows, revisions, actions, tokens, presets, personalDomains, endpoints, profile] =
+    await Promise.all([
+      db
+        .select({
+          id: workspaces.id,
+          name: workspaces.name,
+          role: workspaceMembers.role,
+          personalUserId: workspaces.personalUserId,
+          joinedAt: workspaceMembers.createdAt,
+        })
+        .from(workspaceMembers)
+        .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+        .where(eq(workspaceMembers.userId, userId))
+        .orderBy(asc(workspaceMembers.createdAt)),
+      db.select().from(links).where(eq(links.userId, userId)).orderBy(asc(links.createdAt)),
+      db
+        .select({ linkId: linkTags.linkId, name: tags.name })
+        .from(linkTags)
+        .innerJoin(tags, eq(linkTags.tagId, tags.id))
+        .innerJoin(links, eq(linkTags.linkId, links.id))
+        .where(eq(links.userId, userId))
+        .orderBy(asc(tags.name)),
+      db.select().from(linkRevisions).where(eq(linkRevisions.userId, userId)).orderBy(asc(linkRevisions.createdAt)),
+      db.select().from(auditEvents).where(eq(auditEvents.userId, userId)).orderBy(asc(auditEvents.createdAt)),
+      // Without the token hashes
+      db
+        .select({
+          id: apiTokens.id,
+          workspaceId: apiTokens.workspaceId,
+          name: apiTokens.name,
+          tokenPrefix: apiTokens.tokenPrefix,
+          lastUsedAt: apiTokens.lastUsedAt,
+          createdAt: apiTokens.createdAt,
+        })
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, userId))
+        .orderBy(asc(apiTokens.createdAt)),
+      db.select().from(utmPresets).where(eq(utmPresets.userId, userId)).orderBy(asc(utmPresets.name)),
+      db.select().from(domains).where(eq(domains.workspaceId, personalId)).orderBy(asc(domains.hostname)),
+      // Without the signing secrets
+      db
+        .select({
+          id: webhookEndpoints.id,
+          url: webhookEndpoints.url,
+          events: webhookEndpoints.events,
+          createdAt: webhookEndpoints.createdAt,
+        })
+        .from(webhookEndpoints)
+        .where(eq(webhookEndpoints.workspaceId, personalId)),
+      db.query.profiles.findFirst({ where: eq(profiles.workspaceId, personalId) }),
+    ])
+
+  const tagsByLink = new Map<string, string[]>()
+  for (const { linkId, name } of linkTagRows) {
+    tagsByLink.set(linkId, [...(tagsByLink.get(linkId) ?? []), name])
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    userId,
+    workspaces: memberships.map(({ personalUserId, ...membership }) => ({
+      ...membership,
+      personal: personalUserId !== null,
+    })),
+    links: createdLinks.map(({ passwordHash, ...link }) => ({
+      ...link,
+      passwordProtected: passwordHash !== null,
+      tags: tagsByLink.get(link.id) ?? [],
+    })),
+    linkRevisions: revisions.map(withoutPasswordHash),
+    auditEvents: actions,
+    apiTokens: tokens,
+    utmPresets: presets,
+    personalWorkspace: {
+      domains: personalDomains,
+      webhookEndpoints: endpoints,
+      profile: profile ?? null,
+    },
+  }
+}
+
+export type UserDataExport = Awaited<ReturnType<typeof exportUserData>>
+
+// Safe to run more than once, as Clerk retries webhooks. Workspaces only the
+// user belonged to (their personal one included) are deleted with all their
+// links. In shared workspaces their links stay with the team, credited to
+// DELETED_USER_ID, and if they were the last owner the longest-standing
+// member takes over.
+export async function deleteUserData(userId: string) {
+  const memberships = await db
+    .select({ workspaceId: workspaceMembers.workspaceId, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId))
+
+  for (const { workspaceId, role } of memberships) {
+    const others = await db.query.workspaceMembers.findMany({
+      where: and(eq(workspaceMembers.workspaceId, workspaceId), ne(workspaceMembers.userId, userId)),
+      orderBy: [asc(workspaceMembers.createdAt)],
+    })
+
+    if (workspaceId === getPersonalWorkspaceId(userId) || others.length === 0) {
+      // Its webhook endpoints go with it, so there is nobody to send link.deleted to
+      await deleteWorkspace(workspaceId)
+      continue
+    }
+
+    const successor = role === 'owner' && !others.some((member) => member.role === 'owner') ? others[0] : null
+    await db.batch([
+      db.delete(workspaceMembers).where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId))),
+      ...(successor
+        ? [
+            db
+              .update(workspaceMembers)
+              .set({ role: 'owner' })
+              .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, successor.userId))),
+          ]
+        : []),
+    ])
+    await recordAuditEvent({
+      workspaceId,
+      userId: DELETED_USER_ID,
+      action: 'member.removed',
+      targetId: DELETED_USER_ID,
+      details: { role },
+    })
+    if (successor) {
+      await recordAuditEvent({
+        workspaceId,
+        userId: DELETED_USER_ID,
+        action: 'member.role_changed',
+        targetId: successor.userId,
+        details: { role: 'owner' },
+      })
+    }
+  }
+
+  const [reassigned] = await db.batch([
+    db.update(links).set({ userId: DELETED_USER_ID }).where(eq(links.userId, userId)).returning(),
+    db.update(linkRevisions).set({ userId: DELETED_USER_ID }).where(eq(linkRevisions.userId, userId)),
+    db.update(auditEvents).set({ userId: DELETED_USER_ID }).where(eq(auditEvents.userId, userId)),
+    // Member events name the member they were about
+    db
+      .update(auditEvents)
+      .set({ targetId: DELETED_USER_ID })
+      .where(and(eq(auditEvents.targetId, userId), like(auditEvents.action, 'member.%'))),
+    db.update(linkReports).set({ resolvedBy: DELETED_USER_ID }).where(eq(linkReports.resolvedBy, userId)),
+    db.delete(apiTokens).where(eq(apiTokens.userId, userId)),
+    db.delete(utmPresets).where(eq(utmPresets.userId, userId)),
+  ])
+  await queueWebhookEvents(
+    reassigned.map((link) => ({
+      workspaceId: link.workspaceId,
+      type: 'link.updated' as const,
+      data: { link: toWebhookLink(link), fields: ['userId'] },
+    }))
+  )
+}
@@ -0,0 +1,38 @@
+import { and, asc, count, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { utmPresets } from '@/db/schema'
+import type { UtmPresetInput } from '@/lib/utm'
+
+export const UTM_PRESET_NAME_CONSTRAINT = 'utm_presets_user_id_name_idx'
+
+export async function getUtmPresets(userId: string) {
+  return db.query.utmPresets.findMany({
+    where: eq(utmPresets.userId, userId),
+    orderBy: [asc(utmPresets.name)],
+  })
+}
+
+export async function countUtmPresets(userId: string) {
+  const [{ total }] = await db.select({ total: count() }).from(utmPresets).where(eq(utmPresets.userId, userId))
+  return total
+}
+
+export async function createUtmPreset(userId: string, values: UtmPresetInput) {
+  const [preset] = await db
+    .insert(utmPresets)
+    .values({ id: nanoid(), userId, ...values })
+    .returning()
+
+  return preset
+}
+
+// Scoped to the user: returns false when the preset doesn't exist or is someone else's
+export async function deleteUtmPreset(id: string, userId: string) {
+  const deleted = await db
+    .delete(utmPresets)
+    .where(and(eq(utmPresets.id, id), eq(utmPresets.userId, userId)))
+    .returning({ id: utmPresets.id })
+
+  return deleted.length > 0
+}
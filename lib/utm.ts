@@ -0,0 +1,71 @@
+import { z } from 'zod'
+
+// Campaign tags (utm_source and friends) edited in place on the destination
+// URL, so the URL stays the single source of truth. Client-safe.
+
+export const UTM_FIELDS = ['source', 'medium', 'campaign', 'term', 'content'] as const
+
+export type UtmField = (typeof UTM_FIELDS)[number]
+export type UtmValues = Record<UtmField, string>
+
+export const UTM_FIELD_LABELS = {
+  source: 'Source',
+  medium: 'Medium',
+  campaign: 'Campaign',
+  term: 'Term',
+  content: 'Content',
+} satisfies Record<UtmField, string>
+
+export const EMPTY_UTM_VALUES: UtmValues = { source: '', medium: '', campaign: '', term: '', content: '' }
+
+function parseUrl(url: string) {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// null while the URL isn't a valid http(s) URL yet
+export function getUtmValues(url: string): UtmValues | null {
+  const parsed = parseUrl(url)
+  if (!parsed) return null
+
+  return Object.fromEntries(
+    UTM_FIELDS.map((field) => [field, parsed.searchParams.get(`utm_${field}`) ?? ''])
+  ) as UtmValues
+}
+
+// Empty values remove the parameter. Other query parameters keep their order.
+export function applyUtmValues(url: string, values: Partial<UtmValues>) {
+  const parsed = parseUrl(url)
+  if (!parsed) return url
+
+  for (const field of UTM_FIELDS) {
+    const value = values[field]
+    if (value === undefined) continue
+    if (value.trim()) {
+      parsed.searchParams.set(`utm_${field}`, value.trim())
+    } else {
+      parsed.searchParams.delete(`utm_${field}`)
+    }
+  }
+
+  return parsed.toString()
+}
+
+export const MAX_UTM_PRESETS = 50
+
+const utmValueSchema = z.string().trim().max(100, 'Use at most 100 characters')
+
+export const utmPresetSchema = z.object({
+  name: z.string().trim().min(1, 'Name the preset').max(50, 'Use at most 50 characters'),
+  source: utmValueSchema,
+  medium: utmValueSchema,
+  campaign: utmValueSchema,
+  term: utmValueSchema,
+  content: utmValueSchema,
+})
+
+export type UtmPresetInput = z.infer<typeof utmPresetSchema>
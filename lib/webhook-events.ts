@@ -0,0 +1,69 @@
+import type { DeviceClass, Link, WebhookEventType } from '@/db/schema'
+
+// What webhook endpoints can subscribe to, and the JSON they receive.
+// Client-safe; delivery lives in lib/webhooks.ts.
+
+export const WEBHOOK_EVENT_TYPES = [
+  'link.created',
+  'link.updated',
+  'link.deleted',
+  'link.clicked',
+] as const satisfies readonly WebhookEventType[]
+
+export const WEBHOOK_EVENT_LABELS = {
+  'link.created': 'Link created',
+  'link.updated': 'Link updated, archived, disabled or recovered',
+  'link.deleted': 'Link moved to the trash or deleted for good',
+  'link.clicked': 'Link clicked',
+} satisfies Record<WebhookEventType, string>
+
+export type WebhookLink = {
+  id: string
+  url: string
+  domainId: string | null
+  shortCode: string
+  title: string | null
+  archivedAt: string | null
+  deletedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type WebhookClick = {
+  linkId: string
+  domainId: string | null
+  shortCode: string
+  clickedAt: string
+  referrerHost: string | null
+  country: string | null
+  browser: string | null
+  device: DeviceClass
+  isBot: boolean
+}
+
+// link.updated lists the settings that changed in `fields`
+export type WebhookEventData = { link: WebhookLink; fields?: string[] } | { click: WebhookClick }
+
+// The body of every delivery. `id` is the same for every endpoint and every
+// retry of one event.
+export type WebhookPayload = {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  workspaceId: string
+  data: WebhookEventData
+}
+
+export function toWebhookLink(link: Link): WebhookLink {
+  return {
+    id: link.id,
+    url: link.url,
+    domainId: link.domainId,
+    shortCode: link.shortCode,
+    title: link.title,
+    archivedAt: link.archivedAt?.toISOString() ?? null,
+    deletedAt: link.deletedAt?.toISOString() ?? null,
+    createdAt: link.createdAt.toISOString(),
+    updatedAt: link.updatedAt.toISOString(),
+  }
+}
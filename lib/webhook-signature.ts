@@ -0,0 +1,64 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+// Deliveries carry three headers:
+//   Webhook-Id         the event ID, the same on retries, for de-duplication
+//   Webhook-Timestamp  Unix seconds when this attempt was signed
+//   Webhook-Signature  v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// Receivers recompute the HMAC with the endpoint's secret and reject old
+// timestamps, so a captured request can't be replayed later.
+
+export const WEBHOOK_HEADERS = {
+  id: 'webhook-id',
+  timestamp: 'webhook-timestamp',
+  signature: 'webhook-signature',
+} as const
+
+const SECRET_PREFIX = 'whsec_'
+const SIGNATURE_VERSION = 'v1'
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60
+
+export function createWebhookSecret() {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `${SIGNATURE_VERSION}=${hmac}`
+}
+
+export function getWebhookHeaders(secret: string, eventId: string, body: string, now = new Date()) {
+  const timestamp = Math.floor(now.getTime() / 1000)
+
+  return {
+    [WEBHOOK_HEADERS.id]: eventId,
+    [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    [WEBHOOK_HEADERS.signature]: signWebhookPayload(secret, timestamp, body),
+  }
+}
+
+export type WebhookVerification = { valid: true } | { valid: false; reason: string }
+
+// For receivers, such as scripts/webhook-receiver.ts. `body` must be the raw
+// request body: re-serialized JSON won't match the signature.
+export function verifyWebhookSignature(
+  secret: string,
+  headers: { timestamp: string | null | undefined; signature: string | null | undefined },
+  body: string,
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = new Date() } = {}
+): WebhookVerification {
+  const timestamp = Number(headers.timestamp)
+  if (!headers.timestamp || !Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'Missing or invalid timestamp' }
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'Timestamp is too far from the current time' }
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const received = Buffer.from(headers.signature ?? '')
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature does not match' }
+  }
+
+  return { valid: true }
+}
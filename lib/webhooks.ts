@@ -0,0 +1,344 @@
+import { after } from 'next/server'
+import { and, asc, eq, gt, inArray, isNull, lte, or, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+import { db } from '@/db'
+import {
+  links,
+  webhookDeliveries,
+  webhookEndpoints,
+  type NewClick,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '@/db/schema'
+import { afterCursor, cursorOrder, cursorValue, toPage, type Cursor } from '@/lib/pagination'
+import { safeFetch, SafeFetchError } from '@/lib/safe-fetch'
+import type { WebhookEventData, WebhookPayload } from '@/lib/webhook-events'
+import { createWebhookSecret, getWebhookHeaders } from '@/lib/webhook-signature'
+
+// Events are written to webhook_deliveries in the same code paths that write
+// the links table (an outbox), then sent once the response is out. A delivery
+// is "claimed" by pushing next_attempt_at ahead before it is sent, so the
+// retry cron (app/api/cron/webhooks) only picks up ones whose sender died or
+// that failed and are due again. Failed attempts back off exponentially.
+
+const MAX_ATTEMPTS = 10
+const FIRST_RETRY_DELAY_MS = 60_000
+const CLAIM_MS = 5 * 60_000
+const DELIVERY_TIMEOUT_MS = 10_000
+const RESPONSE_BODY_MAX_BYTES = 2_048
+const DELIVERY_CONCURRENCY = 4
+const CRON_BATCH_SIZE = 100
+const INSERT_CHUNK_SIZE = 500
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkWebhooks/1.0)'
+
+export const MAX_ENDPOINTS_PER_WORKSPACE = 10
+
+export type WebhookEvent = { workspaceId: string; type: WebhookEventType; data: WebhookEventData }
+
+export const webhookUrlSchema = z
+  .string()
+  .trim()
+  .pipe(z.url({ protocol: /^https?$/, message: 'Enter a valid http(s) URL' }))
+  .refine((url) => {
+    const { username, password } = new URL(url)
+    return !username && !password
+  }, 'Leave credentials out of the URL; verify deliveries with the signing secret instead')
+
+// 1, 2, 4 ... 256 minutes: ten attempts spread over about eight and a half hours
+export function getRetryDelayMs(attempts: number) {
+  return FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1)
+}
+
+// Deliveries normally refuse private addresses like the rest of safeFetch.
+// Set WEBHOOK_ALLOW_PRIVATE_NETWORKS=true to test against a receiver on
+// localhost (see scripts/webhook-receiver.ts); never in production.
+function isAllowedAddress() {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true' ? () => true : undefined
+}
+
+export async function getWebhookEndpoints(workspaceId: string) {
+  return db.query.webhookEndpoints.findMany({
+    where: eq(webhookEndpoints.workspaceId, workspaceId),
+    orderBy: [asc(webhookEndpoints.createdAt)],
+  })
+}
+
+export async function getWebhookEndpoint(id: string, workspaceId: string) {
+  const endpoint = await db.query.webhookEndpoints.findFirst({
+    where: and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.workspaceId, workspaceId)),
+  })
+
+  return endpoint ?? null
+}
+
+export async function createWebhookEndpoint(workspaceId: string, values: { url: string; events: WebhookEventType[] }) {
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values({ id: nanoid(), workspaceId, secret: createWebhookSecret(), ...values })
+    .returning()
+
+  return endpoint
+}
+
+// Its deliveries go with it
+export async function deleteWebhookEndpoint(id: string, workspaceId: string) {
+  const [deleted] = await db
+    .delete(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.workspaceId, workspaceId)))
+    .returning({ id: webhookEndpoints.id, url: webhookEndpoints.url })
+
+  return deleted ?? null
+}
+
+// Newest first, served by `webhook_deliveries_endpoint_id_created_at_idx`.
+// Callers check the endpoint belongs to the workspace.
+export async function getWebhookDeliveries(endpointId: string, options: { limit: number; cursor: Cursor | null }) {
+  const keyset = { column: webhookDeliveries.createdAt, id: webhookDeliveries.id }
+  const rows = await db
+    .select({ item: webhookDeliveries, cursorValue: cursorValue(webhookDeliveries.createdAt) })
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.endpointId, endpointId), afterCursor(options.cursor, keyset)))
+    .orderBy(...cursorOrder(keyset))
+    .limit(options.limit + 1)
+
+  return toPage(rows, options.limit)
+}
+
+export async function getWebhookDelivery(id: string, endpointId: string) {
+  const delivery = await db.query.webhookDeliveries.findFirst({
+    where: and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.endpointId, endpointId)),
+  })
+
+  return delivery ?? null
+}
+
+type Target = Pick<WebhookEndpoint, 'url' | 'secret'>
+
+// Sends one delivery and records the outcome. Any 2xx counts as received.
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: Target) {
+  const body = JSON.stringify(delivery.payload)
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  try {
+    const response = await safeFetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': USER_AGENT,
+        ...getWebhookHeaders(endpoint.secret, delivery.eventId, body),
+      },
+      body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+      maxBytes: RESPONSE_BODY_MAX_BYTES,
+      isAllowedAddress: isAllowedAddress(),
+    })
+    responseStatus = response.status
+    responseBody = response.body.toString('utf8')
+  } catch (fetchError) {
+    error = fetchError instanceof SafeFetchError ? fetchError.message : 'The request failed'
+  }
+
+  const attempts = delivery.attempts + 1
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300
+  const status = succeeded ? 'succeeded' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending'
+  const now = new Date()
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({
+      status,
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: status === 'pending' ? new Date(now.getTime() + getRetryDelayMs(attempts)) : null,
+      responseStatus,
+      responseBody,
+      error,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning()
+
+  return updated
+}
+
+async function deliverAll(deliveries: WebhookDelivery[], endpoints: Map<string, Target>) {
+  const queue = [...deliveries]
+  await Promise.all(
+    Array.from({ length: Math.min(DELIVERY_CONCURRENCY, queue.length) }, async () => {
+      for (let delivery = queue.shift(); delivery; delivery = queue.shift()) {
+        const endpoint = endpoints.get(delivery.endpointId)
+        if (!endpoint) continue
+
+        try {
+          await attemptDelivery(delivery, endpoint)
+        } catch (error) {
+          // Left claimed; the cron retries it once the claim runs out
+          console.error(`Failed to record webhook delivery ${delivery.id}:`, error)
+        }
+      }
+    })
+  )
+}
+
+// A manual resend from the delivery log: sends the same event ID and payload
+// again right away. A failure goes back on the backoff schedule unless the
+// delivery has used up its attempts. It is claimed first, like the cron does,
+// so the two never send it at once; returns null when it may be in flight,
+// that is when it's due within a claim's length.
+export async function redeliverWebhook(delivery: WebhookDelivery, endpoint: WebhookEndpoint) {
+  const claimUntil = sql`now() + make_interval(secs => ${CLAIM_MS / 1000})`
+  const [claimed] = await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: claimUntil })
+    .where(
+      and(
+        eq(webhookDeliveries.id, delivery.id),
+        or(
+          isNull(webhookDeliveries.nextAttemptAt),
+          lte(webhookDeliveries.nextAttemptAt, sql`now()`),
+          gt(webhookDeliveries.nextAttemptAt, claimUntil)
+        )
+      )
+    )
+    .returning()
+
+  return claimed ? attemptDelivery(claimed, endpoint) : null
+}
+
+// Records a delivery for every endpoint subscribed to each event and sends
+// them after the response. Outside a request (scripts) after() isn't
+// available, so the deliveries wait for the retry cron instead. Failures are
+// logged, never thrown: webhooks must not break the write that caused them.
+export async function queueWebhookEvents(events: WebhookEvent[]) {
+  if (events.length === 0) return
+
+  try {
+    const workspaceIds = [...new Set(events.map((event) => event.workspaceId))]
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(inArray(webhookEndpoints.workspaceId, workspaceIds))
+    if (endpoints.length === 0) return
+
+    const createdAt = new Date()
+    const claimedUntil = new Date(createdAt.getTime() + CLAIM_MS)
+    const rows = events.flatMap((event) => {
+      const payload: WebhookPayload = {
+        id: nanoid(),
+        type: event.type,
+        createdAt: createdAt.toISOString(),
+        workspaceId: event.workspaceId,
+        data: event.data,
+      }
+
+      return endpoints
+        .filter((endpoint) => endpoint.workspaceId === event.workspaceId && endpoint.events.includes(event.type))
+        .map((endpoint) => ({
+          id: nanoid(),
+          endpointId: endpoint.id,
+          eventId: payload.id,
+          eventType: event.type,
+          payload,
+          nextAttemptAt: claimedUntil,
+          createdAt,
+        }))
+    })
+    if (rows.length === 0) return
+
+    // An import can fan out to thousands of rows; stay under the parameter limit
+    const deliveries: WebhookDelivery[] = []
+    for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+      const part = rows.slice(start, start + INSERT_CHUNK_SIZE)
+      deliveries.push(...(await db.insert(webhookDeliveries).values(part).returning()))
+    }
+    const targets = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]))
+
+    try {
+      after(() => deliverAll(deliveries, targets))
+    } catch {
+      // Not in a request; the cron sends them once the claim runs out
+    }
+  } catch (error) {
+    console.error(`Failed to queue ${events.length} webhook events:`, error)
+  }
+}
+
+// link.clicked for a batch of clicks from lib/click-buffer.ts. The join skips
+// the second query entirely when no endpoint listens for clicks.
+export async function queueClickEvents(rows: NewClick[]) {
+  const linkIds = [...new Set(rows.map((row) => row.linkId))]
+  if (linkIds.length === 0) return
+
+  try {
+    const subscribed = await db
+      .selectDistinct({
+        id: links.id,
+        workspaceId: links.workspaceId,
+        domainId: links.domainId,
+        shortCode: links.shortCode,
+      })
+      .from(links)
+      .innerJoin(webhookEndpoints, eq(webhookEndpoints.workspaceId, links.workspaceId))
+      .where(and(inArray(links.id, linkIds), sql`${webhookEndpoints.events} @> '["link.clicked"]'::jsonb`))
+    if (subscribed.length === 0) return
+
+    const linksById = new Map(subscribed.map((link) => [link.id, link]))
+    await queueWebhookEvents(
+      rows.flatMap((row) => {
+        const link = linksById.get(row.linkId)
+        if (!link) return []
+
+        return {
+          workspaceId: link.workspaceId,
+          type: 'link.clicked' as const,
+          data: {
+            click: {
+              linkId: link.id,
+              domainId: link.domainId,
+              shortCode: link.shortCode,
+              clickedAt: (row.clickedAt ?? new Date()).toISOString(),
+              referrerHost: row.referrerHost ?? null,
+              country: row.country ?? null,
+              browser: row.browser ?? null,
+              device: row.device,
+              isBot: row.isBot ?? false,
+            },
+          },
+        }
+      })
+    )
+  } catch (error) {
+    console.error(`Failed to queue webhook events for ${rows.length} clicks:`, error)
+  }
+}
+
+// For the retry cron: claims due deliveries (SKIP LOCKED, so overlapping runs
+// split the work) and sends them. Returns how many were attempted.
+export async function deliverDueWebhooks() {
+  const due = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, sql`now()`)))
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(CRON_BATCH_SIZE)
+    .for('update', { skipLocked: true })
+
+  const claimed = await db
+    .update(webhookDeliveries)
+    .set({ nextAttemptAt: sql`now() + make_interval(secs => ${CLAIM_MS / 1000})` })
+    .where(inArray(webhookDeliveries.id, due))
+    .returning()
+  if (claimed.length === 0) return 0
+
+  const endpointIds = [...new Set(claimed.map((delivery) => delivery.endpointId))]
+  const endpoints = await db
+    .select({ id: webhookEndpoints.id, url: webhookEndpoints.url, secret: webhookEndpoints.secret })
+    .from(webhookEndpoints)
+    .where(inArray(webhookEndpoints.id, endpointIds))
+
+  await deliverAll(claimed, new Map(endpoints.map((endpoint) => [endpoint.id, endpoint])))
+  return claimed.length
+}
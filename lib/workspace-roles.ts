@@ -0,0 +1,11 @@
+import type { WorkspaceRole } from '@/db/schema'
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const satisfies readonly WorkspaceRole[]
+
+// viewer: read links and analytics; editor: also create, edit and delete
+// links; owner: also manage members and the workspace itself
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 }
+
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
@@ -0,0 +1,172 @@
+import { cache } from 'react'
+import { auth } from '@clerk/nextjs/server'
+import { and, asc, count, eq } from 'drizzle-orm'
+import { cookies } from 'next/headers'
+import { nanoid } from 'nanoid'
+import { db } from '@/db'
+import { domains, links, workspaceMembers, workspaces, type WorkspaceRole } from '@/db/schema'
+import { invalidateHosts, invalidateLinks } from '@/lib/redirect-cache'
+
+export const ACTIVE_WORKSPACE_COOKIE = 'active_workspace'
+
+export type WorkspaceAccess = {
+  id: string
+  name: string
+  role: WorkspaceRole
+  personal: boolean
+}
+
+// Deterministic so it can be derived without a lookup (and matches the 0006 migration)
+export function getPersonalWorkspaceId(userId: string) {
+  return `personal_${userId}`
+}
+
+export async function ensurePersonalWorkspace(userId: string) {
+  const id = getPersonalWorkspaceId(userId)
+
+  await db.batch([
+    db.insert(workspaces).values({ id, name: 'Personal', personalUserId: userId }).onConflictDoNothing(),
+    db.insert(workspaceMembers).values({ workspaceId: id, userId, role: 'owner' }).onConflictDoNothing(),
+  ])
+
+  return id
+}
+
+export async function getUserWorkspaces(userId: string): Promise<WorkspaceAccess[]> {
+  const rows = await db
+    .select({
+      id: workspaces.id,
+      name: workspaces.name,
+      role: workspaceMembers.role,
+      personalUserId: workspaces.personalUserId,
+    })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaces.createdAt))
+
+  return rows.map(({ personalUserId, ...row }) => ({ ...row, personal: personalUserId !== null }))
+}
+
+export async function getWorkspaceRole(workspaceId: string, userId: string) {
+  const member = await db.query.workspaceMembers.findFirst({
+    where: and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)),
+  })
+
+  return member?.role ?? null
+}
+
+// The workspace the dashboard is acting in: the one picked in the switcher if
+// the user is still a member, otherwise their personal workspace. Cached per request.
+export const getActiveWorkspace = cache(async (userId: string) => {
+  let memberships = await getUserWorkspaces(userId)
+
+  if (!memberships.some((workspace) => workspace.personal)) {
+    await ensurePersonalWorkspace(userId)
+    memberships = await getUserWorkspaces(userId)
+  }
+
+  const selectedId = (await cookies()).get(ACTIVE_WORKSPACE_COOKIE)?.value
+  const active =
+    memberships.find((workspace) => workspace.id === selectedId) ??
+    memberships.find((workspace) => workspace.personal)!
+
+  return { active, memberships }
+})
+
+// For server actions and route handlers: the signed-in user and their active workspace
+export async function getWorkspaceContext() {
+  const { userId } = await auth()
+  if (!userId) throw new Error('Unauthorized')
+
+  const { active } = await getActiveWorkspace(userId)
+  return { userId, workspace: active }
+}
+
+export async function createWorkspace(userId: string, name: string) {
+  const id = nanoid()
+
+  await db.batch([
+    db.insert(workspaces).values({ id, name }),
+    db.insert(workspaceMembers).values({ workspaceId: id, userId, role: 'owner' }),
+  ])
+
+  return id
+}
+
+export async function renameWorkspace(workspaceId: string, name: string) {
+  await db
+    .update(workspaces)
+    .set({ name, updatedAt: new Date() })
+    .where(eq(workspaces.id, workspaceId))
+}
+
+// Links, domains, tokens, memberships and the audit log cascade with the
+// workspace. Its links and domains leave the redirect cache too.
+export async function deleteWorkspace(workspaceId: string) {
+  const [workspaceLinks, workspaceDomains] = await Promise.all([
+    db
+      .select({ domainId: links.domainId, shortCode: links.shortCode })
+      .from(links)
+      .where(eq(links.workspaceId, workspaceId)),
+    db.select({ hostname: domains.hostname }).from(domains).where(eq(domains.workspaceId, workspaceId)),
+  ])
+
+  await db.delete(workspaces).where(eq(workspaces.id, workspaceId))
+  await Promise.all([
+    invalidateLinks(workspaceLinks),
+    invalidateHosts(workspaceDomains.map((domain) => domain.hostname)),
+  ])
+}
+
+export async function getWorkspaceMembers(workspaceId: string) {
+  return db.query.workspaceMembers.findMany({
+    where: eq(workspaceMembers.workspaceId, workspaceId),
+    orderBy: [asc(workspaceMembers.createdAt)],
+  })
+}
+
+export async function addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole) {
+  const added = await db
+    .insert(workspaceMembers)
+    .values({ workspaceId, userId, role })
+    .onConflictDoNothing()
+    .returning({ userId: workspaceMembers.userId })
+
+  return added.length > 0
+}
+
+async function countOwners(workspaceId: string) {
+  const [{ owners }] = await db
+    .select({ owners: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, 'owner')))
+
+  return owners
+}
+
+// Both refuse to leave a workspace without an owner and return false instead
+export async function updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+  const current = await getWorkspaceRole(workspaceId, userId)
+  if (!current) return false
+  if (current === 'owner' && role !== 'owner' && (await countOwners(workspaceId)) <= 1) return false
+
+  await db
+    .update(workspaceMembers)
+    .set({ role })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+
+  return true
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string) {
+  const current = await getWorkspaceRole(workspaceId, userId)
+  if (!current) return false
+  if (current === 'owner' && (await countOwners(workspaceId)) <= 1) return false
+
+  await db
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+
+  return true
+}
@@ -1,6 +1,34 @@
 import { clerkMiddleware } from "@clerk/nextjs/server";
+import { NextResponse, type NextFetchEvent, type NextRequest } from "next/server";
+import { checkVisitorLimits, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/request-ip";
+import { getShortCodeFromPath } from "@/lib/short-code";
 
-export default clerkMiddleware();
+const clerk = clerkMiddleware();
+
+export default async function proxy(request: NextRequest, event: NextFetchEvent) {
+  // Visitors who hammer short links, or guess at codes, are turned away here.
+  // The rest still go through Clerk: the pages a short link can render (not
+  // found, expired, password, social card) share the root layout, whose
+  // SignedIn/SignedOut need it.
+  if (getShortCodeFromPath(request.nextUrl.pathname)) {
+    const limited = await checkVisitorLimits(getClientIp(request.headers));
+    if (limited) {
+      return new NextResponse("Too many requests", { status: 429, headers: rateLimitHeaders(limited) });
+    }
+    return clerk(request, event);
+  }
+
+  // The REST API authenticates with its own bearer tokens, which Clerk would
+  // otherwise try to parse as session tokens. Cron routes check their own
+  // secret and incoming webhooks their signature.
+  const { pathname } = request.nextUrl;
+  if (pathname.startsWith("/api/v1/") || pathname.startsWith("/api/cron/") || pathname.startsWith("/api/webhooks/")) {
+    return NextResponse.next();
+  }
+
+  return clerk(request, event);
+}
 
 export const config = {
   matcher: [
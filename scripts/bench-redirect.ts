@@ -0,0 +1,94 @@
+import { parseArgs } from 'node:util'
+
+// Measures redirect latency against a running server:
+//   npm run bench:redirect -- http://localhost:3000/<shortCode> --requests 1000 --concurrency 20
+// Run it against `next build && next start`, not the dev server. Every request
+// counts as a visit, so use a link made for testing. The first requests warm
+// the redirect cache and aren't measured. The server limits each visitor IP
+// to RATE_LIMIT_REDIRECTS_PER_MINUTE (300 by default), which a run goes past,
+// so start it with RATE_LIMIT_STORE=off. A run that gets any 429s fails.
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    requests: { type: 'string', default: '500' },
+    concurrency: { type: 'string', default: '10' },
+    warmup: { type: 'string', default: '20' },
+    'user-agent': {
+      type: 'string',
+      default: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+    },
+  },
+})
+
+const url = positionals[0]
+const requests = Number(values.requests)
+const concurrency = Number(values.concurrency)
+const warmup = Number(values.warmup)
+
+if (!url || !(requests > 0) || !(concurrency > 0) || !(warmup >= 0)) {
+  console.error('Usage: bench-redirect <short URL> [--requests 500] [--concurrency 10] [--warmup 20] [--user-agent ...]')
+  process.exit(1)
+}
+
+async function timeRequest() {
+  const start = performance.now()
+  // Measure our response, not the destination's
+  const response = await fetch(url, { redirect: 'manual', headers: { 'User-Agent': values['user-agent'] } })
+  await response.arrayBuffer()
+  return { ms: performance.now() - start, status: response.status }
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+async function run(count: number) {
+  const results: { ms: number; status: number }[] = []
+  let started = 0
+
+  async function worker() {
+    while (started < count) {
+      started++
+      results.push(await timeRequest())
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker))
+  return results
+}
+
+async function main() {
+  await run(warmup)
+
+  const start = performance.now()
+  const results = await run(requests)
+  const seconds = (performance.now() - start) / 1000
+
+  const latencies = results.map((result) => result.ms).sort((a, b) => a - b)
+  const statuses = new Map<number, number>()
+  for (const { status } of results) statuses.set(status, (statuses.get(status) ?? 0) + 1)
+
+  const format = (ms: number) => `${ms.toFixed(1)} ms`
+  console.log(`${results.length} requests to ${url}, concurrency ${concurrency}`)
+  console.log(`  p50  ${format(percentile(latencies, 50))}`)
+  console.log(`  p90  ${format(percentile(latencies, 90))}`)
+  console.log(`  p99  ${format(percentile(latencies, 99))}`)
+  console.log(`  max  ${format(latencies[latencies.length - 1])}`)
+  console.log(`  ${(results.length / seconds).toFixed(1)} requests/s`)
+  console.log(`  status ${[...statuses].map(([status, count]) => `${status}: ${count}`).join(', ')}`)
+
+  if (statuses.has(429)) {
+    console.error('Rate limited: these numbers measure 429 responses. Start the server with RATE_LIMIT_STORE=off.')
+    process.exit(1)
+  }
+  if (![...statuses.keys()].every((status) => status >= 300 && status < 400)) {
+    console.warn('Some responses were not redirects; check the link is active and not password protected.')
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,18 @@
+import 'dotenv/config'
+import { migrate } from 'drizzle-orm/neon-http/migrator'
+import { db } from '../db'
+
+// Applies the migrations in drizzle/ through the app's own connection, so it
+// also works against the local Postgres in docker-compose.yml, which
+// drizzle-kit can't reach over Neon's driver:
+//   npm run db:migrate
+
+migrate(db, { migrationsFolder: 'drizzle' })
+  .then(() => {
+    console.log('Migrations applied')
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error)
+    process.exit(1)
+  })
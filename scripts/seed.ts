@@ -0,0 +1,270 @@
+import 'dotenv/config'
+import { createHash } from 'node:crypto'
+import { parseArgs } from 'node:util'
+import { and, eq, inArray, like } from 'drizzle-orm'
+import { db } from '../db'
+import { links, linkTags, tags, type NewLink } from '../db/schema'
+import { hashPassword } from '../lib/passwords'
+import { ensurePersonalWorkspace } from '../lib/workspaces'
+
+// Fills a user's personal workspace with test data:
+//   npm run seed -- --user user_123 --scenario heavy [--count 5000]
+// Scenarios:
+//   empty       just the personal workspace, as right after signing up
+//   examples    ten links to developer docs
+//   heavy       --count links spread over the past year, tagged, with click totals
+//   edge-cases  expired, expiring, click-capped, protected, disabled, archived and
+//               trashed links, and destinations that are long, unicode or unusual
+// Seeded links and tags get IDs and short codes derived from the user and
+// scenario, so a re-run only adds what's missing. --reset deletes the user's
+// seeded rows first, or on its own without --scenario; nothing else in the
+// workspace is touched. Dates are relative to the first run, so reset to move
+// expiries along. Works against a local Postgres too (see db/index.ts).
+
+const SCENARIOS = ['empty', 'examples', 'heavy', 'edge-cases'] as const
+type Scenario = (typeof SCENARIOS)[number]
+
+// Seeded IDs start with this; `_` is escaped for LIKE
+const SEED_ID_PREFIX = 'seed_'
+const SEED_ID_PATTERN = 'seed\\_%'
+
+// Rows per INSERT, well under Postgres's 65,535 parameters at ~30 columns a link
+const BATCH_SIZE = 500
+const MAX_COUNT = 100_000
+const PROTECTED_PASSWORD = 'password'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type SeedLink = Omit<NewLink, 'workspaceId' | 'userId'> & { id: string; tags?: string[] }
+
+const { values } = parseArgs({
+  options: {
+    user: { type: 'string' },
+    scenario: { type: 'string' },
+    count: { type: 'string', default: '5000' },
+    reset: { type: 'boolean', default: false },
+  },
+})
+
+function isScenario(value: string): value is Scenario {
+  return (SCENARIOS as readonly string[]).includes(value)
+}
+
+const userId = values.user
+const scenario = values.scenario
+const count = Number(values.count)
+
+if (
+  !userId ||
+  (!scenario && !values.reset) ||
+  (scenario !== undefined && !isScenario(scenario)) ||
+  !Number.isInteger(count) ||
+  count < 1 ||
+  count > MAX_COUNT
+) {
+  console.error(
+    `Usage: seed --user <Clerk user ID> [--scenario ${SCENARIOS.join('|')}] [--count 5000] [--reset]\n` +
+      `--count is for heavy, at most ${MAX_COUNT}; --reset alone only deletes seeded data`
+  )
+  process.exit(1)
+}
+
+// Keeps seeded short codes (unique across the app) apart between users
+const userKey = createHash('sha256').update(userId).digest('hex').slice(0, 6)
+
+function seedId(kind: string, name: string | number) {
+  return `${SEED_ID_PREFIX}${kind}_${userKey}_${name}`
+}
+
+function chunk<T>(items: T[], size: number) {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size))
+}
+
+function exampleLinks(): SeedLink[] {
+  return [
+    { url: 'https://github.com/facebook/react', alias: 'react-gh' },
+    { url: 'https://nextjs.org/docs', alias: 'next-docs' },
+    { url: 'https://tailwindcss.com/docs/installation', alias: 'tw-install' },
+    { url: 'https://www.typescriptlang.org/docs/', alias: 'ts-docs' },
+    { url: 'https://drizzle.team/docs/overview', alias: 'drizzle-ov' },
+    { url: 'https://ui.shadcn.com/docs', alias: 'shadcn-ui' },
+    { url: 'https://clerk.com/docs/quickstarts/nextjs', alias: 'clerk-next' },
+    { url: 'https://vercel.com/docs', alias: 'vercel-doc' },
+    { url: 'https://neon.tech/docs/introduction', alias: 'neon-intro' },
+    { url: 'https://lucide.dev/icons/', alias: 'lucide-ico' },
+  ].map(({ url, alias }) => ({ id: seedId('examples', alias), url, shortCode: `${alias}-${userKey}` }))
+}
+
+const HEAVY_TAGS = ['marketing', 'docs', 'social', 'launch', 'internal']
+const HEAVY_HOSTS = ['example.com', 'blog.example.com', 'shop.example.org', 'docs.example.net']
+
+// Deterministic, so a re-run produces the same rows
+function heavyLinks(now: number): SeedLink[] {
+  return Array.from({ length: count }, (_, n) => {
+    const createdAt = new Date(now - Math.floor(((count - n) / count) * 365 * DAY_MS))
+    return {
+      id: seedId('heavy', n),
+      url: `https://${HEAVY_HOSTS[n % HEAVY_HOSTS.length]}/posts/${n + 1}?ref=seed`,
+      shortCode: `h${userKey}${n.toString(36)}`,
+      title: n % 3 === 0 ? null : `Seeded link ${n + 1}`,
+      clickCount: (n * 7919) % 2000,
+      createdAt,
+      updatedAt: createdAt,
+      // Every sixth link is untagged
+      tags: n % 6 === 5 ? [] : [HEAVY_TAGS[n % HEAVY_TAGS.length]],
+    }
+  })
+}
+
+async function edgeCaseLinks(now: number): Promise<SeedLink[]> {
+  const cases: (Omit<SeedLink, 'id' | 'shortCode' | 'url'> & { name: string; url?: string })[] = [
+    { name: 'expired', expiresAt: new Date(now - DAY_MS) },
+    { name: 'expiring', expiresAt: new Date(now + 60 * 60 * 1000) },
+    { name: 'used-up', maxClicks: 10, clickCount: 10 },
+    { name: 'last-click', maxClicks: 10, clickCount: 9 },
+    { name: 'protected', passwordHash: await hashPassword(PROTECTED_PASSWORD) },
+    { name: 'disabled', disabledAt: new Date(now), disabledReason: 'Seeded as a disabled link' },
+    { name: 'archived', archivedAt: new Date(now) },
+    { name: 'trashed', deletedAt: new Date(now) },
+    { name: 'long-url', url: `https://example.com/${'segment/'.repeat(240)}?q=${'x'.repeat(80)}` },
+    { name: 'unicode', url: 'https://münchen.example/straße?q=grüße' },
+    { name: 'emoji', url: 'https://example.com/🎉/party?mood=🙂' },
+    { name: 'encoded', url: 'https://example.com/a%20b/c?x=1%262&y=%F0%9F%8E%89#section-2' },
+    { name: 'port', url: 'https://example.com:8443/admin?tab=settings' },
+    { name: 'ipv6', url: 'http://[2606:4700:4700::1111]/' },
+    { name: 'many-params', url: 'https://example.com/?utm_source=a&utm_source=b&empty=&flag&a[]=1&a[]=2' },
+    {
+      name: 'routed',
+      routingRules: [
+        {
+          name: 'Phones',
+          conditions: { device: ['mobile'] },
+          destinations: [
+            { url: 'https://m.example.com/', weight: 80 },
+            { url: 'https://m.example.com/beta', weight: 20 },
+          ],
+        },
+      ],
+    },
+    { name: 'fwd-query', url: 'https://example.com/landing?utm_source=seed', queryForwarding: 'preserve' },
+    {
+      name: 'social-card',
+      socialTitle: 'A seeded social card',
+      socialDescription: 'Shown to crawlers and, with the card page on, to browsers too.',
+      showSocialCard: true,
+    },
+    { name: 'long-title', title: 'A very long title '.repeat(11).slice(0, 200) },
+  ]
+
+  return cases.map(({ name, url = `https://example.com/${name}`, ...link }) => ({
+    ...link,
+    id: seedId('edge', name),
+    url,
+    shortCode: `${name}-${userKey}`,
+  }))
+}
+
+// Tag names to IDs, using tags the workspace already has
+async function ensureTags(workspaceId: string, names: string[]) {
+  if (names.length === 0) return new Map<string, string>()
+
+  await db
+    .insert(tags)
+    .values(names.map((name) => ({ id: seedId('tag', name), workspaceId, name })))
+    .onConflictDoNothing()
+
+  const rows = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.workspaceId, workspaceId), inArray(tags.name, names)))
+
+  return new Map(rows.map(({ id, name }) => [name, id]))
+}
+
+async function insertLinks(workspaceId: string, seedLinks: SeedLink[]) {
+  const tagIds = await ensureTags(workspaceId, [...new Set(seedLinks.flatMap((link) => link.tags ?? []))])
+  let added = 0
+  let present = 0
+
+  for (const batch of chunk(seedLinks, BATCH_SIZE)) {
+    // Rows already seeded, or whose short code is taken, are skipped
+    const inserted = await db
+      .insert(links)
+      .values(batch.map(({ tags: _, ...link }) => ({ ...link, workspaceId, userId: userId! })))
+      .onConflictDoNothing()
+      .returning({ id: links.id })
+
+    // Tagged after the fact, so a run that stopped halfway gets its tags on the next one
+    const existing = await db
+      .select({ id: links.id })
+      .from(links)
+      .where(and(eq(links.workspaceId, workspaceId), inArray(links.id, batch.map((link) => link.id))))
+    const existingIds = new Set(existing.map(({ id }) => id))
+    const tagRows = batch
+      .filter((link) => existingIds.has(link.id))
+      .flatMap((link) => (link.tags ?? []).map((name) => ({ linkId: link.id, tagId: tagIds.get(name)! })))
+    if (tagRows.length > 0) {
+      await db.insert(linkTags).values(tagRows).onConflictDoNothing()
+    }
+
+    added += inserted.length
+    present += existing.length
+    if (seedLinks.length > BATCH_SIZE) {
+      console.log(`  ${present} of ${seedLinks.length} links`)
+    }
+  }
+
+  const skipped = seedLinks.length - present
+  console.log(
+    `${added} links added, ${present - added} already seeded` +
+      (skipped > 0 ? `, ${skipped} skipped because their short code is taken` : '')
+  )
+}
+
+async function reset(workspaceId: string) {
+  // Clicks, tags on links and profile entries go with the links
+  const [deletedLinks, deletedTags] = await db.batch([
+    db
+      .delete(links)
+      .where(and(eq(links.workspaceId, workspaceId), like(links.id, SEED_ID_PATTERN)))
+      .returning({ id: links.id }),
+    db
+      .delete(tags)
+      .where(and(eq(tags.workspaceId, workspaceId), like(tags.id, SEED_ID_PATTERN)))
+      .returning({ id: tags.id }),
+  ])
+  console.log(`Deleted ${deletedLinks.length} seeded links and ${deletedTags.length} seeded tags`)
+}
+
+async function seed() {
+  const workspaceId = await ensurePersonalWorkspace(userId!)
+  console.log(`Personal workspace ${workspaceId}`)
+
+  if (values.reset) {
+    await reset(workspaceId)
+  }
+
+  const now = Date.now()
+  switch (scenario as Scenario | undefined) {
+    case undefined:
+    case 'empty':
+      break
+    case 'examples':
+      await insertLinks(workspaceId, exampleLinks())
+      break
+    case 'heavy':
+      await insertLinks(workspaceId, heavyLinks(now))
+      break
+    case 'edge-cases':
+      await insertLinks(workspaceId, await edgeCaseLinks(now))
+      console.log(`protected-${userKey} opens with the password "${PROTECTED_PASSWORD}"`)
+      break
+  }
+}
+
+seed()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Seeding failed:', error)
+    process.exit(1)
+  })
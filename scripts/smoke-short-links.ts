@@ -0,0 +1,33 @@
+import { randomBytes } from 'node:crypto'
+
+// Checks the pages a short link renders without redirecting, against a running server:
+//   npm run smoke:short-links -- http://localhost:3000
+// They share the root layout with the rest of the app, so they break (as a
+// 500) whenever the proxy stops running Clerk for short-code paths. Each run
+// counts as one short-code miss for this IP.
+
+const baseUrl = process.argv[2]
+
+if (!baseUrl) {
+  console.error('Usage: smoke-short-links <app URL>')
+  process.exit(1)
+}
+
+async function main() {
+  // Hex only, so it's always a valid short code and never a reserved route
+  const url = new URL(`/missing-${randomBytes(4).toString('hex')}`, baseUrl)
+  const response = await fetch(url, { redirect: 'manual' })
+  const body = await response.text()
+
+  if (response.status !== 404 || !body.includes('Link not found')) {
+    console.error(`${url}: expected the 404 page, got ${response.status}`)
+    process.exit(1)
+  }
+
+  console.log(`${url}: 404 Link not found`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
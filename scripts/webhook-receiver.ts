@@ -0,0 +1,63 @@
+import { createServer } from 'node:http'
+import { parseArgs } from 'node:util'
+import { verifyWebhookSignature, WEBHOOK_HEADERS } from '../lib/webhook-signature'
+
+// A local endpoint for trying out webhooks:
+//   npm run webhooks:receive -- --secret whsec_... --port 4000
+// Add http://localhost:4000 as a webhook in the dashboard, and run the app with
+// WEBHOOK_ALLOW_PRIVATE_NETWORKS=true so deliveries may reach localhost. Every
+// delivery is printed with whether its signature checks out; --fail N answers
+// the first N with a 500 to watch the retries and the redeliver button.
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '4000' },
+    secret: { type: 'string', default: process.env.WEBHOOK_SECRET },
+    fail: { type: 'string', default: '0' },
+  },
+})
+
+const port = Number(values.port)
+const failures = Number(values.fail)
+
+if (!values.secret || !(port > 0) || !(failures >= 0)) {
+  console.error('Usage: webhook-receiver --secret <whsec_...> [--port 4000] [--fail 0]')
+  process.exit(1)
+}
+
+const secret = values.secret
+let received = 0
+
+const server = createServer(async (request, response) => {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) chunks.push(chunk as Buffer)
+  const body = Buffer.concat(chunks).toString('utf8')
+
+  const header = (name: string) => request.headers[name] as string | undefined
+  const verification = verifyWebhookSignature(
+    secret,
+    { timestamp: header(WEBHOOK_HEADERS.timestamp), signature: header(WEBHOOK_HEADERS.signature) },
+    body
+  )
+  const failing = ++received <= failures
+
+  let type = 'unknown'
+  try {
+    type = JSON.parse(body).type
+  } catch {
+    // Printed as unknown
+  }
+  console.log(
+    `${new Date().toISOString()}  ${header(WEBHOOK_HEADERS.id)}  ${type}  ` +
+      (verification.valid ? 'signature ok' : `signature rejected: ${verification.reason}`) +
+      (failing ? '  -> 500 (--fail)' : '')
+  )
+  console.log(body)
+
+  const status = !verification.valid ? 401 : failing ? 500 : 204
+  response.writeHead(status).end()
+})
+
+server.listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}`)
+})